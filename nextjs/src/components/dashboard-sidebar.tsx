@@ -26,7 +26,8 @@ import {
   Brain,
   TrendingUp,
   Settings,
-  LayoutDashboard
+  LayoutDashboard,
+  Upload
 } from "lucide-react";
 import { useRouter } from "next/router";
 import {
@@ -44,7 +45,8 @@ const iconMap: Record<string, any> = {
   Brain,
   TrendingUp,
   Settings,
-  LayoutDashboard
+  LayoutDashboard,
+  Upload
 };
 
 export default function DashboardSidebar() {
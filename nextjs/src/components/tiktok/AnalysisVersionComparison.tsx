@@ -0,0 +1,110 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { trpc } from "@/utils/trpc";
+import { formatDistanceToNow } from "date-fns";
+import { GitCompare } from "lucide-react";
+
+interface AnalysisVersionComparisonProps {
+  videoId: string;
+}
+
+function Delta({ value, digits = 0 }: { value: number; digits?: number }) {
+  if (value === 0) return <span className="text-muted-foreground">±0</span>;
+  return (
+    <span className={value > 0 ? "text-green-600" : "text-red-600"}>
+      {value > 0 ? "+" : ""}{value.toFixed(digits)}
+    </span>
+  );
+}
+
+export function AnalysisVersionComparison({ videoId }: AnalysisVersionComparisonProps) {
+  const { data, isLoading } = trpc.tiktok.getAnalysisVersions.useQuery({ videoId });
+
+  if (isLoading || !data || data.versions.length < 2) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Prompt Versions
+        </CardTitle>
+        <CardDescription>
+          This video analyzed with each prompt version. Deltas and label changes are relative to
+          version {data.baselineVersion}{data.baselineVersion === data.activeVersion ? " (active)" : ""}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Score</TableHead>
+              <TableHead>Opening lines</TableHead>
+              <TableHead>Hook type</TableHead>
+              <TableHead>Emotional impact</TableHead>
+              <TableHead>Techniques</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.versions.map((version) => (
+              <TableRow key={version.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{version.promptVersion}</span>
+                    {version.promptVersion === data.activeVersion && <Badge>Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {version.model || "unknown model"} · {formatDistanceToNow(new Date(version.processedAt), { addSuffix: true })}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <span className="font-semibold">{version.overallScore}</span>
+                  {version.changes && <span className="ml-2 text-sm"><Delta value={version.changes.overallScoreDelta} /></span>}
+                </TableCell>
+                <TableCell>
+                  <span>{version.effectiveness}/10</span>
+                  {version.changes && <span className="ml-2 text-sm"><Delta value={version.changes.effectivenessDelta} digits={1} /></span>}
+                </TableCell>
+                <TableCell>
+                  <span className={version.changes?.hookType ? "font-medium text-amber-600 capitalize" : "capitalize"}>
+                    {version.hookType || "—"}
+                  </span>
+                  {version.changes?.hookType && (
+                    <p className="text-xs text-muted-foreground">was {version.changes.hookType.from || "—"}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <span className={version.changes?.emotionalImpact ? "font-medium text-amber-600" : undefined}>
+                    {version.emotionalImpact || "—"}
+                  </span>
+                  {version.changes?.emotionalImpact && (
+                    <p className="text-xs text-muted-foreground">was {version.changes.emotionalImpact.from || "—"}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {version.changes ? (
+                    <div className="flex flex-wrap gap-1">
+                      {version.changes.techniquesAdded.map((technique) => (
+                        <Badge key={`+${technique}`} variant="outline" className="text-green-600">+ {technique}</Badge>
+                      ))}
+                      {version.changes.techniquesRemoved.map((technique) => (
+                        <Badge key={`-${technique}`} variant="outline" className="text-red-600">− {technique}</Badge>
+                      ))}
+                      {version.changes.techniquesAdded.length === 0 && version.changes.techniquesRemoved.length === 0 && (
+                        <span className="text-sm text-muted-foreground">No change</span>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Baseline</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
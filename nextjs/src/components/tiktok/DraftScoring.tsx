@@ -0,0 +1,312 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/utils/trpc";
+import { useState } from "react";
+import { toast } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { Database } from "@shared-types/database.types";
+import { HookAnalysisResult } from "@/lib/clients/gemini";
+import { AnalysisWindow, describeAnalysisWindow } from "@/lib/analysis-window";
+import { DRAFT_CONTENT_TYPES, MAX_DRAFT_SIZE_BYTES, MAX_DRAFT_SIZE_MB } from "@/lib/draft-videos";
+import { MetricsMode } from "@/lib/video-metrics";
+import { NicheComparisonDetails, NicheSelectors } from "./NicheComparison";
+import { AlertCircle, Brain, Loader2, Target, Upload } from "lucide-react";
+
+type SearchTerm = Database['public']['Tables']['search_terms']['Row'];
+
+type Draft = Pick<
+  Database['public']['Tables']['tiktok_videos']['Row'],
+  'id' | 'title' | 'duration' | 'r2_key' | 'analysis_error' | 'analysis_window' | 'created_at'
+> & {
+  hook_analysis: Pick<Database['public']['Tables']['hook_analysis']['Row'], 'id' | 'analysis_result' | 'processed_at'>[];
+};
+
+function DraftUploadCard() {
+  const [title, setTitle] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const utils = trpc.useUtils();
+  const createUpload = trpc.tiktok.createDraftUpload.useMutation();
+  const analyzeDraft = trpc.tiktok.analyzeDraft.useMutation();
+
+  const fileError = file && !(DRAFT_CONTENT_TYPES as readonly string[]).includes(file.type)
+    ? "Drafts must be MP4 videos"
+    : file && file.size > MAX_DRAFT_SIZE_BYTES
+      ? `Drafts must be ${MAX_DRAFT_SIZE_MB}MB or smaller`
+      : null;
+
+  const handleUpload = async () => {
+    if (!file || fileError || !title.trim()) return;
+
+    setIsUploading(true);
+    try {
+      const upload = await createUpload.mutateAsync({
+        fileName: file.name,
+        contentType: "video/mp4",
+        size: file.size,
+      });
+
+      // Works for every storage driver: the signed URL accepts a raw PUT of the file
+      const response = await fetch(upload.signedUrl, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": file.type },
+      });
+
+      if (!response.ok) throw new Error(`Upload failed (${response.status})`);
+
+      await analyzeDraft.mutateAsync({ storageKey: upload.key, title: title.trim() });
+
+      utils.tiktok.getDrafts.invalidate();
+      setTitle("");
+      setFile(null);
+      toast.success("Draft uploaded. Its hook is being analyzed.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload draft");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Upload a Draft
+        </CardTitle>
+        <CardDescription>
+          Score a video before you post it. Drafts are analyzed like TikTok videos but never get public metrics.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="draft-title">Title</Label>
+          <Input
+            id="draft-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Morning routine v2"
+            maxLength={150}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="draft-file">Video (MP4, up to {MAX_DRAFT_SIZE_MB}MB)</Label>
+          <Input
+            id="draft-file"
+            type="file"
+            accept={DRAFT_CONTENT_TYPES.join(",")}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+          {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+        </div>
+        <Button
+          onClick={handleUpload}
+          disabled={!file || !!fileError || !title.trim() || isUploading}
+          className="w-full"
+        >
+          {isUploading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            "Upload & Score"
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DraftComparisonProps {
+  draft: Draft;
+  searchTerms: SearchTerm[];
+}
+
+function DraftComparison({ draft, searchTerms }: DraftComparisonProps) {
+  const [nicheId, setNicheId] = useState<string>("all");
+  const [metricsMode, setMetricsMode] = useState<MetricsMode>("first_seen");
+
+  const analysis = draft.hook_analysis[0]?.analysis_result as unknown as HookAnalysisResult | undefined;
+
+  const { data: comparison, isLoading, error } = trpc.tiktok.compareDraftToNiche.useQuery(
+    {
+      videoId: draft.id,
+      searchTermId: nicheId === "all" ? undefined : nicheId,
+      metricsMode,
+    },
+    { enabled: !!analysis, retry: false }
+  );
+
+  if (!analysis) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-muted-foreground">
+          {draft.analysis_error ? (
+            <div className="flex flex-col items-center gap-2 text-destructive">
+              <AlertCircle className="h-6 w-6" />
+              <span>Analysis failed: {draft.analysis_error}</span>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Analyzing hook...
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <Brain className="h-5 w-5" />
+              {draft.title}
+            </span>
+            <Badge className="text-base">{analysis.overallScore}/100</Badge>
+          </CardTitle>
+          <CardDescription>{analysis.summary}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draft.analysis_window && (
+            <p className="text-xs text-muted-foreground">
+              Analyzed {describeAnalysisWindow(draft.analysis_window as unknown as AnalysisWindow)}
+            </p>
+          )}
+          <div>
+            <p className="text-sm font-medium">Opening lines</p>
+            <p className="text-sm text-muted-foreground italic">"{analysis.openingLines.transcript}"</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="capitalize">{analysis.engagementTactics.hook_type}</Badge>
+            <Badge variant="outline" className="capitalize">{analysis.openingLines.emotional_impact}</Badge>
+            {analysis.openingLines.techniques.map((technique) => (
+              <Badge key={technique} variant="secondary">{technique}</Badge>
+            ))}
+          </div>
+          {analysis.recommendations.length > 0 && (
+            <div>
+              <p className="text-sm font-medium">Recommendations</p>
+              <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                {analysis.recommendations.map((recommendation, idx) => (
+                  <li key={idx}>{recommendation}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Compared to Your Niche
+          </CardTitle>
+          <CardDescription>
+            The cluster of analyzed videos this draft is closest to, and how it differs from the niche's top performers
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <NicheSelectors
+            searchTerms={searchTerms}
+            nicheId={nicheId}
+            onNicheChange={setNicheId}
+            metricsMode={metricsMode}
+            onMetricsModeChange={setMetricsMode}
+          />
+
+          {isLoading ? (
+            <div className="text-center text-muted-foreground">Comparing to niche...</div>
+          ) : error ? (
+            <div className="text-center text-destructive">{error.message}</div>
+          ) : comparison ? (
+            <NicheComparisonDetails comparison={comparison} metricsMode={metricsMode} subjectLabel="your draft" />
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function DraftScoring() {
+  const [selectedDraftId, setSelectedDraftId] = useState<string | null>(null);
+
+  const { data: searchTerms } = trpc.tiktok.getSearchTerms.useQuery();
+  const { data: draftsData, isLoading } = trpc.tiktok.getDrafts.useQuery(undefined, {
+    // Poll while any draft is still being analyzed
+    refetchInterval: (data) =>
+      (data as unknown as Draft[] | undefined)?.some(d => d.hook_analysis.length === 0 && !d.analysis_error) ? 5000 : false,
+  });
+  const drafts = (draftsData || []) as unknown as Draft[];
+  const niches = ((searchTerms || []) as SearchTerm[]).filter(term => term.kind !== "drafts");
+
+  const selectedDraft = drafts.find(d => d.id === selectedDraftId) || drafts[0];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="space-y-6">
+        <DraftUploadCard />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Drafts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading drafts...</p>
+            ) : drafts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No drafts uploaded yet.</p>
+            ) : (
+              drafts.map((draft) => {
+                const score = (draft.hook_analysis[0]?.analysis_result as unknown as HookAnalysisResult | undefined)?.overallScore;
+                return (
+                  <button
+                    key={draft.id}
+                    onClick={() => setSelectedDraftId(draft.id)}
+                    className={`w-full rounded-md border p-3 text-left transition-colors hover:bg-muted ${selectedDraft?.id === draft.id ? "border-primary" : ""}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">{draft.title}</span>
+                      {score !== undefined ? (
+                        <Badge>{score}</Badge>
+                      ) : draft.analysis_error ? (
+                        <Badge variant="destructive">Failed</Badge>
+                      ) : (
+                        <Badge variant="secondary">Analyzing</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(draft.created_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2">
+        {selectedDraft ? (
+          <DraftComparison key={selectedDraft.id} draft={selectedDraft} searchTerms={niches} />
+        ) : (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              Upload a draft to see how its hook compares to your niche.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
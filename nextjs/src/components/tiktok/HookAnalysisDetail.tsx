@@ -18,15 +18,30 @@ import {
   Users,
   Clock,
   ExternalLink,
+  ListChecks,
   User
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { Database } from "@shared-types/database.types";
 import { HookAnalysisResult } from "@/lib/clients/gemini";
+import { AnalysisWindow, describeAnalysisWindow } from "@/lib/analysis-window";
+import { FilmstripFrame } from "@/lib/filmstrip";
+import { MediaSignals } from "@/lib/media-signals";
+import { normalizeCriterionScore } from "@/lib/rubric-criteria";
+import { MirroredImage, mirroredImageUrl } from "@/lib/mirrored-images";
+import { HookRewriteDialog } from "./HookRewriteDialog";
+import { HookFilmstrip } from "./HookFilmstrip";
+import { HookTimeline } from "./HookTimeline";
+import { AnalysisVersionComparison } from "./AnalysisVersionComparison";
 
 type VideoWithAnalysis = Database['public']['Tables']['tiktok_videos']['Row'] & {
-  search_terms: Database['public']['Tables']['search_terms']['Row'];
+  search_term_videos: {
+    search_term_id: string;
+    rank_position: number | null;
+    search_terms: Database['public']['Tables']['search_terms']['Row'];
+  }[];
   hook_analysis: Database['public']['Tables']['hook_analysis']['Row'][];
+  playback_url: string | null; // signed, expires after a few minutes
 };
 
 interface HookAnalysisDetailProps {
@@ -68,6 +83,8 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
   const analysis = video.hook_analysis[0] as Database['public']['Tables']['hook_analysis']['Row'];
   const result = analysis?.analysis_result as unknown as HookAnalysisResult;
   const overallScore = result?.overallScore || 0;
+  const thumbnailUrl = mirroredImageUrl(video.thumbnail_mirror as unknown as MirroredImage | null, "detail", video.thumbnail_url);
+  const avatarUrl = mirroredImageUrl(video.creator_avatar_mirror as unknown as MirroredImage | null, "detail");
 
   const formatNumber = (num: number) => {
     if (num >= 1000000) {
@@ -94,9 +111,9 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
             {/* Video Thumbnail */}
             <div className="lg:col-span-1">
               <div className="aspect-video bg-muted rounded-lg overflow-hidden relative">
-                {video.thumbnail_url ? (
+                {thumbnailUrl ? (
                   <img
-                    src={video.thumbnail_url}
+                    src={thumbnailUrl}
                     alt={video.title || "TikTok video"}
                     className="w-full h-full object-cover"
                   />
@@ -124,7 +141,11 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
                 <h2 className="text-2xl font-bold mb-2">{video.title || "Untitled"}</h2>
                 <div className="flex items-center gap-4 text-muted-foreground">
                   <div className="flex items-center gap-2">
-                    <User className="h-4 w-4" />
+                    {avatarUrl ? (
+                      <img src={avatarUrl} alt="" className="h-6 w-6 rounded-full object-cover" />
+                    ) : (
+                      <User className="h-4 w-4" />
+                    )}
                     {video.creator || video.creator_username || "Unknown creator"}
                   </div>
                   <div className="flex items-center gap-2">
@@ -132,6 +153,11 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
                     {video.duration ? `${Math.round(video.duration)}s` : "Unknown duration"}
                   </div>
                 </div>
+                {video.analysis_window && (
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    Analyzed {describeAnalysisWindow(video.analysis_window as unknown as AnalysisWindow)}
+                  </p>
+                )}
               </div>
 
               {/* Engagement Stats */}
@@ -168,17 +194,28 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
 
               {/* Search Term and Actions */}
               <div className="flex items-center justify-between pt-4 border-t">
-                <Badge variant="outline">{video.search_terms.term}</Badge>
+                <div className="flex flex-wrap gap-2">
+                  {video.search_term_videos.map((link) => (
+                    <Badge key={link.search_term_id} variant="outline">{link.search_terms.term}</Badge>
+                  ))}
+                </div>
                 <div className="flex gap-2">
-                  {video.r2_url && (
+                  {result?.openingLines?.transcript && (
+                    <HookRewriteDialog
+                      analysisId={analysis.id}
+                      transcript={result.openingLines.transcript}
+                      searchTerms={video.search_term_videos.map(link => link.search_terms)}
+                    />
+                  )}
+                  {video.playback_url && (
                     <Button variant="outline" asChild>
-                      <a href={video.r2_url} target="_blank" rel="noopener noreferrer">
+                      <a href={video.playback_url} target="_blank" rel="noopener noreferrer">
                         <VideoIcon className="mr-2 h-4 w-4" />
                         Watch Video
                       </a>
                     </Button>
                   )}
-                  {video.video_url && (
+                  {video.video_url && !video.is_draft && (
                     <Button variant="outline" asChild>
                       <a href={video.video_url} target="_blank" rel="noopener noreferrer">
                         <ExternalLink className="mr-2 h-4 w-4" />
@@ -193,6 +230,18 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
         </CardContent>
       </Card>
 
+      {/* Hook Timeline */}
+      {result?.timeline && result.timeline.length > 0 && <HookTimeline events={result.timeline} />}
+
+      {/* Hook Filmstrip */}
+      {Array.isArray(video.filmstrip) && video.filmstrip.length > 0 && (
+        <HookFilmstrip
+          frames={video.filmstrip as unknown as FilmstripFrame[]}
+          visualElements={result?.visualElements}
+          mediaSignals={video.media_signals as unknown as MediaSignals | null}
+        />
+      )}
+
       {/* Analysis Results */}
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Opening Lines Analysis */}
@@ -393,6 +442,33 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
         </CardContent>
       </Card>
 
+      {/* Custom Criteria */}
+      {result?.customCriteria && result.customCriteria.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5 text-teal-500" />
+              Custom Criteria
+            </CardTitle>
+            <CardDescription>Your rubric criteria, as they were defined when this video was analyzed</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.customCriteria.map((criterion) => (
+              <div key={criterion.criterionId} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium">{criterion.name}</span>
+                  <Badge variant="outline">{criterion.score}/{criterion.scaleMax}</Badge>
+                </div>
+                <Progress value={normalizeCriterionScore(criterion) * 100} />
+                {criterion.rationale && (
+                  <p className="text-sm text-muted-foreground">{criterion.rationale}</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary & Recommendations */}
       <div className="grid md:grid-cols-2 gap-6">
         <Card>
@@ -435,12 +511,16 @@ export function HookAnalysisDetail({ videoId }: HookAnalysisDetailProps) {
         </Card>
       </div>
 
+      {/* Same video under other prompt versions */}
+      {video.hook_analysis.length > 1 && <AnalysisVersionComparison videoId={video.id} />}
+
       {/* Analysis Meta */}
       <Card>
         <CardContent className="p-4">
           <div className="flex items-center justify-between text-sm text-muted-foreground">
             <span>
-              Analysis completed {formatDistanceToNow(new Date(analysis.processed_at), { addSuffix: true })}
+              Analysis completed {formatDistanceToNow(new Date(analysis.processed_at), { addSuffix: true })} with
+              prompt v{analysis.prompt_version}{analysis.model ? ` on ${analysis.model}` : ""}
             </span>
             <Badge variant="outline">
               Analysis ID: {analysis.id.slice(0, 8)}
@@ -19,10 +19,14 @@ import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
 import { Database } from "@shared-types/database.types";
 import { HookAnalysisResult } from "@/lib/clients/gemini";
+import { MirroredImage, mirroredImageUrl } from "@/lib/mirrored-images";
 
 type HookAnalysis = Database['public']['Tables']['hook_analysis']['Row'] & {
   tiktok_videos: Database['public']['Tables']['tiktok_videos']['Row'] & {
-    search_terms: Database['public']['Tables']['search_terms']['Row'];
+    search_term_videos: {
+      search_term_id: string;
+      search_terms: Database['public']['Tables']['search_terms']['Row'];
+    }[];
   };
 };
 
@@ -180,14 +184,15 @@ export function HookAnalysisGrid({ searchTermId, searchQuery }: HookAnalysisGrid
           const hookType = result?.engagementTactics?.hook_type || "Unknown";
           const effectiveness = result?.openingLines?.effectiveness || 0;
           const openingText = result?.openingLines?.transcript || "No transcript available";
+          const thumbnailUrl = mirroredImageUrl(video.thumbnail_mirror as unknown as MirroredImage | null, "card", video.thumbnail_url);
 
           return (
             <Card key={analysis.id} className="overflow-hidden hover:shadow-lg transition-all duration-200">
               {/* Thumbnail */}
               <div className="aspect-video bg-muted relative">
-                {video.thumbnail_url ? (
+                {thumbnailUrl ? (
                   <img
-                    src={video.thumbnail_url}
+                    src={thumbnailUrl}
                     alt={video.title || "TikTok video"}
                     className="w-full h-full object-cover"
                   />
@@ -3,10 +3,17 @@ import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/utils/trpc";
 import { Brain, TrendingUp, TrendingDown, Lightbulb, CheckCircle2, MessageCircle, AlertTriangle, XCircle } from "lucide-react";
 import { ClusterStats } from "@/server/services/clustering";
+import { MetricsMode } from "@/lib/video-metrics";
 
-export function HookClusters({ searchTermId }: { searchTermId?: string }) {
+export function HookClusters({ searchTermId, metricsMode = "first_seen", collapseDuplicates = false }: {
+    searchTermId?: string;
+    metricsMode?: MetricsMode;
+    collapseDuplicates?: boolean;
+}) {
     const { data: clusteringResult, isLoading, error } = trpc.tiktok.getHookClusters.useQuery({
-        searchTermId
+        searchTermId,
+        metricsMode,
+        collapseDuplicates
     });
 
     if (isLoading) {
@@ -39,6 +46,9 @@ export function HookClusters({ searchTermId }: { searchTermId?: string }) {
     const best = sortedClusters[0];
     const worst = sortedClusters[sortedClusters.length - 1];
 
+    // Velocity mode reports views per hour since publish instead of absolute views
+    const viewsUnit = clusteringResult.metricsMode === "velocity" ? "views/hr" : "views";
+
     // Format confidence interval
     const formatCI = (ci: { lower: number; upper: number }) =>
         `[${ci.lower.toFixed(1)} - ${ci.upper.toFixed(1)}]`;
@@ -104,7 +114,7 @@ export function HookClusters({ searchTermId }: { searchTermId?: string }) {
                         <div>
                             <p className="text-sm">
                                 <span className="font-semibold text-foreground">{best?.topHookTypes[0]?.type || 'Top-performing'}</span> hooks
-                                {" "}are your best bet — averaging <span className="font-semibold">{(best!.avgViewCount / 1000).toFixed(1)}K views</span>
+                                {" "}are your best bet — averaging <span className="font-semibold">{(best!.avgViewCount / 1000).toFixed(1)}K {viewsUnit}</span>
                                 {" "}(CI: {formatCI(best!.viewCountCI)}) with{" "}
                                 <span className="font-semibold">{best!.avgEngagementRate.toFixed(2)}% ± {best!.stdDevEngagementRate.toFixed(2)}%</span> engagement.
                                 {" "}<span className="text-xs text-muted-foreground">
@@ -140,7 +150,7 @@ export function HookClusters({ searchTermId }: { searchTermId?: string }) {
                         <div>
                             <p className="text-sm">
                                 <span className="font-semibold text-foreground">{worst?.topHookTypes[0]?.type || 'Lower-performing'}</span> hooks
-                                {" "}underperform at just <span className="font-semibold">{(worst!.avgViewCount / 1000).toFixed(1)}K views</span>
+                                {" "}underperform at just <span className="font-semibold">{(worst!.avgViewCount / 1000).toFixed(1)}K {viewsUnit}</span>
                                 {" "}(±{(worst!.stdDevViewCount / 1000).toFixed(1)}K).
                                 {" "}Statistical confidence: <span className="text-xs">margin of error = {worst!.marginOfError.toFixed(1)}</span>
                             </p>
@@ -182,7 +192,7 @@ export function HookClusters({ searchTermId }: { searchTermId?: string }) {
                                     Avoid {worst.topHookTypes[0]?.type || 'certain'} hook patterns
                                 </p>
                                 <p className="text-sm text-muted-foreground mb-2">
-                                    This pattern averages only <span className="font-semibold">{(worst.avgViewCount / 1000).toFixed(1)}K views</span>,
+                                    This pattern averages only <span className="font-semibold">{(worst.avgViewCount / 1000).toFixed(1)}K {viewsUnit}</span>,
                                     {" "}<span className="font-semibold">{((1 - worst.avgViewCount / best!.avgViewCount) * 100).toFixed(0)}% lower</span> than top performers.
                                     {" "}Statistical confidence: {worst.cohesionScore > 0.6 ? 'High' : 'Moderate'} (cohesion = {worst.cohesionScore.toFixed(2)})
                                 </p>
@@ -238,6 +248,7 @@ export function HookClusters({ searchTermId }: { searchTermId?: string }) {
                         totalClusters={sortedClusters.length}
                         totalAnalyzed={clusteringResult.totalAnalyzed}
                         topPerformerAvgViews={best!.avgViewCount}
+                        viewsUnit={viewsUnit}
                     />
                 ))}
             </div>
@@ -245,12 +256,13 @@ export function HookClusters({ searchTermId }: { searchTermId?: string }) {
     );
 }
 
-function ClusterCard({ cluster, rank, totalClusters, totalAnalyzed, topPerformerAvgViews }: {
+function ClusterCard({ cluster, rank, totalClusters, totalAnalyzed, topPerformerAvgViews, viewsUnit }: {
     cluster: ClusterStats;
     rank: number;
     totalClusters: number;
     totalAnalyzed: number;
     topPerformerAvgViews: number;
+    viewsUnit: string;
 }) {
     const primaryType = cluster.topHookTypes[0]?.type || "Mixed";
     const isTopPerformer = rank === 1;
@@ -336,7 +348,7 @@ function ClusterCard({ cluster, rank, totalClusters, totalAnalyzed, topPerformer
                     </h4>
                     <div className="grid grid-cols-2 gap-2 text-sm">
                         <div className="flex flex-col p-3 bg-white rounded-lg border">
-                            <span className="text-xs text-muted-foreground mb-1">Avg Views</span>
+                            <span className="text-xs text-muted-foreground mb-1 capitalize">Avg {viewsUnit}</span>
                             <span className="text-lg font-bold">{(cluster.avgViewCount / 1000).toFixed(1)}K</span>
                             <span className="text-xs text-muted-foreground">±{(cluster.stdDevViewCount / 1000).toFixed(1)}K</span>
                         </div>
@@ -0,0 +1,112 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useState } from "react";
+import { HookAnalysisResult } from "@/lib/clients/gemini";
+import { FilmstripFrame } from "@/lib/filmstrip";
+import { MediaSignals } from "@/lib/media-signals";
+import { Film } from "lucide-react";
+
+interface HookFilmstripProps {
+  frames: FilmstripFrame[];
+  visualElements?: HookAnalysisResult["visualElements"];
+  mediaSignals?: MediaSignals | null;
+}
+
+export function HookFilmstrip({ frames, visualElements, mediaSignals }: HookFilmstripProps) {
+  const [selected, setSelected] = useState(0);
+
+  if (frames.length === 0) return null;
+
+  const interval = frames.length > 1 ? frames[1]!.time - frames[0]!.time : 0.5;
+  const frameIndexAt = (time: number) => Math.min(Math.round(time / interval), frames.length - 1);
+
+  // Gemini lists transitions without timestamps; pair them in order with the cuts ffmpeg detected
+  const cutFrames = new Map<number, string | null>();
+  (mediaSignals?.sceneCuts || []).forEach((time, idx) => {
+    if (time <= frames[frames.length - 1]!.time + interval) {
+      cutFrames.set(frameIndexAt(time), visualElements?.transitions?.[idx] || null);
+    }
+  });
+
+  const frame = frames[selected]!;
+  const cutLabel = cutFrames.get(selected);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Film className="h-5 w-5" />
+          Hook Filmstrip
+        </CardTitle>
+        <CardDescription>
+          One frame every {interval}s of the hook. Cuts detected in the video are marked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="md:col-span-1">
+            <div className="bg-muted rounded-lg overflow-hidden flex items-center justify-center">
+              <img src={frame.url} alt={`Frame at ${frame.time}s`} className="max-h-80 object-contain" />
+            </div>
+          </div>
+          <div className="md:col-span-2 space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{frame.time.toFixed(1)}s</Badge>
+              {cutFrames.has(selected) && <Badge>Cut</Badge>}
+            </div>
+            {selected === 0 && visualElements?.opening_shot && (
+              <div>
+                <p className="font-medium">Opening shot</p>
+                <p className="text-muted-foreground">{visualElements.opening_shot}</p>
+              </div>
+            )}
+            {cutLabel && (
+              <div>
+                <p className="font-medium">Transition</p>
+                <p className="text-muted-foreground">{cutLabel}</p>
+              </div>
+            )}
+            {visualElements?.text_overlays && visualElements.text_overlays.length > 0 && (
+              <div>
+                <p className="font-medium">Text overlays in the hook</p>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {visualElements.text_overlays.map((text, idx) => (
+                    <Badge key={idx} variant="secondary">"{text}"</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={selected}
+          onChange={(e) => setSelected(Number(e.target.value))}
+          className="w-full"
+          aria-label="Scrub through the hook"
+        />
+
+        <div className="flex gap-1 overflow-x-auto pb-1">
+          {frames.map((f, idx) => (
+            <button
+              key={f.key}
+              onClick={() => setSelected(idx)}
+              className={`relative shrink-0 rounded overflow-hidden border-2 ${idx === selected ? "border-primary" : "border-transparent"}`}
+            >
+              <img src={f.url} alt={`Frame at ${f.time}s`} className="h-20 w-auto" loading="lazy" />
+              {cutFrames.has(idx) && (
+                <span className="absolute left-0 top-0 h-full w-1 bg-yellow-400" />
+              )}
+              <span className="absolute bottom-0 right-0 bg-black/60 px-1 text-[10px] text-white">
+                {f.time.toFixed(1)}s
+              </span>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
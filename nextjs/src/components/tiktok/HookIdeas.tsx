@@ -0,0 +1,156 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/utils/trpc";
+import { useState } from "react";
+import { toast } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { Database } from "@shared-types/database.types";
+import { HookSuggestion } from "@/lib/hook-suggestions";
+import { MetricsMode } from "@/lib/video-metrics";
+import { Copy, Lightbulb, Loader2, RefreshCw, Star } from "lucide-react";
+
+type HookSuggestionSet = Database['public']['Tables']['hook_suggestion_sets']['Row'];
+
+interface HookIdeasProps {
+  searchTermId?: string;
+  metricsMode: MetricsMode;
+}
+
+export function HookIdeas({ searchTermId, metricsMode }: HookIdeasProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const utils = trpc.useUtils();
+
+  const { data: setsData, isLoading } = trpc.tiktok.getHookSuggestionSets.useQuery(
+    { searchTermId: searchTermId! },
+    { enabled: !!searchTermId }
+  );
+  const sets = (setsData || []) as HookSuggestionSet[];
+
+  const generate = trpc.tiktok.generateHookSuggestions.useMutation({
+    onSuccess: () => {
+      utils.tiktok.getHookSuggestionSets.invalidate({ searchTermId });
+      toast.success("New hook ideas generated");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to generate hook ideas");
+    },
+  });
+
+  const toggleFavorite = trpc.tiktok.toggleHookSuggestionFavorite.useMutation({
+    onSuccess: () => {
+      utils.tiktok.getHookSuggestionSets.invalidate({ searchTermId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update favorite");
+    },
+  });
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Copied to clipboard");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  const visibleSets = showAll ? sets : sets.slice(0, 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Lightbulb className="h-5 w-5" />
+              Hook Ideas
+            </CardTitle>
+            <CardDescription>
+              Suggestions generated from the hooks of this search term's top-performing videos
+            </CardDescription>
+          </div>
+          {searchTermId && (
+            <Button
+              variant="outline"
+              onClick={() => generate.mutate({ searchTermId, metricsMode })}
+              disabled={generate.isLoading}
+            >
+              {generate.isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              {sets.length > 0 ? "Regenerate" : "Generate"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!searchTermId ? (
+          <p className="text-sm text-muted-foreground">Select a search term to generate hook ideas for it.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading hook ideas...</p>
+        ) : sets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hook ideas yet. Generate some from your top performers.</p>
+        ) : (
+          <>
+            {visibleSets.map((set) => {
+              const suggestions = set.suggestions as unknown as HookSuggestion[];
+              const examples = set.examples as unknown as string[];
+
+              return (
+                <div key={set.id} className="space-y-3">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{formatDistanceToNow(new Date(set.created_at), { addSuffix: true })}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {set.source_analysis_ids.length} top hooks
+                    </Badge>
+                  </div>
+                  <div className="space-y-2">
+                    {suggestions.map((suggestion, idx) => (
+                      <div key={idx} className="flex items-start gap-2 rounded-md border p-3">
+                        <p className="flex-1 text-sm">{suggestion.text}</p>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => toggleFavorite.mutate({ setId: set.id, index: idx })}
+                          disabled={toggleFavorite.isLoading}
+                        >
+                          <Star className={`h-4 w-4 ${suggestion.favorite ? "fill-yellow-400 text-yellow-400" : ""}`} />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleCopy(suggestion.text)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  {examples.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium">Example openers</p>
+                      <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                        {examples.map((example, idx) => (
+                          <li key={idx}>{example}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {set.rationale && (
+                    <p className="text-sm text-muted-foreground">{set.rationale}</p>
+                  )}
+                </div>
+              );
+            })}
+            {sets.length > 1 && (
+              <Button variant="link" className="px-0" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Show latest only" : `Show ${sets.length - 1} earlier set${sets.length === 2 ? "" : "s"}`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
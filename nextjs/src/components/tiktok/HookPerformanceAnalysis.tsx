@@ -13,10 +13,17 @@ import {
 } from "lucide-react";
 import { ClusterStats } from "@/server/services/clustering";
 import { ContrastAnalyzer } from "@/lib/clustering/contrast-analyzer";
+import { MetricsMode } from "@/lib/video-metrics";
 
-export function HookPerformanceAnalysis({ searchTermId }: { searchTermId?: string }) {
+export function HookPerformanceAnalysis({ searchTermId, metricsMode = "first_seen", collapseDuplicates = false }: {
+    searchTermId?: string;
+    metricsMode?: MetricsMode;
+    collapseDuplicates?: boolean;
+}) {
     const { data: segmentedData, isLoading, error } = trpc.tiktok.getSegmentedClusters.useQuery({
-        searchTermId
+        searchTermId,
+        metricsMode,
+        collapseDuplicates
     });
 
     if (isLoading) {
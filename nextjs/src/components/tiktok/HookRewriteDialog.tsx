@@ -0,0 +1,164 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { useState } from "react";
+import { toast } from "@/lib/utils";
+import { Database } from "@shared-types/database.types";
+import { MetricsMode } from "@/lib/video-metrics";
+import { formatFeatureName, NicheSelectors } from "./NicheComparison";
+import { Copy, Loader2, Wand2 } from "lucide-react";
+
+type SearchTerm = Database['public']['Tables']['search_terms']['Row'];
+
+interface HookRewriteDialogProps {
+  analysisId: string;
+  transcript: string;
+  searchTerms: SearchTerm[];
+}
+
+export function HookRewriteDialog({ analysisId, transcript, searchTerms }: HookRewriteDialogProps) {
+  const niches = searchTerms.filter(term => term.kind !== "drafts");
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [nicheId, setNicheId] = useState<string>(niches[0]?.id || "all");
+  const [metricsMode, setMetricsMode] = useState<MetricsMode>("first_seen");
+  const [count, setCount] = useState("3");
+
+  const rewriteHook = trpc.tiktok.rewriteHook.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Failed to rewrite hook");
+    },
+  });
+
+  const handleRewrite = () => {
+    rewriteHook.mutate({
+      analysisId,
+      searchTermId: nicheId === "all" ? undefined : nicheId,
+      count: Number(count),
+      metricsMode,
+    });
+  };
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Copied to clipboard");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  const result = rewriteHook.data;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Wand2 className="mr-2 h-4 w-4" />
+          Rewrite
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rewrite Hook</DialogTitle>
+          <DialogDescription>
+            Rewrite this opening line using the hook types and techniques of the niche's best-performing cluster.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm italic text-muted-foreground">"{transcript}"</p>
+          <NicheSelectors
+            searchTerms={niches}
+            nicheId={nicheId}
+            onNicheChange={setNicheId}
+            metricsMode={metricsMode}
+            onMetricsModeChange={setMetricsMode}
+          />
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Variants</Label>
+              <Select value={count} onValueChange={setCount}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["1", "2", "3", "4", "5"].map((n) => (
+                    <SelectItem key={n} value={n}>{n}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleRewrite} disabled={rewriteHook.isLoading} className="flex-1">
+              {rewriteHook.isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rewriting...
+                </>
+              ) : (
+                "Generate Rewrites"
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-4 space-y-2">
+              <p className="text-sm font-medium">
+                Best-performing cluster ({result.cluster.size} videos, {Math.round(result.cluster.avgViewCount).toLocaleString()} avg views{result.metricsMode === "velocity" ? "/hr" : ""})
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {result.cluster.topHookTypes.slice(0, 3).map((hookType) => (
+                  <Badge key={hookType.type} variant="outline" className="capitalize">{hookType.type}</Badge>
+                ))}
+                {result.cluster.commonTechniques.slice(0, 5).map((technique) => (
+                  <Badge key={technique.technique} variant="secondary">{technique.technique}</Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Original scores {result.original.analysis.openingLines.effectiveness}/10 as a {result.original.analysis.engagementTactics.hook_type} hook when judged on text alone.
+              </p>
+            </div>
+
+            {result.variants.map((variant, idx) => (
+              <div key={idx} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 font-medium">"{variant.transcript}"</p>
+                  <Badge>{variant.analysis.openingLines.effectiveness}/10</Badge>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleCopy(variant.transcript)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline" className="capitalize">{variant.analysis.engagementTactics.hook_type}</Badge>
+                  {variant.analysis.openingLines.techniques.map((technique) => (
+                    <Badge key={technique} variant="secondary">{technique}</Badge>
+                  ))}
+                </div>
+                {variant.rationale && (
+                  <p className="text-sm text-muted-foreground">{variant.rationale}</p>
+                )}
+                {variant.changedFeatures.length > 0 && (
+                  <div className="text-sm">
+                    <p className="font-medium">Changed features</p>
+                    <ul className="text-muted-foreground">
+                      {variant.changedFeatures.map((change) => (
+                        <li key={change.feature}>
+                          {formatFeatureName(change.feature)}: {(change.before * 100).toFixed(0)} → {(change.after * 100).toFixed(0)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
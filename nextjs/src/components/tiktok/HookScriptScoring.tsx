@@ -0,0 +1,171 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/utils/trpc";
+import { useState } from "react";
+import { toast } from "@/lib/utils";
+import { Database } from "@shared-types/database.types";
+import { MetricsMode } from "@/lib/video-metrics";
+import { NicheComparisonDetails, NicheSelectors } from "./NicheComparison";
+import { FileText, Loader2, Target } from "lucide-react";
+
+type SearchTerm = Database['public']['Tables']['search_terms']['Row'];
+
+export function HookScriptScoring() {
+  const [script, setScript] = useState("");
+  const [onScreenText, setOnScreenText] = useState("");
+  const [visualNotes, setVisualNotes] = useState("");
+  const [nicheId, setNicheId] = useState<string>("all");
+  const [metricsMode, setMetricsMode] = useState<MetricsMode>("first_seen");
+
+  const { data: searchTerms } = trpc.tiktok.getSearchTerms.useQuery();
+  const niches = ((searchTerms || []) as SearchTerm[]).filter(term => term.kind !== "drafts");
+
+  const scoreScript = trpc.tiktok.scoreHookScript.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Failed to score script");
+    },
+  });
+
+  const handleScore = () => {
+    if (!script.trim()) return;
+    scoreScript.mutate({
+      script,
+      onScreenText: onScreenText || undefined,
+      visualNotes: visualNotes || undefined,
+      searchTermId: nicheId === "all" ? undefined : nicheId,
+      metricsMode,
+    });
+  };
+
+  const result = scoreScript.data;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Hook Script
+          </CardTitle>
+          <CardDescription>
+            Score an opening line before filming. Only the words and tactics are judged, not visuals.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hook-script">Opening line</Label>
+            <Textarea
+              id="hook-script"
+              value={script}
+              onChange={(e) => setScript(e.target.value)}
+              placeholder="Nobody tells you this about..."
+              maxLength={500}
+              rows={4}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hook-on-screen-text">On-screen text (optional)</Label>
+            <Textarea
+              id="hook-on-screen-text"
+              value={onScreenText}
+              onChange={(e) => setOnScreenText(e.target.value)}
+              maxLength={300}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hook-visual-notes">Visual notes (optional)</Label>
+            <Textarea
+              id="hook-visual-notes"
+              value={visualNotes}
+              onChange={(e) => setVisualNotes(e.target.value)}
+              placeholder="e.g. close-up, walking toward camera"
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+          <NicheSelectors
+            searchTerms={niches}
+            nicheId={nicheId}
+            onNicheChange={setNicheId}
+            metricsMode={metricsMode}
+            onMetricsModeChange={setMetricsMode}
+          />
+          <Button onClick={handleScore} disabled={!script.trim() || scoreScript.isLoading} className="w-full">
+            {scoreScript.isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Scoring...
+              </>
+            ) : (
+              "Score Script"
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        {result ? (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  <span>Opening Line</span>
+                  <Badge className="text-base">{result.analysis.openingLines.effectiveness}/10</Badge>
+                </CardTitle>
+                <CardDescription className="italic">"{result.analysis.openingLines.transcript}"</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline" className="capitalize">{result.analysis.engagementTactics.hook_type}</Badge>
+                  <Badge variant="outline" className="capitalize">{result.analysis.openingLines.emotional_impact}</Badge>
+                  {result.analysis.openingLines.techniques.map((technique) => (
+                    <Badge key={technique} variant="secondary">{technique}</Badge>
+                  ))}
+                </div>
+                {result.analysis.engagementTactics.curiosity_gaps.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium">Curiosity gaps</p>
+                    <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                      {result.analysis.engagementTactics.curiosity_gaps.map((gap, idx) => (
+                        <li key={idx}>{gap}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  Compared to Your Niche
+                </CardTitle>
+                <CardDescription>
+                  The cluster this script resembles, and what the niche's top performers do differently
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {result.comparison ? (
+                  <NicheComparisonDetails comparison={result.comparison} metricsMode={result.comparison.metricsMode} subjectLabel="your script" />
+                ) : (
+                  <p className="text-sm text-muted-foreground">{result.comparisonError}</p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        ) : (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              Write an opening line to see how it compares to your niche.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
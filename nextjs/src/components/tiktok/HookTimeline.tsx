@@ -0,0 +1,105 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useState } from "react";
+import {
+  HOOK_TIMELINE_EVENT_LABELS,
+  HOOK_TIMELINE_EVENT_TYPES,
+  HOOK_TIMELINE_SECONDS,
+  HookTimelineEvent,
+  HookTimelineEventType,
+} from "@/lib/hook-timeline";
+import { ListVideo } from "lucide-react";
+
+const EVENT_COLORS: Record<HookTimelineEventType, string> = {
+  speech: "bg-blue-500",
+  text_overlay: "bg-amber-500",
+  cut: "bg-red-500",
+  camera_move: "bg-purple-500",
+  reveal: "bg-green-500",
+};
+
+interface HookTimelineProps {
+  events: HookTimelineEvent[];
+}
+
+function formatRange(event: HookTimelineEvent): string {
+  return event.end > event.start ? `${event.start.toFixed(1)}–${event.end.toFixed(1)}s` : `${event.start.toFixed(1)}s`;
+}
+
+export function HookTimeline({ events }: HookTimelineProps) {
+  const [selected, setSelected] = useState<HookTimelineEvent | null>(null);
+
+  if (events.length === 0) return null;
+
+  // At least the hook, extended to whole seconds if the model described events past it
+  const duration = Math.ceil(Math.max(HOOK_TIMELINE_SECONDS, ...events.map(event => event.end)));
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+  const rows = HOOK_TIMELINE_EVENT_TYPES.filter(type => events.some(event => event.type === type));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListVideo className="h-5 w-5" />
+          Hook Timeline
+        </CardTitle>
+        <CardDescription>
+          What happens in the hook, second by second. Select an event to find it in the list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {rows.map((type) => (
+            <div key={type} className="flex items-center gap-3">
+              <span className="w-28 shrink-0 text-sm text-muted-foreground">{HOOK_TIMELINE_EVENT_LABELS[type]}</span>
+              <div className="relative h-6 flex-1 rounded bg-muted">
+                {events.filter(event => event.type === type).map((event, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    title={`${formatRange(event)} · ${event.description}`}
+                    onClick={() => setSelected(selected === event ? null : event)}
+                    className={`absolute top-0 h-full min-w-[3px] rounded-sm ${EVENT_COLORS[type]} ${
+                      selected === event ? "ring-2 ring-offset-1 ring-foreground" : "opacity-80 hover:opacity-100"
+                    }`}
+                    style={{ left: percent(event.start), width: percent(event.end - event.start) }}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {/* Time axis, one tick per second */}
+          <div className="flex items-center gap-3">
+            <span className="w-28 shrink-0" />
+            <div className="relative h-4 flex-1 text-xs text-muted-foreground">
+              {Array.from({ length: duration + 1 }, (_, second) => (
+                <span
+                  key={second}
+                  className="absolute -translate-x-1/2"
+                  style={{ left: percent(second) }}
+                >
+                  {second}s
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <ul className="space-y-1 text-sm">
+          {events.map((event, index) => (
+            <li
+              key={index}
+              onClick={() => setSelected(selected === event ? null : event)}
+              className={`flex cursor-pointer items-start gap-2 rounded px-2 py-1 ${selected === event ? "bg-muted" : "hover:bg-muted/50"}`}
+            >
+              <Badge variant="outline" className="w-24 shrink-0 justify-center font-mono">{formatRange(event)}</Badge>
+              <span className="font-medium whitespace-nowrap">{HOOK_TIMELINE_EVENT_LABELS[event.type]}</span>
+              {event.description && <span className="text-muted-foreground">{event.description}</span>}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/utils/trpc";
+import { useState } from "react";
+import { toast } from "@/lib/utils";
+import { MAX_IMPORT_URLS, isTikTokVideoUrl, parseTikTokUrls } from "@/lib/tiktok-urls";
+import { Link2 } from "lucide-react";
+
+export function ImportVideosDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+
+  const utils = trpc.useUtils();
+
+  const urls = parseTikTokUrls(text);
+  const invalidUrls = urls.filter(url => !isTikTokVideoUrl(url));
+  const tooMany = urls.length > MAX_IMPORT_URLS;
+  const canImport = urls.length > 0 && invalidUrls.length === 0 && !tooMany;
+
+  const importVideos = trpc.tiktok.importVideoUrls.useMutation({
+    onSuccess: (result) => {
+      utils.tiktok.getSearchTerms.invalidate();
+      utils.tiktok.getVideos.invalidate();
+      setText("");
+      setIsOpen(false);
+      toast.success(`Importing ${result.urlsQueued} video${result.urlsQueued === 1 ? "" : "s"}. They will appear under "Manual imports" once downloaded.`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to import videos");
+    },
+  });
+
+  const handleImport = () => {
+    if (!canImport) return;
+    importVideos.mutate({ urls });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Link2 className="mr-2 h-4 w-4" />
+          Import URLs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import TikTok Videos</DialogTitle>
+          <DialogDescription>
+            Paste up to {MAX_IMPORT_URLS} TikTok video links, one per line. Each video is downloaded and its hook analyzed like videos from your search terms.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="import-urls">Video URLs</Label>
+          <Textarea
+            id="import-urls"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"https://www.tiktok.com/@creator/video/7300000000000000000\nhttps://vm.tiktok.com/ZMabc123/"}
+            rows={6}
+          />
+          {invalidUrls.length > 0 && (
+            <p className="text-sm text-destructive">
+              Not TikTok video links: {invalidUrls.join(", ")}
+            </p>
+          )}
+          {tooMany && (
+            <p className="text-sm text-destructive">
+              {urls.length} links pasted; at most {MAX_IMPORT_URLS} can be imported at once.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!canImport || importVideos.isLoading}>
+            {importVideos.isLoading
+              ? "Importing..."
+              : `Import ${urls.length || ""} Video${urls.length === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
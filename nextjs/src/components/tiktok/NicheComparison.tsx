@@ -0,0 +1,142 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Database } from "@shared-types/database.types";
+import { METRICS_MODES, MetricsMode } from "@/lib/video-metrics";
+import { NicheComparison } from "@/server/services/clustering";
+import { CRITERION_FEATURE_PREFIX } from "@/lib/clustering/feature-extractor";
+
+type SearchTerm = Database['public']['Tables']['search_terms']['Row'];
+
+// "hookTypeQuestion" -> "Hook type question"; rubric criteria keep the name they were given
+export function formatFeatureName(feature: string): string {
+  if (feature.startsWith(CRITERION_FEATURE_PREFIX)) return feature.slice(CRITERION_FEATURE_PREFIX.length);
+  const words = feature.replace(/([A-Z])/g, " $1").toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+interface NicheSelectorsProps {
+  searchTerms: SearchTerm[];
+  nicheId: string;
+  onNicheChange: (nicheId: string) => void;
+  metricsMode: MetricsMode;
+  onMetricsModeChange: (mode: MetricsMode) => void;
+}
+
+export function NicheSelectors({ searchTerms, nicheId, onNicheChange, metricsMode, onMetricsModeChange }: NicheSelectorsProps) {
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <Select value={nicheId} onValueChange={onNicheChange}>
+        <SelectTrigger className="sm:flex-1">
+          <SelectValue placeholder="All search terms" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All search terms</SelectItem>
+          {searchTerms.map((term) => (
+            <SelectItem key={term.id} value={term.id}>{term.term}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={metricsMode} onValueChange={(mode) => onMetricsModeChange(mode as MetricsMode)}>
+        <SelectTrigger className="sm:w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {METRICS_MODES.map((mode) => (
+            <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface NicheComparisonDetailsProps {
+  comparison: NicheComparison;
+  metricsMode: MetricsMode;
+  subjectLabel: string; // e.g. "your draft"
+}
+
+export function NicheComparisonDetails({ comparison, metricsMode, subjectLabel }: NicheComparisonDetailsProps) {
+  const viewsUnit = metricsMode === "velocity" ? "/hr" : "";
+
+  return (
+    <>
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="font-medium">Nearest cluster ({comparison.nearestCluster.size} videos)</p>
+          <span className="text-sm text-muted-foreground">
+            distance {comparison.distanceToCluster.toFixed(2)}
+          </span>
+        </div>
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Avg hook score</p>
+            <p className="font-semibold">{comparison.nearestCluster.avgHookScore.toFixed(0)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Avg views{viewsUnit}</p>
+            <p className="font-semibold">{Math.round(comparison.nearestCluster.avgViewCount).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Engagement</p>
+            <p className="font-semibold">{comparison.nearestCluster.avgEngagementRate.toFixed(1)}%</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {comparison.nearestCluster.topHookTypes.map((hookType) => (
+            <Badge key={hookType.type} variant="outline" className="capitalize">
+              {hookType.type} ({hookType.percentage.toFixed(0)}%)
+            </Badge>
+          ))}
+        </div>
+        {comparison.nearestCluster.representativeHooks[0] && (
+          <p className="text-sm text-muted-foreground italic">
+            e.g. "{comparison.nearestCluster.representativeHooks[0].text}"
+          </p>
+        )}
+      </div>
+
+      {comparison.topTierDifferences ? (
+        <div className="space-y-3">
+          <p className="font-medium">Biggest differences from top performers</p>
+          {comparison.topTierDifferences.slice(0, 8).map((diff) => (
+            <div key={diff.feature} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span>{formatFeatureName(diff.feature)}</span>
+                <span className={diff.difference >= 0 ? "text-green-600" : "text-red-600"}>
+                  {diff.difference >= 0 ? "+" : ""}{(diff.difference * 100).toFixed(0)}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Progress value={diff.value * 100} className="h-2" />
+                <Progress value={diff.topTierValue * 100} className="h-2 opacity-60" />
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Left bar: {subjectLabel}. Right bar: average of the top performers. Differences are in points out of 100.
+          </p>
+
+          {comparison.topTierExamples.length > 0 && (
+            <div className="space-y-2">
+              <p className="font-medium">What top performers open with</p>
+              {comparison.topTierExamples.map((example, idx) => (
+                <div key={idx} className="rounded-md bg-muted p-3 text-sm">
+                  <p className="italic">"{example.text}"</p>
+                  <p className="text-xs text-muted-foreground">
+                    Score {example.score} · {Math.round(example.views).toLocaleString()} views{viewsUnit}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Not enough analyzed videos in this niche to identify top performers (minimum 10).
+        </p>
+      )}
+    </>
+  );
+}
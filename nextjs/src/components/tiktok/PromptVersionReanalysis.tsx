@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { toast } from "@/lib/utils";
+import { MAX_REANALYSIS_VIDEOS } from "@/lib/analysis-versions";
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+
+interface PromptVersionReanalysisProps {
+  searchTermId?: string;
+}
+
+export function PromptVersionReanalysis({ searchTermId }: PromptVersionReanalysisProps) {
+  const { data: versions } = trpc.tiktok.getPromptVersions.useQuery();
+  const [selectedVersion, setSelectedVersion] = useState<string>("");
+
+  const reanalyze = trpc.tiktok.reanalyzeVideos.useMutation({
+    onSuccess: (result) => {
+      if (result.queued === 0) {
+        toast.success("Nothing left to re-analyze with this version");
+        return;
+      }
+      toast.success(
+        `Re-analysis queued for ${result.queued} videos` +
+          (result.remaining > 0 ? `. Run it again to queue the next ${Math.min(result.remaining, MAX_REANALYSIS_VIDEOS)}` : "")
+      );
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to queue re-analysis");
+    },
+  });
+
+  // Nothing to compare until a second version exists
+  if (!versions || versions.length < 2) return null;
+
+  const version = versions.find((v) => String(v.version) === selectedVersion);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Re-analyze with Prompt Version
+        </CardTitle>
+        <CardDescription>
+          Analyze the {searchTermId ? "selected search term's" : "analyzed"} videos again with another prompt
+          version (up to {MAX_REANALYSIS_VIDEOS} at a time; run it again for the next batch) and compare the results on each video's detail page.
+          Clustering and trends keep using the active version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Select value={selectedVersion} onValueChange={setSelectedVersion}>
+            <SelectTrigger className="sm:w-72">
+              <SelectValue placeholder="Choose a prompt version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((v) => (
+                <SelectItem key={v.version} value={String(v.version)}>
+                  <div className="flex items-center gap-2">
+                    <span>v{v.version}{v.description ? ` · ${v.description}` : ""}</span>
+                    {v.is_active && <Badge className="text-xs">Active</Badge>}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => version && reanalyze.mutate({ promptVersion: version.version, searchTermId })}
+            disabled={!version || reanalyze.isLoading}
+          >
+            {reanalyze.isLoading ? "Queueing..." : "Re-analyze"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
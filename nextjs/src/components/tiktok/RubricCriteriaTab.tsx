@@ -0,0 +1,242 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/utils/trpc";
+import { useState } from "react";
+import { toast } from "@/lib/utils";
+import { MAX_RUBRIC_CRITERIA, MAX_RUBRIC_SCALE, rubricCriterionInputSchema } from "@/lib/rubric-criteria";
+import { Database } from "@shared-types/database.types";
+import { ListChecks, Pencil, Trash2 } from "lucide-react";
+
+type RubricCriterionRow = Database["public"]["Tables"]["rubric_criteria"]["Row"];
+type SearchTerm = Database["public"]["Tables"]["search_terms"]["Row"];
+
+// Select value for criteria that apply to every search term
+const ALL_TERMS = "all";
+
+const EMPTY_FORM = { name: "", description: "", scaleMin: 1, scaleMax: 10, scope: ALL_TERMS };
+
+export function RubricCriteriaTab() {
+  const utils = trpc.useUtils();
+  const { data: criteria, isLoading } = trpc.tiktok.getRubricCriteria.useQuery();
+  const { data: searchTerms } = trpc.tiktok.getSearchTerms.useQuery();
+  const terms = (searchTerms || []) as SearchTerm[];
+
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const onSaved = (message: string) => {
+    utils.tiktok.getRubricCriteria.invalidate();
+    resetForm();
+    toast.success(message);
+  };
+
+  const createCriterion = trpc.tiktok.createRubricCriterion.useMutation({
+    onSuccess: () => onSaved("Criterion added. It applies to videos analyzed from now on."),
+    onError: (error) => toast.error(error.message || "Failed to add criterion"),
+  });
+
+  const updateCriterion = trpc.tiktok.updateRubricCriterion.useMutation({
+    onSuccess: () => onSaved("Criterion updated. Past analyses keep the version they were scored with."),
+    onError: (error) => toast.error(error.message || "Failed to update criterion"),
+  });
+
+  const deleteCriterion = trpc.tiktok.deleteRubricCriterion.useMutation({
+    onSuccess: () => {
+      utils.tiktok.getRubricCriteria.invalidate();
+      toast.success("Criterion deleted");
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete criterion"),
+  });
+
+  const parsed = rubricCriterionInputSchema.safeParse({
+    name: form.name,
+    description: form.description,
+    scaleMin: form.scaleMin,
+    scaleMax: form.scaleMax,
+    searchTermId: form.scope === ALL_TERMS ? null : form.scope,
+  });
+
+  const handleSave = () => {
+    if (!parsed.success) return;
+    if (editingId) {
+      updateCriterion.mutate({ id: editingId, criterion: parsed.data });
+    } else {
+      createCriterion.mutate(parsed.data);
+    }
+  };
+
+  const handleEdit = (criterion: RubricCriterionRow) => {
+    setEditingId(criterion.id);
+    setForm({
+      name: criterion.name,
+      description: criterion.description,
+      scaleMin: criterion.scale_min,
+      scaleMax: criterion.scale_max,
+      scope: criterion.search_term_id || ALL_TERMS,
+    });
+  };
+
+  const termName = (searchTermId: string | null) =>
+    searchTermId ? terms.find((term) => term.id === searchTermId)?.term || "Unknown search term" : "All search terms";
+
+  const atLimit = !editingId && (criteria?.length || 0) >= MAX_RUBRIC_CRITERIA;
+  const saving = createCriterion.isLoading || updateCriterion.isLoading;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            {editingId ? "Edit Criterion" : "Add Criterion"}
+          </CardTitle>
+          <CardDescription>
+            Criteria your niche cares about that the standard analysis doesn't ask for, such as "credible number in
+            the first line". Each one is scored on its own scale, shown on the video's analysis and used as an extra
+            dimension when clustering. Up to {MAX_RUBRIC_CRITERIA} per workspace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="criterion-name">Name</Label>
+              <Input
+                id="criterion-name"
+                placeholder="Demonstrates the transformation in the first 2s"
+                maxLength={80}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select value={form.scope} onValueChange={(scope) => setForm({ ...form, scope })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TERMS}>All search terms</SelectItem>
+                  {terms.map((term) => (
+                    <SelectItem key={term.id} value={term.id}>
+                      {term.term}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="criterion-description">What the model should look for</Label>
+            <Textarea
+              id="criterion-description"
+              placeholder="The before/after result is visible before the two-second mark"
+              maxLength={500}
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-4 grid-cols-2 md:w-1/2">
+            <div className="space-y-2">
+              <Label htmlFor="criterion-scale-min">Lowest score</Label>
+              <Input
+                id="criterion-scale-min"
+                type="number"
+                min={0}
+                max={MAX_RUBRIC_SCALE}
+                value={form.scaleMin}
+                onChange={(e) => setForm({ ...form, scaleMin: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="criterion-scale-max">Highest score</Label>
+              <Input
+                id="criterion-scale-max"
+                type="number"
+                min={1}
+                max={MAX_RUBRIC_SCALE}
+                value={form.scaleMax}
+                onChange={(e) => setForm({ ...form, scaleMax: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!parsed.success || atLimit || saving}>
+              {saving ? "Saving..." : editingId ? "Save" : "Add Criterion"}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rubric</CardTitle>
+          <CardDescription>
+            Changes apply to videos analyzed from now on; re-analyze a search term to score its existing videos.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-muted-foreground">Loading criteria...</div>
+          ) : !criteria || criteria.length === 0 ? (
+            <div className="text-muted-foreground">No custom criteria yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Criterion</TableHead>
+                  <TableHead>Scale</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {criteria.map((criterion) => (
+                  <TableRow key={criterion.id}>
+                    <TableCell>
+                      <p className="font-medium">{criterion.name}</p>
+                      {criterion.description && (
+                        <p className="text-sm text-muted-foreground">{criterion.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{criterion.scale_min}–{criterion.scale_max}</TableCell>
+                    <TableCell>{termName(criterion.search_term_id)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(criterion)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteCriterion.mutate({ id: criterion.id })}
+                          disabled={deleteCriterion.isLoading}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,18 +7,211 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/utils/trpc";
 import { useState } from "react";
 import { toast } from "@/lib/utils";
-import { Plus, MoreHorizontal, Search, Archive, ArchiveRestore, Trash2, RotateCcw, AlertTriangle } from "lucide-react";
+import {
+  CRAWL_SCHEDULES,
+  CrawlSchedule,
+  DEFAULT_SEARCH_OPTIONS,
+  MAX_SEARCH_PAGES,
+  MAX_TARGET_VIDEO_COUNT,
+  PUBLISH_TIME_WINDOWS,
+  SEARCH_REGIONS,
+  SORT_TYPES,
+  SearchOptions,
+  searchOptionsFromRow,
+} from "@/lib/tiktok-search-options";
+import { Plus, MoreHorizontal, Search, Archive, ArchiveRestore, Trash2, RotateCcw, AlertTriangle, Settings2, History } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { Database } from "@shared-types/database.types";
 
 type SearchTerm = Database['public']['Tables']['search_terms']['Row'];
 
+function describeSearchOptions(options: SearchOptions): string {
+  const publishWindow = PUBLISH_TIME_WINDOWS.find(w => w.value === options.publishTime)?.label ?? "All time";
+  const sortOrder = SORT_TYPES.find(s => s.value === options.sortType)?.label ?? "Relevance";
+  return `${options.region.toUpperCase()} · ${publishWindow} · ${sortOrder} · ${options.targetVideoCount} videos / ${options.maxPages} pages`;
+}
+
+interface SearchOptionsFieldsProps {
+  value: SearchOptions;
+  onChange: (value: SearchOptions) => void;
+}
+
+function SearchOptionsFields({ value, onChange }: SearchOptionsFieldsProps) {
+  const clamp = (raw: string, max: number) => Math.min(Math.max(parseInt(raw, 10) || 1, 1), max);
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Region</Label>
+        <Select
+          value={value.region}
+          onValueChange={(region) => onChange({ ...value, region: region as SearchOptions["region"] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SEARCH_REGIONS.map((region) => (
+              <SelectItem key={region.value} value={region.value}>
+                {region.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Published</Label>
+        <Select
+          value={String(value.publishTime)}
+          onValueChange={(publishTime) => onChange({ ...value, publishTime: Number(publishTime) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PUBLISH_TIME_WINDOWS.map((window) => (
+              <SelectItem key={window.value} value={String(window.value)}>
+                {window.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Sort By</Label>
+        <Select
+          value={String(value.sortType)}
+          onValueChange={(sortType) => onChange({ ...value, sortType: Number(sortType) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_TYPES.map((sort) => (
+              <SelectItem key={sort.value} value={String(sort.value)}>
+                {sort.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="max-pages">Max Pages</Label>
+          <Input
+            id="max-pages"
+            type="number"
+            min={1}
+            max={MAX_SEARCH_PAGES}
+            value={value.maxPages}
+            onChange={(e) => onChange({ ...value, maxPages: clamp(e.target.value, MAX_SEARCH_PAGES) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="target-videos">Target Videos</Label>
+          <Input
+            id="target-videos"
+            type="number"
+            min={1}
+            max={MAX_TARGET_VIDEO_COUNT}
+            value={value.targetVideoCount}
+            onChange={(e) => onChange({ ...value, targetVideoCount: clamp(e.target.value, MAX_TARGET_VIDEO_COUNT) })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CrawlScheduleFieldProps {
+  value: CrawlSchedule;
+  onChange: (value: CrawlSchedule) => void;
+}
+
+function CrawlScheduleField({ value, onChange }: CrawlScheduleFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Re-crawl Schedule</Label>
+      <Select value={value} onValueChange={(schedule) => onChange(schedule as CrawlSchedule)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CRAWL_SCHEDULES.map((schedule) => (
+            <SelectItem key={schedule.value} value={schedule.value}>
+              {schedule.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Scheduled re-crawls only download videos that weren&apos;t found in earlier runs.
+      </p>
+    </div>
+  );
+}
+
+function SearchRunHistory({ searchTermId }: { searchTermId: string }) {
+  const { data: runs, isLoading } = trpc.tiktok.getSearchRuns.useQuery({ searchTermId });
+
+  if (isLoading) {
+    return <div className="py-6 text-center text-muted-foreground">Loading run history...</div>;
+  }
+
+  if (!runs || runs.length === 0) {
+    return <div className="py-6 text-center text-muted-foreground">No search runs recorded yet</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Started</TableHead>
+          <TableHead>Trigger</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Found</TableHead>
+          <TableHead className="text-right">New</TableHead>
+          <TableHead className="text-right">Queued</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {runs.map((run) => (
+          <TableRow key={run.id}>
+            <TableCell>
+              {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+            </TableCell>
+            <TableCell className="capitalize">{run.trigger}</TableCell>
+            <TableCell>
+              <Badge
+                variant={run.status === "failed" ? "destructive" : run.status === "completed" ? "default" : "secondary"}
+                title={run.error || undefined}
+              >
+                {run.status}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right">{run.videos_found}</TableCell>
+            <TableCell className="text-right">{run.new_videos}</TableCell>
+            <TableCell className="text-right">{run.videos_queued}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
 export function SearchTermsTab() {
   const [newTerm, setNewTerm] = useState("");
+  const [newSearchOptions, setNewSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [newCrawlSchedule, setNewCrawlSchedule] = useState<CrawlSchedule>("off");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [termToEdit, setTermToEdit] = useState<SearchTerm | null>(null);
+  const [editSearchOptions, setEditSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [editCrawlSchedule, setEditCrawlSchedule] = useState<CrawlSchedule>("off");
+  const [termForHistory, setTermForHistory] = useState<SearchTerm | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [termToDelete, setTermToDelete] = useState<SearchTerm | null>(null);
   const [deleteConfirmation, setDeleteConfirmation] = useState("");
@@ -40,6 +233,8 @@ export function SearchTermsTab() {
       utils.tiktok.getSearchTerms.invalidate();
       utils.tiktok.getStatistics.invalidate();
       setNewTerm("");
+      setNewSearchOptions(DEFAULT_SEARCH_OPTIONS);
+      setNewCrawlSchedule("off");
       setIsDialogOpen(false);
       toast.success("Search term created and video search started!");
     },
@@ -48,6 +243,17 @@ export function SearchTermsTab() {
     },
   });
 
+  const updateTerm = trpc.tiktok.updateSearchTerm.useMutation({
+    onSuccess: () => {
+      utils.tiktok.getSearchTerms.invalidate();
+      setTermToEdit(null);
+      toast.success("Search settings updated. They apply to the next search run.");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update search settings");
+    },
+  });
+
   const deleteTerm = trpc.tiktok.deleteSearchTerm.useMutation({
     onSuccess: () => {
       utils.tiktok.getSearchTerms.invalidate();
@@ -88,6 +294,8 @@ export function SearchTermsTab() {
 
   const retrySearch = trpc.tiktok.retryVideoSearch.useMutation({
     onSuccess: () => {
+      utils.tiktok.getSearchTerms.invalidate();
+      utils.tiktok.getSearchRuns.invalidate();
       toast.success("Video search restarted!");
     },
     onError: (error) => {
@@ -97,7 +305,19 @@ export function SearchTermsTab() {
 
   const handleCreateTerm = () => {
     if (!newTerm.trim()) return;
-    createTerm.mutate({ term: newTerm.trim() });
+    createTerm.mutate({ term: newTerm.trim(), crawlSchedule: newCrawlSchedule, ...newSearchOptions });
+  };
+
+  const handleEditTerm = (term: SearchTerm) => {
+    setTermToEdit(term);
+    setEditSearchOptions(searchOptionsFromRow(term));
+    setEditCrawlSchedule(term.crawl_schedule as CrawlSchedule);
+  };
+
+  const confirmEdit = () => {
+    if (termToEdit) {
+      updateTerm.mutate({ id: termToEdit.id, crawlSchedule: editCrawlSchedule, ...editSearchOptions });
+    }
   };
 
   const handleDeleteTerm = (term: SearchTerm) => {
@@ -146,7 +366,7 @@ export function SearchTermsTab() {
           <div>
             <CardTitle>Search Terms</CardTitle>
             <CardDescription>
-              Manage your TikTok search terms. Each term will automatically search for and analyze ~100 videos.
+              Manage your TikTok search terms. Each term searches TikTok with its own region, publish window and video budget.
             </CardDescription>
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -160,7 +380,7 @@ export function SearchTermsTab() {
               <DialogHeader>
                 <DialogTitle>Add New Search Term</DialogTitle>
                 <DialogDescription>
-                  Enter a keyword or phrase to search TikTok videos. The system will find ~100 relevant videos and analyze their hooks.
+                  Enter a keyword or phrase to search TikTok videos. The system will find relevant videos for the selected market and analyze their hooks.
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
@@ -178,6 +398,8 @@ export function SearchTermsTab() {
                     }}
                   />
                 </div>
+                <SearchOptionsFields value={newSearchOptions} onChange={setNewSearchOptions} />
+                <CrawlScheduleField value={newCrawlSchedule} onChange={setNewCrawlSchedule} />
               </div>
               <DialogFooter>
                 <Button
@@ -214,6 +436,9 @@ export function SearchTermsTab() {
               <TableRow>
                 <TableHead>Term</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Search Settings</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Last Crawled</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead>Last Updated</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
@@ -228,6 +453,23 @@ export function SearchTermsTab() {
                       {term.status}
                     </Badge>
                   </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {term.kind === "search"
+                      ? describeSearchOptions(searchOptionsFromRow(term))
+                      : term.kind === "drafts"
+                        ? "Your uploaded drafts"
+                        : "Videos imported by URL"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">
+                      {term.crawl_schedule}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {term.last_crawled_at
+                      ? formatDistanceToNow(new Date(term.last_crawled_at), { addSuffix: true })
+                      : "Never"}
+                  </TableCell>
                   <TableCell>
                     {formatDistanceToNow(new Date(term.created_at), { addSuffix: true })}
                   </TableCell>
@@ -242,13 +484,25 @@ export function SearchTermsTab() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem
-                          onClick={() => handleRetrySearch(term.id)}
-                          disabled={retrySearch.isLoading}
-                        >
-                          <RotateCcw className="mr-2 h-4 w-4" />
-                          Retry Search
-                        </DropdownMenuItem>
+                        {term.kind === "search" && (
+                          <>
+                            <DropdownMenuItem
+                              onClick={() => handleRetrySearch(term.id)}
+                              disabled={retrySearch.isLoading}
+                            >
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                              Retry Search
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleEditTerm(term)}>
+                              <Settings2 className="mr-2 h-4 w-4" />
+                              Edit Search Settings
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setTermForHistory(term)}>
+                              <History className="mr-2 h-4 w-4" />
+                              Run History
+                            </DropdownMenuItem>
+                          </>
+                        )}
                         {term.status === "active" ? (
                           <DropdownMenuItem
                             onClick={() => handleArchiveTerm(term.id)}
@@ -284,6 +538,43 @@ export function SearchTermsTab() {
         )}
       </CardContent>
 
+      {/* Edit Search Settings Dialog */}
+      <Dialog open={!!termToEdit} onOpenChange={(open) => !open && setTermToEdit(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Search Settings</DialogTitle>
+            <DialogDescription>
+              {termToEdit ? `Configure how TikTok is searched for "${termToEdit.term}".` : null}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <SearchOptionsFields value={editSearchOptions} onChange={setEditSearchOptions} />
+            <CrawlScheduleField value={editCrawlSchedule} onChange={setEditCrawlSchedule} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTermToEdit(null)} disabled={updateTerm.isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={confirmEdit} disabled={updateTerm.isLoading}>
+              {updateTerm.isLoading ? "Saving..." : "Save Settings"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run History Dialog */}
+      <Dialog open={!!termForHistory} onOpenChange={(open) => !open && setTermForHistory(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Run History</DialogTitle>
+            <DialogDescription>
+              {termForHistory ? `Recent searches for "${termForHistory.term}".` : null}
+            </DialogDescription>
+          </DialogHeader>
+          {termForHistory && <SearchRunHistory searchTermId={termForHistory.id} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -304,7 +595,7 @@ export function SearchTermsTab() {
                 <AlertDescription>
                   <strong>Warning:</strong> Deleting "{termToDelete.term}" will also delete:
                   <ul className="list-disc list-inside mt-2 space-y-1">
-                    <li><strong>{videosToDelete?.length || 0}</strong> videos</li>
+                    <li>Up to <strong>{videosToDelete?.length || 0}</strong> videos (videos also found by other search terms are kept)</li>
                     <li>All associated hook analyses</li>
                     <li>All engagement data</li>
                   </ul>
@@ -0,0 +1,155 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { useEffect, useState } from "react";
+import { toast } from "@/lib/utils";
+import {
+  MAX_MEDIA_RETENTION_DAYS,
+  MEDIA_RETENTION_POLICIES,
+  MediaRetention,
+  MediaRetentionPolicy,
+} from "@/lib/media-retention";
+import { Film, HardDrive, Trash2 } from "lucide-react";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+export function StorageSettingsTab() {
+  const utils = trpc.useUtils();
+  const { data: usage, isLoading: usageLoading } = trpc.tiktok.getStorageUsage.useQuery();
+  const { data: settings } = trpc.tiktok.getStorageSettings.useQuery();
+
+  const [policy, setPolicy] = useState<MediaRetentionPolicy>("forever");
+  const [days, setDays] = useState(DEFAULT_RETENTION_DAYS);
+
+  useEffect(() => {
+    if (!settings) return;
+    setPolicy(settings.retention.policy);
+    if (settings.retention.policy === "days_after_analysis") setDays(settings.retention.days);
+  }, [settings]);
+
+  const updateSettings = trpc.tiktok.updateStorageSettings.useMutation({
+    onSuccess: () => {
+      utils.tiktok.getStorageSettings.invalidate();
+      toast.success("Retention updated. Expired media is removed within the hour.");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update retention");
+    },
+  });
+
+  const daysValid = Number.isInteger(days) && days >= 1 && days <= MAX_MEDIA_RETENTION_DAYS;
+
+  const handleSave = () => {
+    const retention: MediaRetention = policy === "days_after_analysis"
+      ? { policy, days }
+      : { policy };
+    updateSettings.mutate({ retention });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stored Videos</CardTitle>
+            <HardDrive className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {usageLoading ? "..." : formatBytes(usage?.storedBytes || 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {usageLoading ? "..." : usage?.storedVideos || 0} videos
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Filmstrips</CardTitle>
+            <Film className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {usageLoading ? "..." : usage?.filmstrips || 0}
+            </div>
+            <p className="text-xs text-muted-foreground">hook stills kept for analysis</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Reclaimed</CardTitle>
+            <Trash2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {usageLoading ? "..." : formatBytes(usage?.reclaimedBytes || 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {usageLoading ? "..." : usage?.deletedVideos || 0} videos deleted by retention
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Media Retention</CardTitle>
+          <CardDescription>
+            What happens to downloaded videos once their hook has been analyzed. Analyses and
+            metrics are always kept. A video shared with another workspace stays until both allow it to go.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Policy</Label>
+              <Select value={policy} onValueChange={(value) => setPolicy(value as MediaRetentionPolicy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEDIA_RETENTION_POLICIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {policy === "days_after_analysis" && (
+              <div className="space-y-2">
+                <Label htmlFor="retention-days">Days after analysis</Label>
+                <Input
+                  id="retention-days"
+                  type="number"
+                  min={1}
+                  max={MAX_MEDIA_RETENTION_DAYS}
+                  value={days}
+                  onChange={(e) => setDays(Number(e.target.value))}
+                />
+              </div>
+            )}
+          </div>
+          <Button
+            onClick={handleSave}
+            disabled={updateSettings.isLoading || (policy === "days_after_analysis" && !daysValid)}
+          >
+            {updateSettings.isLoading ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { trpc } from "@/utils/trpc";
 import { useState, useEffect } from "react";
 import { toast } from "@/lib/utils";
@@ -17,15 +19,28 @@ import {
   Clock,
   User,
   RotateCcw,
-  Brain
+  Brain,
+  TrendingUp,
+  Copy,
+  AlertCircle
 } from "lucide-react";
 import { formatDistanceToNow, formatDuration } from "date-fns";
 import Link from "next/link";
 import { Database } from "@shared-types/database.types";
+import { VideoMetrics } from "@/lib/video-metrics";
+import { MirroredImage, mirroredImageUrl } from "@/lib/mirrored-images";
+import { DOWNLOAD_FAILURE_LABELS, DownloadFailureReason, isRetryableDownloadFailure } from "@/lib/download-failures";
 
 type TikTokVideo = Database['public']['Tables']['tiktok_videos']['Row'] & {
-  search_terms: Database['public']['Tables']['search_terms']['Row'];
+  search_term_videos: {
+    search_term_id: string;
+    rank_position: number | null;
+    search_terms: Database['public']['Tables']['search_terms']['Row'];
+  }[];
   hook_analysis: Database['public']['Tables']['hook_analysis']['Row'][];
+  // The viewer's own link, if the video reposts an earlier one of theirs
+  video_duplicates: { duplicate_of: string }[];
+  metrics: VideoMetrics;
 };
 
 interface VideoGalleryProps {
@@ -36,6 +51,7 @@ interface VideoGalleryProps {
 export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
   const [allLoadedVideos, setAllLoadedVideos] = useState<TikTokVideo[]>([]);
   const [offset, setOffset] = useState(0);
+  const [collapseDuplicates, setCollapseDuplicates] = useState(false);
   const pageSize = 12;
 
   const utils = trpc.useUtils();
@@ -44,13 +60,15 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
   useEffect(() => {
     setOffset(0);
     setAllLoadedVideos([]);
-  }, [searchTermId]);
+  }, [searchTermId, collapseDuplicates]);
 
   // Fetch videos with pagination
   const { data: videos, isLoading, isFetching } = trpc.tiktok.getVideos.useQuery({
     searchTermId,
     limit: pageSize,
     offset: offset,
+    metricsMode: "latest",
+    collapseDuplicates,
   });
 
   // Accumulate videos when new data arrives
@@ -86,6 +104,15 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
     },
   });
 
+  const retryDownload = trpc.tiktok.retryVideoDownload.useMutation({
+    onSuccess: () => {
+      toast.success("Download restarted!");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to restart download");
+    },
+  });
+
   // Filter videos by search query
   const filteredVideos = searchQuery
     ? allLoadedVideos.filter(video =>
@@ -109,6 +136,25 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
     retryAnalysis.mutate({ videoId });
   };
 
+  // Stored videos are private; open the tab right away so it isn't blocked as a
+  // popup, then point it at a freshly signed playback URL
+  const handleWatchVideo = async (videoId: string) => {
+    const player = window.open("", "_blank");
+    if (player) player.opener = null;
+    try {
+      const video = await utils.tiktok.getVideoById.fetch({ id: videoId });
+      if (!video.playback_url) throw new Error("This video has no stored copy");
+      if (player) player.location.href = video.playback_url;
+      else window.open(video.playback_url, "_blank", "noopener,noreferrer");
+    } catch (error) {
+      player?.close();
+      toast.error(error instanceof Error ? error.message : "Failed to open video");
+    }
+  };
+
+  const thumbnailUrl = (video: TikTokVideo) =>
+    mirroredImageUrl(video.thumbnail_mirror as unknown as MirroredImage | null, "card", video.thumbnail_url);
+
   // Video Card Skeleton Component
   const VideoCardSkeleton = () => (
     <Card className="overflow-hidden">
@@ -183,11 +229,21 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
   return (
     <div className="space-y-6">
       <Card>
-        <CardHeader>
-          <CardTitle>Videos ({filteredVideos.length})</CardTitle>
-          <CardDescription>
-            Downloaded TikTok videos from your search terms
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Videos ({filteredVideos.length})</CardTitle>
+            <CardDescription>
+              Downloaded TikTok videos from your search terms
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="collapse-duplicates"
+              checked={collapseDuplicates}
+              onCheckedChange={setCollapseDuplicates}
+            />
+            <Label htmlFor="collapse-duplicates" className="text-sm">Collapse duplicates</Label>
+          </div>
         </CardHeader>
       </Card>
 
@@ -196,9 +252,9 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
         {filteredVideos.map((video: TikTokVideo) => (
           <Card key={video.id} className="overflow-hidden">
             <div className="aspect-video bg-muted relative">
-              {video.thumbnail_url ? (
+              {thumbnailUrl(video) ? (
                 <img
-                  src={video.thumbnail_url}
+                  src={thumbnailUrl(video)!}
                   alt={video.title || "TikTok video"}
                   className="w-full h-full object-cover"
                   loading="lazy"
@@ -225,16 +281,26 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
                     <Brain className="mr-1 h-3 w-3" />
                     Analyzed
                   </Badge>
-                ) : video.r2_url ? (
+                ) : video.r2_key ? (
                   <Badge variant="secondary">
                     Processing...
                   </Badge>
+                ) : video.download_failure_reason ? (
+                  <DownloadFailureBadge reason={video.download_failure_reason as DownloadFailureReason} />
                 ) : (
                   <Badge variant="outline">
                     Downloading...
                   </Badge>
                 )}
               </div>
+
+              {/* Repost of an earlier video */}
+              {video.video_duplicates?.length > 0 && (
+                <Badge variant="secondary" className="absolute top-2 right-2">
+                  <Copy className="mr-1 h-3 w-3" />
+                  Repost
+                </Badge>
+              )}
             </div>
 
             <CardContent className="p-4">
@@ -246,39 +312,62 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
 
                 {/* Creator */}
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <User className="h-4 w-4" />
+                  {video.creator_avatar_mirror ? (
+                    <img
+                      src={mirroredImageUrl(video.creator_avatar_mirror as unknown as MirroredImage, "card")!}
+                      alt=""
+                      className="h-4 w-4 rounded-full object-cover"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <User className="h-4 w-4" />
+                  )}
                   <span className="truncate">
                     {video.creator || video.creator_username || "Unknown creator"}
                   </span>
                 </div>
 
-                {/* Search term */}
-                <div className="flex items-center gap-2">
-                  <Badge variant="outline" className="text-xs">
-                    {video.search_terms.term}
-                  </Badge>
+                {/* Search terms that found this video */}
+                <div className="flex flex-wrap items-center gap-2">
+                  {video.search_term_videos.map((link) => (
+                    <Badge key={link.search_term_id} variant="outline" className="text-xs">
+                      {link.search_terms.term}
+                      {link.rank_position !== null && ` · #${link.rank_position}`}
+                    </Badge>
+                  ))}
                 </div>
 
                 {/* Stats */}
                 <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
                   <div className="flex items-center gap-1">
                     <Eye className="h-3 w-3" />
-                    {formatNumber(video.view_count || 0)}
+                    {formatNumber(video.metrics.viewCount)}
                   </div>
                   <div className="flex items-center gap-1">
                     <Heart className="h-3 w-3" />
-                    {formatNumber(video.like_count || 0)}
+                    {formatNumber(video.metrics.likeCount)}
                   </div>
                   <div className="flex items-center gap-1">
                     <Share className="h-3 w-3" />
-                    {formatNumber(video.share_count || 0)}
+                    {formatNumber(video.metrics.shareCount)}
                   </div>
                   <div className="flex items-center gap-1">
                     <MessageCircle className="h-3 w-3" />
-                    {formatNumber(video.comment_count || 0)}
+                    {formatNumber(video.metrics.commentCount)}
                   </div>
                 </div>
 
+                {/* Velocity (available once metrics have been refreshed) */}
+                {video.views_per_hour !== null && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <TrendingUp className="h-3 w-3" />
+                    <span>{formatNumber(Math.round(video.views_per_hour))} views/hr</span>
+                    {video.view_growth_24h !== null && (
+                      <span>· +{formatNumber(video.view_growth_24h)} in 24h</span>
+                    )}
+                  </div>
+                )}
+
                 {/* Actions */}
                 <div className="flex items-center justify-between pt-2">
                   <div className="flex gap-2">
@@ -308,7 +397,7 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      {video.r2_url && !video.hook_analysis?.length && (
+                      {video.r2_key && !video.hook_analysis?.length && (
                         <DropdownMenuItem
                           onClick={() => handleRetryAnalysis(video.id)}
                           disabled={retryAnalysis.isLoading}
@@ -317,12 +406,20 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
                           Retry Analysis
                         </DropdownMenuItem>
                       )}
-                      {video.r2_url && (
-                        <DropdownMenuItem asChild>
-                          <a href={video.r2_url} target="_blank" rel="noopener noreferrer">
-                            <VideoIcon className="mr-2 h-4 w-4" />
-                            Watch Video
-                          </a>
+                      {!video.r2_key && video.download_failure_reason &&
+                        isRetryableDownloadFailure(video.download_failure_reason as DownloadFailureReason) && (
+                        <DropdownMenuItem
+                          onClick={() => retryDownload.mutate({ videoId: video.id })}
+                          disabled={retryDownload.isLoading}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Retry Download
+                        </DropdownMenuItem>
+                      )}
+                      {video.r2_key && (
+                        <DropdownMenuItem onClick={() => handleWatchVideo(video.id)}>
+                          <VideoIcon className="mr-2 h-4 w-4" />
+                          Watch Video
                         </DropdownMenuItem>
                       )}
                     </DropdownMenuContent>
@@ -358,4 +455,24 @@ export function VideoGallery({ searchTermId, searchQuery }: VideoGalleryProps) {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function DownloadFailureBadge({ reason }: { reason: DownloadFailureReason }) {
+  const label = DOWNLOAD_FAILURE_LABELS[reason] ?? DOWNLOAD_FAILURE_LABELS.unknown;
+
+  if (!isRetryableDownloadFailure(reason)) {
+    return (
+      <Badge variant="destructive">
+        <AlertCircle className="mr-1 h-3 w-3" />
+        {label}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="bg-background/80">
+      <RotateCcw className="mr-1 h-3 w-3" />
+      {label} · retryable
+    </Badge>
+  );
+}
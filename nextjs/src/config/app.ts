@@ -39,6 +39,7 @@ export const appConfig = {
           { title: "Videos", url: "/dashboard/tiktok/videos", icon: "Video" },
           { title: "Hook Analysis", url: "/dashboard/tiktok/analysis", icon: "Brain" },
           { title: "Trends", url: "/dashboard/tiktok/trends", icon: "TrendingUp" },
+          { title: "Drafts", url: "/dashboard/tiktok/drafts", icon: "Upload" },
         ],
       },
       {
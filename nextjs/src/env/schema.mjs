@@ -10,7 +10,20 @@ export const serverSchema = z.object({
   CLOUDFLARE_TUNNEL_URL: z.string().optional().default("http://localhost:3000"),
 
   // RapidAPI (for Twitter monitoring)
-  RAPID_API_KEY: z.string(),
+  RAPID_API_KEY: z.string().optional(),
+
+  // TikTok video source ("fixtures" replays recorded responses without network)
+  TIKTOK_VIDEO_SOURCE: z.enum(["rapidapi", "fixtures"]).optional().default("rapidapi"),
+  TIKTOK_FIXTURES_DIR: z.string().optional(),
+  TIKTOK_RECORD_FIXTURES: z.enum(["true", "false"]).optional().default("false"),
+
+  // Analysis model ("openai" is any OpenAI-compatible server, "fixtures" replays recorded responses)
+  ANALYSIS_MODEL_PROVIDER: z.enum(["gemini", "openai", "fixtures"]).optional().default("gemini"),
+  ANALYSIS_FIXTURES_DIR: z.string().optional(),
+  ANALYSIS_RECORD_FIXTURES: z.enum(["true", "false"]).optional().default("false"),
+
+  // Blob storage ("s3" covers R2 and MinIO, "local" a directory served by /api/storage)
+  STORAGE_DRIVER: z.enum(["supabase", "s3", "local"]).optional().default("supabase"),
 
   // Supabase
   SUPABASE_SERVICE_ROLE_KEY: z.string(),
@@ -32,6 +45,19 @@ export const serverEnv = {
   // RapidAPI (for Twitter monitoring)
   RAPID_API_KEY: process.env.RAPID_API_KEY,
 
+  // TikTok video source
+  TIKTOK_VIDEO_SOURCE: process.env.TIKTOK_VIDEO_SOURCE,
+  TIKTOK_FIXTURES_DIR: process.env.TIKTOK_FIXTURES_DIR,
+  TIKTOK_RECORD_FIXTURES: process.env.TIKTOK_RECORD_FIXTURES,
+
+  // Analysis model
+  ANALYSIS_MODEL_PROVIDER: process.env.ANALYSIS_MODEL_PROVIDER,
+  ANALYSIS_FIXTURES_DIR: process.env.ANALYSIS_FIXTURES_DIR,
+  ANALYSIS_RECORD_FIXTURES: process.env.ANALYSIS_RECORD_FIXTURES,
+
+  // Blob storage
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+
   // Supabase
   SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
 
@@ -1,44 +1,564 @@
+import { NonRetriableError } from "inngest";
 import { inngestClient } from "@/lib/clients/inngest";
 import { supabaseServer } from "@/lib/clients/supabase";
 import { tiktokApi, ProcessedTikTokVideo } from "@/lib/clients/tiktok";
 import { videoProcessor } from "@/lib/video-processing";
-import { r2Client } from "@/lib/clients/r2";
-import { geminiClient, HookAnalysisResult } from "@/lib/clients/gemini";
-import { Database } from "@shared-types/database.types";
+import { DownloadChainError, downloadWithFallbacks, tiktokDownloadStrategies } from "@/lib/video-downloader";
+import { isRetryableDownloadFailure } from "@/lib/download-failures";
+import { FilmstripFrame, filmstripPrefix } from "@/lib/filmstrip";
+import { isNearDuplicate, PerceptualHash } from "@/lib/video-fingerprint";
+import { mirrorImage } from "@/lib/image-mirror";
+import { IMAGE_MIRROR_RETRY_MS } from "@/lib/mirrored-images";
+import { customCriterionScoreFromRow } from "@/lib/rubric-criteria";
+import { DRAFT_TOO_LARGE_MESSAGE, MAX_DRAFT_SIZE_BYTES } from "@/lib/draft-videos";
+import { blobStore } from "@/lib/clients/storage";
+import { analysisModel, HookAnalysisResult } from "@/lib/clients/gemini";
+import { AnalysisValidationError } from "@/lib/clients/analysis-model";
+import { getActivePromptVersion, getPromptVersion } from "@/server/services/prompt-versions";
+import { getRubricCriteriaForVideo, saveCriterionScores } from "@/server/services/rubric-criteria";
+import { Database, Json } from "@shared-types/database.types";
+import {
+  DEFAULT_MEDIA_RETENTION,
+  expiredMedia,
+  mediaRetentionFromRow,
+  videoStorageKey,
+} from "@/lib/media-retention";
+import {
+  CRAWL_SCHEDULE_INTERVAL_MS,
+  DEFAULT_SEARCH_OPTIONS,
+  SearchOptions,
+  searchOptionsFromRow,
+} from "@/lib/tiktok-search-options";
+import {
+  METRICS_REFRESH_INTERVAL_MS,
+  METRICS_REFRESH_MAX_AGE_MS,
+  computeDerivedMetrics,
+} from "@/lib/video-metrics";
 
 import { logDebug } from "@/lib/debug-logger";
+import { readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import crypto from "crypto";
+
+// Map a video from the video source to a tiktok_videos row, without its counts
+function toVideoRow(video: ProcessedTikTokVideo) {
+  return {
+    video_id: video.id,
+    title: video.title,
+    creator: video.author.nickname,
+    creator_username: video.author.uniqueId,
+    duration: video.duration,
+    video_url: video.webVideoUrl,
+    thumbnail_url: video.cover,
+    published_at: video.createTime ? new Date(video.createTime * 1000).toISOString() : null,
+    raw_payload: video as any, // Convert to JSON-compatible type
+  };
+}
+
+/**
+ * Save videos from the video source. The count columns keep the figures from when
+ * a video was first seen (the first_seen metrics mode), so they are only written
+ * for new rows; videos seen before just get their other fields refreshed.
+ */
+async function saveVideoRows(videos: ProcessedTikTokVideo[]) {
+  const { error: insertError } = await supabaseServer
+    .from("tiktok_videos")
+    .upsert(
+      videos.map(video => ({
+        ...toVideoRow(video),
+        view_count: video.stats.playCount,
+        like_count: video.stats.diggCount,
+        share_count: video.stats.shareCount,
+        comment_count: video.stats.commentCount,
+      })),
+      { onConflict: "video_id", ignoreDuplicates: true }
+    );
+
+  if (insertError) throw insertError;
+
+  const { data, error } = await supabaseServer
+    .from("tiktok_videos")
+    .upsert(videos.map(toVideoRow), { onConflict: "video_id" })
+    .select("id, video_id, video_url");
+
+  if (error) throw error;
+  return data;
+}
+
+function toMetricsSnapshot(
+  videoId: string,
+  video: ProcessedTikTokVideo,
+  source: "search" | "import",
+  capturedAt: string
+) {
+  return {
+    video_id: videoId,
+    view_count: video.stats.playCount,
+    like_count: video.stats.diggCount,
+    share_count: video.stats.shareCount,
+    comment_count: video.stats.commentCount,
+    collect_count: video.stats.collectCount,
+    source,
+    captured_at: capturedAt,
+  };
+}
+
+// Event that starts the download -> hook analysis chain for a saved video
+function toDownloadEvent(
+  video: { id: string; video_url: string },
+  originalVideo: ProcessedTikTokVideo | undefined,
+  searchTermId: string
+) {
+  return {
+    name: "tiktok/download-video" as const,
+    data: {
+      videoId: video.id,
+      searchTermId,
+      videoUrl: video.video_url,
+      directDownloadUrl: originalVideo?.playAddr || '', // Add direct download URL from search results
+      videoMetadata: {
+        title: originalVideo?.title || '',
+        creator: originalVideo?.author.nickname || '',
+        creatorUsername: originalVideo?.author.uniqueId || '',
+        viewCount: originalVideo?.stats.playCount || 0,
+        likeCount: originalVideo?.stats.diggCount || 0,
+        shareCount: originalVideo?.stats.shareCount || 0,
+        commentCount: originalVideo?.stats.commentCount || 0,
+        duration: originalVideo?.duration || 0,
+        thumbnailUrl: originalVideo?.cover || '',
+      },
+    },
+  };
+}
+
+function toMirrorEvents(videos: { id: string }[]) {
+  return videos.map(video => ({
+    name: "tiktok/mirror-images" as const,
+    data: { videoId: video.id },
+  }));
+}
+
+// Another video by the same creator may already have the avatar mirrored
+async function existingAvatar(creatorUsername: string | null) {
+  if (!creatorUsername) return null;
+
+  const { data } = await supabaseServer
+    .from("tiktok_videos")
+    .select("creator_avatar_mirror")
+    .eq("creator_username", creatorUsername)
+    .not("creator_avatar_mirror", "is", null)
+    .limit(1)
+    .maybeSingle();
+
+  return data?.creator_avatar_mirror ?? null;
+}
+
+// Extract the hook's filmstrip from an analysis clip and store it next to the video.
+// The filmstrip is a nice-to-have, so failures are logged and yield null.
+async function uploadFilmstrip(clipPath: string, hookSeconds: number, videoKey: string): Promise<FilmstripFrame[] | null> {
+  let dir: string | null = null;
+  try {
+    const filmstrip = await videoProcessor.extractFilmstrip(clipPath, hookSeconds);
+    dir = filmstrip.dir;
+
+    const prefix = filmstripPrefix(videoKey);
+    return await Promise.all(filmstrip.frames.map(async (frame, idx) => {
+      const key = `${prefix}/${String(idx).padStart(3, "0")}.jpg`;
+      const uploaded = await blobStore.putFile(key, frame.path, { contentType: "image/jpeg" });
+      return { key, url: uploaded.publicUrl, time: frame.time };
+    }));
+  } catch (error) {
+    logDebug(`Filmstrip failed for ${videoKey}: ${error instanceof Error ? error.message : String(error)}`);
+    console.warn(`Could not create filmstrip for ${videoKey}:`, error);
+    return null;
+  } finally {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Download a video through the strategy chain. When every strategy fails the reason
+// is kept on the video so the gallery can explain it, and final reasons stop retries.
+async function downloadThroughChain(videoId: string, videoUrl: string, directDownloadUrl?: string) {
+  try {
+    return await downloadWithFallbacks(
+      tiktokDownloadStrategies(tiktokApi, videoUrl, directDownloadUrl),
+      (url) => videoProcessor.downloadVideo(url)
+    );
+  } catch (error) {
+    if (!(error instanceof DownloadChainError)) throw error;
+
+    const { error: updateError } = await supabaseServer
+      .from("tiktok_videos")
+      .update({
+        download_failure_reason: error.reason,
+        download_error: error.message,
+      })
+      .eq("id", videoId);
+
+    if (updateError) {
+      logDebug(`[${videoId}] Could not record download failure: ${updateError.message}`);
+    }
+
+    if (!isRetryableDownloadFailure(error.reason)) {
+      throw new NonRetriableError(error.message, { cause: error });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find what a freshly downloaded video duplicates. duplicateOf is the earliest
+ * earlier video of the search term's owner (userId) with the same bytes or
+ * near-identical opening frames. exactAnalysisId is an existing analysis of a
+ * byte-identical video in the same user's library, made with the active prompt
+ * version and covering the video's rubric criteria.
+ */
+async function findDuplicates(
+  videoId: string,
+  searchTermId: string,
+  contentHash: string,
+  perceptualHash: PerceptualHash | null
+): Promise<{ userId: string; duplicateOf: string | null; exactAnalysisId: string | null }> {
+  const { data: video, error: videoError } = await supabaseServer
+    .from("tiktok_videos")
+    .select("created_at")
+    .eq("id", videoId)
+    .single();
+
+  if (videoError) throw videoError;
+
+  const { data: searchTerm, error: termError } = await supabaseServer
+    .from("search_terms")
+    .select("user_id")
+    .eq("id", searchTermId)
+    .single();
+
+  if (termError) throw termError;
+
+  const { data: candidates, error: candidatesError } = await supabaseServer
+    .from("tiktok_videos")
+    .select(`
+      id,
+      created_at,
+      content_hash,
+      perceptual_hash,
+      search_term_videos!inner (
+        search_terms!inner ( user_id )
+      ),
+      video_duplicates!video_duplicates_video_id_fkey ( duplicate_of )
+    `)
+    .eq("search_term_videos.search_terms.user_id", searchTerm.user_id)
+    .eq("video_duplicates.user_id", searchTerm.user_id)
+    .eq("is_draft", false)
+    .neq("id", videoId)
+    .lt("created_at", video.created_at)
+    .order("created_at", { ascending: true });
+
+  if (candidatesError) throw candidatesError;
+
+  const match = (candidates || []).find(candidate =>
+    candidate.content_hash === contentHash ||
+    (perceptualHash && Array.isArray(candidate.perceptual_hash) &&
+      isNearDuplicate(perceptualHash, candidate.perceptual_hash as PerceptualHash))
+  );
+
+  const activePrompt = await getActivePromptVersion(supabaseServer);
+  const { data: exact, error: exactError } = await supabaseServer
+    .from("tiktok_videos")
+    .select(`
+      id,
+      hook_analysis!inner (
+        id,
+        hook_criterion_scores ( criterion_id )
+      ),
+      search_term_videos!inner (
+        search_terms!inner ( user_id )
+      )
+    `)
+    .eq("content_hash", contentHash)
+    .eq("hook_analysis.prompt_version", activePrompt.version)
+    .eq("search_term_videos.search_terms.user_id", searchTerm.user_id)
+    .neq("id", videoId)
+    .limit(10);
+
+  if (exactError) throw exactError;
+
+  // Only an analysis that scored every rubric criterion this video gets can stand in for it
+  const criteria = await getRubricCriteriaForVideo(supabaseServer, videoId);
+  const exactAnalysis = (exact || [])
+    .flatMap(copy => copy.hook_analysis)
+    .find(analysis => {
+      const scored = new Set(analysis.hook_criterion_scores.map(score => score.criterion_id));
+      return criteria.every(criterion => scored.has(criterion.id));
+    });
+
+  return {
+    userId: searchTerm.user_id,
+    duplicateOf: match ? match.video_duplicates[0]?.duplicate_of || match.id : null,
+    exactAnalysisId: exactAnalysis?.id ?? null,
+  };
+}
+
+// Videos checked per page by the storage lifecycle
+const MEDIA_RETENTION_PAGE = 500;
+
+// Unreferenced objects are only deleted once they are this old, so an upload whose
+// row hasn't been saved yet (a download mid-job, a draft about to be analyzed) survives
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Folders holding per-video media; covers and avatars belong to the image mirror
+const VIDEO_MEDIA_PREFIXES = ["videos", "filmstrips", "drafts"];
+
+function filmstripKeys(filmstrip: Json | null): string[] {
+  return Array.isArray(filmstrip) ? (filmstrip as unknown as FilmstripFrame[]).map(frame => frame.key) : [];
+}
+
+/**
+ * Delete the stored videos and filmstrips that every owning workspace's retention
+ * lets go of, for the given videos or (without ids) every analyzed video. Objects
+ * are deleted before the row is cleared, so a failure in between is retried.
+ */
+async function applyMediaRetention(videoIds?: string[]): Promise<{ videos: number; objects: number }> {
+  const now = new Date();
+  let videos = 0;
+  let objects = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    let query = supabaseServer
+      .from("tiktok_videos")
+      .select(`
+        id,
+        r2_key,
+        filmstrip,
+        hook_analysis!inner (
+          processed_at
+        ),
+        search_term_videos (
+          search_terms (
+            user_id
+          )
+        )
+      `)
+      .or("r2_key.not.is.null,filmstrip.not.is.null")
+      .order("id", { ascending: true })
+      .limit(MEDIA_RETENTION_PAGE);
+
+    if (videoIds) query = query.in("id", videoIds);
+    if (after) query = query.gt("id", after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (data.length === 0) break;
+
+    const ownerIds = (video: (typeof data)[number]) =>
+      Array.from(new Set(video.search_term_videos.map(link => link.search_terms?.user_id).filter((id): id is string => !!id)));
+
+    const { data: settings, error: settingsError } = await supabaseServer
+      .from("workspace_settings")
+      .select("user_id, media_retention, media_retention_days")
+      .in("user_id", Array.from(new Set(data.flatMap(ownerIds))));
+
+    if (settingsError) throw settingsError;
+    const retentionByOwner = new Map(settings.map(row => [row.user_id, mediaRetentionFromRow(row)]));
+
+    const keys: string[] = [];
+    const videosExpired: string[] = [];
+    const filmstripsExpired: string[] = [];
+
+    for (const video of data) {
+      const analyzedAt = new Date(Math.max(...video.hook_analysis.map(analysis => new Date(analysis.processed_at).getTime())));
+      const retention = ownerIds(video).map(id => retentionByOwner.get(id) ?? DEFAULT_MEDIA_RETENTION);
+      const expired = expiredMedia(retention, analyzedAt, now);
+
+      if (expired.video && video.r2_key) {
+        keys.push(video.r2_key);
+        videosExpired.push(video.id);
+      }
+      if (expired.filmstrip && video.filmstrip) {
+        keys.push(...filmstripKeys(video.filmstrip));
+        filmstripsExpired.push(video.id);
+      }
+    }
+
+    if (keys.length > 0) {
+      await blobStore.delete(keys);
+
+      if (videosExpired.length > 0) {
+        const { error: updateError } = await supabaseServer
+          .from("tiktok_videos")
+          .update({ r2_key: null, media_deleted_at: now.toISOString() })
+          .in("id", videosExpired);
+
+        if (updateError) throw updateError;
+      }
+
+      if (filmstripsExpired.length > 0) {
+        const { error: updateError } = await supabaseServer
+          .from("tiktok_videos")
+          .update({ filmstrip: null })
+          .in("id", filmstripsExpired);
+
+        if (updateError) throw updateError;
+      }
+    }
+
+    videos += new Set([...videosExpired, ...filmstripsExpired]).size;
+    objects += keys.length;
+
+    after = data[data.length - 1]!.id;
+    if (data.length < MEDIA_RETENTION_PAGE) break;
+  }
+
+  return { videos, objects };
+}
+
+// Delete objects in the video media folders that no row references, e.g. uploads of
+// failed jobs, or media of videos removed with their last search term
+async function deleteOrphanedMedia(): Promise<number> {
+  const referenced = new Set<string>();
+  let after: string | null = null;
+
+  for (;;) {
+    let query = supabaseServer
+      .from("tiktok_videos")
+      .select("id, r2_key, filmstrip")
+      .or("r2_key.not.is.null,filmstrip.not.is.null")
+      .order("id", { ascending: true })
+      .limit(1000);
+
+    if (after) query = query.gt("id", after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const video of data) {
+      if (video.r2_key) referenced.add(video.r2_key);
+      filmstripKeys(video.filmstrip).forEach(key => referenced.add(key));
+    }
+
+    if (data.length < 1000) break;
+    after = data[data.length - 1]!.id;
+  }
+
+  const cutoff = Date.now() - ORPHAN_GRACE_MS;
+  const orphans: string[] = [];
+  for (const prefix of VIDEO_MEDIA_PREFIXES) {
+    for (const object of await blobStore.list(prefix)) {
+      if (referenced.has(object.key)) continue;
+      if (object.lastModified && object.lastModified.getTime() < cutoff) orphans.push(object.key);
+    }
+  }
+
+  if (orphans.length > 0) await blobStore.delete(orphans);
+  return orphans.length;
+}
 
 // Search and process TikTok videos for a search term
 export const searchTikTokVideos = inngestClient.createFunction(
   {
     id: "tiktok/search-videos",
+    onFailure: async ({ event, error }) => {
+      // Close out this run's record so the history doesn't show it as running forever;
+      // another run of the same term may still be going
+      await supabaseServer
+        .from("search_runs")
+        .update({
+          status: "failed",
+          error: error.message,
+          completed_at: new Date().toISOString(),
+        })
+        .eq("inngest_run_id", event.data.run_id)
+        .eq("status", "running");
+    },
   },
   {
     event: "tiktok/search-videos",
   },
-  async ({ event, step, logger }) => {
+  async ({ event, step, logger, runId }) => {
     const { searchTermId, searchTerm, userId } = event.data;
+    const trigger: "initial" | "manual" | "scheduled" = event.data.trigger || "manual";
+    // Events queued before search options existed fall back to the defaults
+    const searchOptions: SearchOptions = { ...DEFAULT_SEARCH_OPTIONS, ...event.data.searchOptions };
+
+    logger.info(`Starting TikTok video search for term: ${searchTerm} (${trigger})`);
+    logDebug(`Starting TikTok video search for term: ${searchTerm} (${trigger})`);
 
-    logger.info(`Starting TikTok video search for term: ${searchTerm}`);
-    logDebug(`Starting TikTok video search for term: ${searchTerm}`);
+    // Step 0: Record the run
+    const searchRunId = await step.run("db: create search run", async () => {
+      const startedAt = new Date().toISOString();
+
+      const { data, error } = await supabaseServer
+        .from("search_runs")
+        .insert({
+          search_term_id: searchTermId,
+          trigger,
+          started_at: startedAt,
+          inngest_run_id: runId,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      const { error: termError } = await supabaseServer
+        .from("search_terms")
+        .update({ last_crawled_at: startedAt })
+        .eq("id", searchTermId);
+
+      if (termError) throw termError;
+      return data.id;
+    });
 
     // Step 1: Search TikTok videos
-    const videos = await step.run("tiktok: search and filter videos", async () => {
+    const { videos, rankPositions } = await step.run("tiktok: search and filter videos", async () => {
       try {
         logDebug(`Inside step.run: searching videos for ${searchTerm}`);
-        const allVideos = await tiktokApi.searchVideosWithPagination(searchTerm, 10, 100);
+        const allVideos = await tiktokApi.searchVideosWithPagination(searchTerm, searchOptions);
+
+        // Record search result positions before filtering re-sorts by engagement
+        const positions: Record<string, number> = {};
+        allVideos.forEach((video, index) => {
+          if (!(video.id in positions)) positions[video.id] = index + 1;
+        });
+
         const topVideos = tiktokApi.filterTopVideos(allVideos, 0.5); // Top 50%
 
         logger.info(`Found ${allVideos.length} videos, filtered to top ${topVideos.length}`);
         logDebug(`Found ${allVideos.length} videos, filtered to top ${topVideos.length}`);
-        return topVideos;
+        return { videos: topVideos, rankPositions: positions };
       } catch (error) {
         logDebug(`ERROR in search step: ${error instanceof Error ? error.message : String(error)}`);
         throw error;
       }
     });
 
-    // Step 2: Save videos to database
+    // Step 2: Detect videos this term has not seen in earlier crawls
+    const newVideoIds = await step.run("db: detect new videos", async () => {
+      const videoIds = Array.from(new Set(videos.map(v => v.id)));
+      if (videoIds.length === 0) return [];
+
+      const { data, error } = await supabaseServer
+        .from("search_term_videos")
+        .select(`
+          video_id,
+          tiktok_videos!inner (
+            video_id
+          )
+        `)
+        .eq("search_term_id", searchTermId)
+        .in("tiktok_videos.video_id", videoIds);
+
+      if (error) throw error;
+
+      const existing = new Set(data.map(link => link.tiktok_videos.video_id));
+      const newIds = videoIds.filter(id => !existing.has(id));
+      logger.info(`${newIds.length} of ${videoIds.length} videos are new for this term`);
+      return newIds;
+    });
+
+    // Step 3: Save videos to database
     const savedVideos = await step.run("db: save videos", async () => {
       // Remove duplicates by video_id to avoid "ON CONFLICT DO UPDATE command cannot affect row a second time" error
       const uniqueVideos = videos.filter((video, index, self) =>
@@ -47,56 +567,55 @@ export const searchTikTokVideos = inngestClient.createFunction(
 
       logger.info(`Filtered ${videos.length} videos to ${uniqueVideos.length} unique videos`);
 
-      const videosToSave = uniqueVideos.map((video: ProcessedTikTokVideo) => ({
+      return saveVideoRows(uniqueVideos);
+    });
+
+    // Link the videos to this search term and run (videos may be shared with other terms)
+    await step.run("db: link videos to search term", async () => {
+      const seenAt = new Date().toISOString();
+      const links = savedVideos.map(video => ({
         search_term_id: searchTermId,
         video_id: video.id,
-        title: video.title,
-        creator: video.author.nickname,
-        creator_username: video.author.uniqueId,
-        view_count: video.stats.playCount,
-        like_count: video.stats.diggCount,
-        share_count: video.stats.shareCount,
-        comment_count: video.stats.commentCount,
-        duration: video.duration,
-        video_url: video.webVideoUrl,
-        thumbnail_url: video.cover,
-        raw_payload: video as any, // Convert to JSON-compatible type
+        search_run_id: searchRunId,
+        rank_position: rankPositions[video.video_id] ?? null,
+        last_seen_at: seenAt,
       }));
 
-      const { data, error } = await supabaseServer
-        .from("tiktok_videos")
-        .upsert(videosToSave, { onConflict: "video_id" })
-        .select("id, video_id, video_url");
+      if (links.length === 0) return;
+
+      const { error } = await supabaseServer
+        .from("search_term_videos")
+        .upsert(links, { onConflict: "search_term_id,video_id" });
 
       if (error) throw error;
-      return data;
     });
 
-    // Step 3: Queue video downloads
-    await step.run("inngest: queue video downloads", async () => {
-      const downloadPromises = savedVideos.map((video) => {
+    // Record the counts seen by this search as a metrics snapshot
+    await step.run("db: record metrics snapshots", async () => {
+      const capturedAt = new Date().toISOString();
+      const snapshots = savedVideos.flatMap(video => {
         const originalVideo = videos.find(v => v.id === video.video_id);
+        return originalVideo ? [toMetricsSnapshot(video.id, originalVideo, "search", capturedAt)] : [];
+      });
 
-        return inngestClient.send({
-          name: "tiktok/download-video",
-          data: {
-            videoId: video.id,
-            searchTermId,
-            videoUrl: video.video_url,
-            directDownloadUrl: originalVideo?.playAddr || '', // Add direct download URL from search results
-            videoMetadata: {
-              title: originalVideo?.title || '',
-              creator: originalVideo?.author.nickname || '',
-              creatorUsername: originalVideo?.author.uniqueId || '',
-              viewCount: originalVideo?.stats.playCount || 0,
-              likeCount: originalVideo?.stats.diggCount || 0,
-              shareCount: originalVideo?.stats.shareCount || 0,
-              commentCount: originalVideo?.stats.commentCount || 0,
-              duration: originalVideo?.duration || 0,
-              thumbnailUrl: originalVideo?.cover || '',
-            },
-          },
-        });
+      if (snapshots.length === 0) return;
+
+      const { error } = await supabaseServer
+        .from("tiktok_video_metrics")
+        .insert(snapshots);
+
+      if (error) throw error;
+    });
+
+    // Step 4: Queue video downloads (scheduled re-crawls only download new videos)
+    const videosToQueue = trigger === "scheduled"
+      ? savedVideos.filter(video => newVideoIds.includes(video.video_id))
+      : savedVideos;
+
+    await step.run("inngest: queue video downloads", async () => {
+      const downloadPromises = videosToQueue.map((video) => {
+        const originalVideo = videos.find(v => v.id === video.video_id);
+        return inngestClient.send(toDownloadEvent(video, originalVideo, searchTermId));
       });
 
       await Promise.all(downloadPromises);
@@ -104,77 +623,213 @@ export const searchTikTokVideos = inngestClient.createFunction(
       logDebug(`Queued ${downloadPromises.length} video downloads`);
     });
 
+    // Copy covers and avatars before their signed URLs expire
+    await step.run("inngest: queue image mirroring", async () => {
+      if (savedVideos.length === 0) return;
+      await inngestClient.send(toMirrorEvents(savedVideos));
+    });
+
+    // Step 5: Complete the run record
+    await step.run("db: complete search run", async () => {
+      const { error } = await supabaseServer
+        .from("search_runs")
+        .update({
+          status: "completed",
+          videos_found: videos.length,
+          new_videos: newVideoIds.length,
+          videos_queued: videosToQueue.length,
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", searchRunId);
+
+      if (error) throw error;
+    });
+
     return {
       searchTerm,
+      searchRunId,
       videosFound: videos.length,
-      videosQueued: savedVideos.length,
+      newVideos: newVideoIds.length,
+      videosQueued: videosToQueue.length,
     };
   }
 );
 
-export const downloadTikTokVideo = inngestClient.createFunction(
+// Import specific videos pasted by the user into their "Manual imports" collection
+export const importTikTokVideos = inngestClient.createFunction(
   {
-    id: "tiktok/download-video",
-    retries: 3, // Retry failed downloads up to 3 times
+    id: "tiktok/import-videos",
   },
   {
-    event: "tiktok/download-video",
+    event: "tiktok/import-videos",
   },
   async ({ event, step, logger }) => {
-    try {
-      const { videoId, searchTermId, videoUrl, directDownloadUrl, videoMetadata } = event.data;
-      logDebug(`Starting download job for video: ${videoId}`);
+    const { searchTermId, urls } = event.data;
 
-      logger.info(`Starting download for video: ${videoId}`);
+    logger.info(`Importing ${urls.length} TikTok URLs`);
+    logDebug(`Importing ${urls.length} TikTok URLs into collection ${searchTermId}`);
 
-      // Step 1: Get download URL (either from direct URL or fetch from API)
-      const downloadUrl = await step.run("tiktok: get download url", async () => {
+    // Step 1: Resolve each URL (short links included) to video metadata
+    const { videos, failures } = await step.run("tiktok: resolve video urls", async () => {
+      const resolved: ProcessedTikTokVideo[] = [];
+      const failed: { url: string; error: string }[] = [];
+
+      for (const url of urls) {
         try {
-          if (directDownloadUrl) {
-            logger.info(`Using direct download URL from search results`);
-            logDebug(`[${videoId}] Using direct URL: ${directDownloadUrl.substring(0, 100)}...`);
-            return directDownloadUrl;
+          const video = await tiktokApi.getVideo(url);
+          if (!resolved.some(v => v.id === video.id)) {
+            resolved.push(video);
           }
+        } catch (error) {
+          logDebug(`ERROR resolving ${url}: ${error instanceof Error ? error.message : String(error)}`);
+          failed.push({ url, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
 
-          // Fallback: Fetch download URL from TikTok API using video_url
-          logger.info(`No direct URL available, fetching from TikTok API for: ${videoUrl}`);
-          logDebug(`[${videoId}] Fetching download URL from API for: ${videoUrl}`);
+      return { videos: resolved, failures: failed };
+    });
 
-          const downloadInfo = await tiktokApi.downloadVideo(videoUrl);
-          const url = downloadInfo.play || downloadInfo.play_watermark;
+    if (videos.length === 0) {
+      logger.warn("None of the URLs could be resolved");
+      return { imported: 0, failures };
+    }
 
-          if (!url) {
-            throw new Error('No download URL returned from TikTok API');
-          }
+    // Step 2: Save videos and link them to the collection
+    const savedVideos = await step.run("db: save videos", async () => {
+      const data = await saveVideoRows(videos);
 
-          logger.info(`Successfully got download URL from API`);
-          logDebug(`[${videoId}] Got download URL from API: ${url.substring(0, 100)}...`);
-          return url;
-        } catch (error) {
-          logger.error(`Failed to get download URL from API: ${error}`);
-          logDebug(`[${videoId}] ERROR getting download URL: ${error instanceof Error ? error.message : String(error)}`);
-          throw new Error(`Failed to get download URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+      const now = new Date().toISOString();
+      const { error: linkError } = await supabaseServer
+        .from("search_term_videos")
+        .upsert(
+          data.map(video => ({
+            search_term_id: searchTermId,
+            video_id: video.id,
+            last_seen_at: now,
+          })),
+          { onConflict: "search_term_id,video_id" }
+        );
+
+      if (linkError) throw linkError;
+
+      const { error: metricsError } = await supabaseServer
+        .from("tiktok_video_metrics")
+        .insert(data.flatMap(video => {
+          const originalVideo = videos.find(v => v.id === video.video_id);
+          return originalVideo ? [toMetricsSnapshot(video.id, originalVideo, "import", now)] : [];
+        }));
+
+      if (metricsError) throw metricsError;
+      return data;
+    });
+
+    // Step 3: Queue video downloads
+    await step.run("inngest: queue video downloads", async () => {
+      await inngestClient.send(
+        savedVideos.map(video =>
+          toDownloadEvent(video, videos.find(v => v.id === video.video_id), searchTermId)
+        )
+      );
+    });
+
+    await step.run("inngest: queue image mirroring", async () => {
+      if (savedVideos.length === 0) return;
+      await inngestClient.send(toMirrorEvents(savedVideos));
+    });
+
+    logger.info(`Imported ${savedVideos.length} videos, ${failures.length} URLs failed`);
+    return { imported: savedVideos.length, failures };
+  }
+);
+
+// Re-run the search for active terms whose crawl schedule is due
+export const scheduleSearchTermRecrawls = inngestClient.createFunction(
+  {
+    id: "tiktok/schedule-recrawls",
+  },
+  { cron: "0 * * * *" }, // Check hourly
+  async ({ step, logger }) => {
+    const dueTerms = await step.run("db: fetch due search terms", async () => {
+      const { data, error } = await supabaseServer
+        .from("search_terms")
+        .select("*")
+        .eq("status", "active")
+        .eq("kind", "search")
+        .neq("crawl_schedule", "off");
+
+      if (error) throw error;
+
+      const now = Date.now();
+      return data.filter(term => {
+        if (!term.last_crawled_at) return true;
+        const interval = CRAWL_SCHEDULE_INTERVAL_MS[term.crawl_schedule as keyof typeof CRAWL_SCHEDULE_INTERVAL_MS];
+        if (!interval) return false;
+        // Allow a little slack so an hourly cron doesn't drift a full hour per run
+        return now - new Date(term.last_crawled_at).getTime() >= interval - 30 * 60 * 1000;
       });
+    });
+
+    if (dueTerms.length === 0) {
+      logger.info("No search terms due for re-crawl");
+      return { termsQueued: 0 };
+    }
+
+    await step.run("inngest: queue scheduled searches", async () => {
+      await inngestClient.send(
+        dueTerms.map(term => ({
+          name: "tiktok/search-videos",
+          data: {
+            searchTermId: term.id,
+            searchTerm: term.term,
+            userId: term.user_id,
+            searchOptions: searchOptionsFromRow(term),
+            trigger: "scheduled",
+          },
+        }))
+      );
+    });
 
-      // Step 2: Download, process, and upload video
+    logger.info(`Queued ${dueTerms.length} scheduled re-crawls`);
+    return { termsQueued: dueTerms.length };
+  }
+);
+
+export const downloadTikTokVideo = inngestClient.createFunction(
+  {
+    id: "tiktok/download-video",
+    retries: 3, // Retry failed downloads up to 3 times
+  },
+  {
+    event: "tiktok/download-video",
+  },
+  async ({ event, step, logger }) => {
+    try {
+      const { videoId, searchTermId, videoUrl, directDownloadUrl, videoMetadata } = event.data;
+      logDebug(`Starting download job for video: ${videoId}`);
+
+      logger.info(`Starting download for video: ${videoId}`);
+
+      // Step 1: Download through the strategy chain, process, and upload video
       const uploadResult = await step.run("video: download, process, and upload", async () => {
         try {
-          logDebug(`[${videoId}] Starting video download from: ${downloadUrl.substring(0, 100)}...`);
+          const downloaded = await downloadThroughChain(videoId, videoUrl, directDownloadUrl);
+          logger.info(`Video downloaded with the ${downloaded.strategy} strategy`);
 
-          // Download and process video
-          const processedVideo = await videoProcessor.downloadAndProcessVideo(downloadUrl);
+          // Process the download for Gemini
+          const processedVideo = await videoProcessor.processDownloadedVideo(downloaded.path);
           logger.info(`Video processed: ${videoProcessor.formatFileSize(processedVideo.originalSize)} -> ${videoProcessor.formatFileSize(processedVideo.processedSize)}`);
           logDebug(`[${videoId}] Video processed: original=${videoProcessor.formatFileSize(processedVideo.originalSize)}, processed=${videoProcessor.formatFileSize(processedVideo.processedSize)}, trimmed=${processedVideo.trimmed}`);
 
-          // Upload to R2
-          const fileName = `${videoMetadata.creatorUsername}_${videoId}.mp4`;
-          logDebug(`[${videoId}] Uploading to storage: ${fileName}`);
+          // Upload to the configured blob store; retries overwrite the same key
+          const storageKey = videoStorageKey(videoId);
+          logDebug(`[${videoId}] Uploading to ${blobStore.driver} storage: ${storageKey}`);
 
-          const result = await r2Client.uploadFile(processedVideo.tempFilePath, fileName);
-          logger.info(`Video uploaded to R2: ${result.key}`);
+          const result = await blobStore.putFile(storageKey, processedVideo.tempFilePath, { contentType: "video/mp4" });
+          logger.info(`Video uploaded to storage: ${result.key}`);
           logDebug(`[${videoId}] Upload completed: key=${result.key}, size=${videoProcessor.formatFileSize(result.size)}`);
 
+          const filmstrip = await uploadFilmstrip(processedVideo.tempFilePath, processedVideo.analysisWindow.hookEnd, result.key);
+
           // Clean up temp file immediately after upload
           await videoProcessor.cleanup(processedVideo.tempFilePath);
           logDebug(`[${videoId}] Cleaned up temp file`);
@@ -183,7 +838,12 @@ export const downloadTikTokVideo = inngestClient.createFunction(
             ...result,
             trimmed: processedVideo.trimmed,
             originalSize: processedVideo.originalSize,
-            processedSize: processedVideo.processedSize
+            processedSize: processedVideo.processedSize,
+            analysisWindow: processedVideo.analysisWindow,
+            mediaSignals: processedVideo.mediaSignals,
+            contentHash: processedVideo.contentHash,
+            perceptualHash: processedVideo.perceptualHash,
+            filmstrip
           };
         } catch (error) {
           logDebug(`[${videoId}] ERROR in download/process/upload: ${error instanceof Error ? error.message : String(error)}`);
@@ -192,7 +852,7 @@ export const downloadTikTokVideo = inngestClient.createFunction(
         }
       });
 
-      // Step 3: Update database with R2 info
+      // Step 2: Update database with R2 info
       await step.run("db: update video with r2 info", async () => {
         try {
           logDebug(`[${videoId}] Updating database with R2 info`);
@@ -201,7 +861,15 @@ export const downloadTikTokVideo = inngestClient.createFunction(
             .from("tiktok_videos")
             .update({
               r2_key: uploadResult.key,
-              r2_url: uploadResult.publicUrl,
+              r2_size: uploadResult.size,
+              media_deleted_at: null,
+              analysis_window: uploadResult.analysisWindow,
+              media_signals: uploadResult.mediaSignals,
+              filmstrip: uploadResult.filmstrip,
+              content_hash: uploadResult.contentHash,
+              perceptual_hash: uploadResult.perceptualHash,
+              download_failure_reason: null,
+              download_error: null,
             })
             .eq("id", videoId);
 
@@ -217,7 +885,73 @@ export const downloadTikTokVideo = inngestClient.createFunction(
         }
       });
 
-      // Step 4: Queue hook analysis
+      // Step 3: Link reposts to the earliest copy among the user's videos
+      const duplicates = await step.run("db: detect duplicates", async () => {
+        const result = await findDuplicates(videoId, searchTermId, uploadResult.contentHash, uploadResult.perceptualHash);
+        if (result.duplicateOf) {
+          logDebug(`[${videoId}] Duplicate of ${result.duplicateOf}`);
+
+          // Only a repost in this user's library; other users may have it as the original
+          const { error } = await supabaseServer
+            .from("video_duplicates")
+            .upsert({ user_id: result.userId, video_id: videoId, duplicate_of: result.duplicateOf });
+
+          if (error) throw error;
+        }
+        return result;
+      });
+
+      // Step 4: Byte-for-byte copies reuse the existing analysis instead of calling Gemini again
+      if (duplicates.exactAnalysisId) {
+        await step.run("db: reuse hook analysis", async () => {
+          const { data: source, error: fetchError } = await supabaseServer
+            .from("hook_analysis")
+            .select(`
+              analysis_result,
+              gemini_response,
+              prompt_version,
+              model,
+              hook_criterion_scores ( criterion_id, name, scale_min, scale_max, score, rationale )
+            `)
+            .eq("id", duplicates.exactAnalysisId!)
+            .single();
+
+          if (fetchError) throw fetchError;
+
+          const { data: copy, error } = await supabaseServer
+            .from("hook_analysis")
+            .insert({
+              video_id: videoId,
+              analysis_result: source.analysis_result,
+              gemini_response: source.gemini_response,
+              prompt_version: source.prompt_version,
+              model: source.model,
+            })
+            .select("id")
+            .single();
+
+          if (error) throw error;
+
+          // The source may also be scored for other workspaces' criteria; copy only this video's
+          const criteria = await getRubricCriteriaForVideo(supabaseServer, videoId);
+          await saveCriterionScores(supabaseServer, copy.id, criteria, source.hook_criterion_scores.map(customCriterionScoreFromRow));
+          logDebug(`[${videoId}] Reused hook analysis ${duplicates.exactAnalysisId}`);
+        });
+
+        await step.run("storage: apply media retention", () => applyMediaRetention([videoId]));
+
+        logDebug(`COMPLETED download job for video: ${videoId} (exact duplicate, analysis reused)`);
+
+        return {
+          videoId,
+          r2Key: uploadResult.key,
+          fileSize: uploadResult.size,
+          trimmed: uploadResult.trimmed,
+          duplicateOf: duplicates.duplicateOf,
+        };
+      }
+
+      // Step 5: Queue hook analysis
       await step.run("inngest: queue hook analysis", async () => {
         try {
           logDebug(`[${videoId}] Queueing analysis job`);
@@ -227,7 +961,6 @@ export const downloadTikTokVideo = inngestClient.createFunction(
             data: {
               videoId,
               r2Key: uploadResult.key,
-              r2Url: uploadResult.publicUrl,
             },
           });
 
@@ -245,6 +978,7 @@ export const downloadTikTokVideo = inngestClient.createFunction(
         r2Key: uploadResult.key,
         fileSize: uploadResult.size,
         trimmed: uploadResult.trimmed,
+        duplicateOf: duplicates.duplicateOf,
       };
     } catch (error) {
       const videoId = event.data.videoId;
@@ -255,7 +989,129 @@ export const downloadTikTokVideo = inngestClient.createFunction(
   }
 );
 
-// Analyze video hook using Gemini
+// Copy a video's cover and its creator's avatar into storage. Signed TikTok URLs
+// expire, so if the stored ones fail the video's details are fetched again for fresh ones.
+export const mirrorVideoImages = inngestClient.createFunction(
+  {
+    id: "tiktok/mirror-images",
+    concurrency: {
+      limit: 5, // Stay well under the video source's rate limit when URLs need refreshing
+    },
+    retries: 2,
+    onFailure: async ({ event }) => {
+      // The backfill picks the video up again once the retry interval has passed
+      const { videoId } = event.data.event.data;
+      await supabaseServer
+        .from("tiktok_videos")
+        .update({ image_mirror_attempted_at: new Date().toISOString() })
+        .eq("id", videoId);
+    },
+  },
+  {
+    event: "tiktok/mirror-images",
+  },
+  async ({ event, step, logger }) => {
+    const { videoId } = event.data;
+
+    const video = await step.run("db: fetch video", async () => {
+      const { data, error } = await supabaseServer
+        .from("tiktok_videos")
+        .select("id, video_url, thumbnail_url, creator_username, raw_payload, thumbnail_mirror, creator_avatar_mirror, is_draft")
+        .eq("id", videoId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    });
+
+    if (video.is_draft || (video.thumbnail_mirror && video.creator_avatar_mirror)) {
+      return { videoId, skipped: true };
+    }
+
+    const mirrors = await step.run("storage: mirror cover and avatar", async () => {
+      const payload = video.raw_payload as { author?: { avatarThumb?: string } } | null;
+      let coverUrl = video.thumbnail_url;
+      let avatarUrl = payload?.author?.avatarThumb || null;
+
+      const mirrorAll = async () => ({
+        cover: video.thumbnail_mirror ?? (coverUrl ? await mirrorImage("cover", video.id, coverUrl) : null),
+        avatar: video.creator_avatar_mirror ?? (await existingAvatar(video.creator_username)) ??
+          (avatarUrl && video.creator_username ? await mirrorImage("avatar", video.creator_username, avatarUrl) : null),
+      });
+
+      try {
+        return { ...(await mirrorAll()), refreshedCoverUrl: null };
+      } catch (error) {
+        logger.warn(`Stored image URLs failed (${error instanceof Error ? error.message : error}), fetching fresh ones`);
+      }
+
+      const details = await tiktokApi.getVideoDetails(video.video_url);
+      if (details.code !== 0 || !details.data) {
+        throw new Error(`Failed to fetch video details: ${details.msg}`);
+      }
+      coverUrl = details.data.cover || coverUrl;
+      avatarUrl = details.data.author?.avatar || avatarUrl;
+
+      return { ...(await mirrorAll()), refreshedCoverUrl: coverUrl };
+    });
+
+    await step.run("db: save mirrored images", async () => {
+      const { error } = await supabaseServer
+        .from("tiktok_videos")
+        .update({
+          thumbnail_mirror: mirrors.cover,
+          creator_avatar_mirror: mirrors.avatar,
+          image_mirror_attempted_at: new Date().toISOString(),
+          ...(mirrors.refreshedCoverUrl ? { thumbnail_url: mirrors.refreshedCoverUrl } : {}),
+        })
+        .eq("id", videoId);
+
+      if (error) throw error;
+    });
+
+    return { videoId, cover: !!mirrors.cover, avatar: !!mirrors.avatar };
+  }
+);
+
+// Queue mirroring for videos saved before mirroring existed, or whose last attempt failed
+export const scheduleImageMirrorBackfill = inngestClient.createFunction(
+  {
+    id: "tiktok/schedule-image-mirror-backfill",
+  },
+  { cron: "30 * * * *" }, // Hourly, offset from the re-crawl check
+  async ({ step, logger }) => {
+    const dueVideos = await step.run("db: fetch videos without mirrored images", async () => {
+      const attemptedBefore = new Date(Date.now() - IMAGE_MIRROR_RETRY_MS).toISOString();
+
+      const { data, error } = await supabaseServer
+        .from("tiktok_videos")
+        .select("id")
+        .is("thumbnail_mirror", null)
+        .not("thumbnail_url", "is", null)
+        .eq("is_draft", false)
+        .or(`image_mirror_attempted_at.is.null,image_mirror_attempted_at.lt.${attemptedBefore}`)
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return data;
+    });
+
+    if (dueVideos.length === 0) {
+      logger.info("No videos need their images mirrored");
+      return { videosQueued: 0 };
+    }
+
+    await step.run("inngest: queue image mirroring", async () => {
+      await inngestClient.send(toMirrorEvents(dueVideos));
+    });
+
+    logger.info(`Queued image mirroring for ${dueVideos.length} videos`);
+    return { videosQueued: dueVideos.length };
+  }
+);
+
+// Analyze video hook using the configured analysis model
 export const analyzeVideoHook = inngestClient.createFunction(
   {
     id: "tiktok/analyze-hook",
@@ -268,32 +1124,25 @@ export const analyzeVideoHook = inngestClient.createFunction(
     event: "tiktok/analyze-hook",
   },
   async ({ event, step, logger }) => {
-    const { videoId, r2Key, r2Url } = event.data;
+    const { videoId, r2Key, promptVersion } = event.data;
     const startTime = Date.now();
     logDebug(`Starting analysis job for video: ${videoId}`);
 
     logger.info(`Starting hook analysis for video: ${videoId}`);
 
-    // Step 1: Download video from Supabase Storage and analyze with Gemini
-    const analysis = await step.run("storage: download and analyze video", async () => {
-      // Download video from Supabase Storage using authenticated client
-      logger.info(`Downloading video from Supabase Storage with key: ${r2Key}`);
-
-      const { data: videoBlob, error: downloadError } = await supabaseServer.storage
-        .from('tiktok-videos')
-        .download(r2Key);
+    // Re-analysis asks for a specific prompt version; everything else uses the active one
+    const prompt = await step.run("db: load prompt version", () =>
+      promptVersion ? getPromptVersion(supabaseServer, promptVersion) : getActivePromptVersion(supabaseServer)
+    );
 
-      if (downloadError) {
-        logger.error(`Failed to download video from storage: ${downloadError.message}`);
-        throw new Error(`Failed to download video from storage: ${downloadError.message}`);
-      }
+    // Custom criteria from the workspaces whose search terms found the video
+    const criteria = await step.run("db: load rubric criteria", () => getRubricCriteriaForVideo(supabaseServer, videoId));
 
-      if (!videoBlob) {
-        throw new Error('No video data received from storage');
-      }
+    // Step 1: Download video from storage and analyze it
+    const outcome = await step.run("storage: download and analyze video", async () => {
+      logger.info(`Downloading video from ${blobStore.driver} storage with key: ${r2Key}`);
 
-      // Convert blob to buffer
-      const buffer = await videoBlob.arrayBuffer();
+      const buffer = await blobStore.getBuffer(r2Key);
       const videoSizeMB = (buffer.byteLength / 1024 / 1024).toFixed(2);
       logger.info(`Downloaded video for analysis: ${videoSizeMB} MB`);
 
@@ -302,17 +1151,35 @@ export const analyzeVideoHook = inngestClient.createFunction(
         throw new Error(`Video too large for analysis: ${videoSizeMB} MB (max 20MB)`);
       }
 
-      const base64 = Buffer.from(buffer).toString('base64');
+      const base64 = buffer.toString('base64');
 
-      // Analyze with Gemini (all in one step to avoid large data serialization)
-      logger.info('Starting Gemini analysis...');
-      const result = await geminiClient.analyzeVideoHook(base64);
-      logger.info(`Hook analysis completed with score: ${result.overallScore}`);
-      return result;
+      // Analyze in the same step to avoid large data serialization
+      logger.info(`Starting ${analysisModel.name} analysis with ${analysisModel.model} and prompt v${prompt.version}...`);
+      try {
+        const result = await analysisModel.analyzeVideoHook(base64, prompt.template, criteria);
+        logger.info(`Hook analysis completed with score: ${result.overallScore}`);
+        return result;
+      } catch (error) {
+        // The model already had a repair attempt; keep its problems on the run rather than retrying
+        if (error instanceof AnalysisValidationError) return { validationErrors: error.issues };
+        throw error;
+      }
     });
 
+    if ("validationErrors" in outcome) {
+      logger.warn(`Hook analysis for ${videoId} failed validation: ${outcome.validationErrors.join("; ")}`);
+      return {
+        videoId,
+        promptVersion: prompt.version,
+        validationErrors: outcome.validationErrors,
+        processingTimeMs: Date.now() - startTime,
+      };
+    }
+    // Rubric scores belong to the workspaces that own the criteria, not to the shared analysis
+    const { customCriteria, ...analysis } = outcome;
+
     // Step 2: Save analysis to database
-    await step.run("db: save hook analysis", async () => {
+    const savedAnalysis = await step.run("db: save hook analysis", async () => {
       logger.info('Saving hook analysis to database...');
 
       const { data, error } = await supabaseServer
@@ -321,8 +1188,11 @@ export const analyzeVideoHook = inngestClient.createFunction(
           video_id: videoId,
           analysis_result: analysis,
           gemini_response: JSON.stringify(analysis),
+          prompt_version: prompt.version,
+          model: analysisModel.model,
         })
-        .select();
+        .select("id")
+        .single();
 
       if (error) {
         logger.error(`Database error while saving analysis: ${error.message}`, {
@@ -337,6 +1207,190 @@ export const analyzeVideoHook = inngestClient.createFunction(
       return data;
     });
 
+    if (customCriteria && customCriteria.length > 0) {
+      await step.run("db: save rubric scores", () =>
+        saveCriterionScores(supabaseServer, savedAnalysis.id, criteria, customCriteria)
+      );
+    }
+
+    // Step 3: Workspaces may not keep videos once they're analyzed
+    await step.run("storage: apply media retention", () => applyMediaRetention([videoId]));
+
+    return {
+      videoId,
+      promptVersion: prompt.version,
+      overallScore: analysis.overallScore,
+      hookType: analysis.engagementTactics.hook_type,
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+);
+
+// Score a draft uploaded by the user before it is published
+export const analyzeDraftVideo = inngestClient.createFunction(
+  {
+    id: "tiktok/analyze-draft",
+    retries: 2,
+    onFailure: async ({ event, error }) => {
+      // Surface the failure on the draft instead of leaving it "analyzing"
+      const { storageKey } = event.data.event.data;
+      await supabaseServer
+        .from("tiktok_videos")
+        .update({ analysis_error: error.message })
+        .eq("r2_key", storageKey)
+        .eq("is_draft", true);
+    },
+  },
+  {
+    event: "tiktok/analyze-draft",
+  },
+  async ({ event, step, logger }) => {
+    const { searchTermId, storageKey, title } = event.data;
+    const startTime = Date.now();
+
+    logger.info(`Starting draft analysis for: ${storageKey}`);
+    logDebug(`Starting draft analysis for: ${storageKey}`);
+
+    // Step 1: Save the draft as a video with no public metrics
+    const videoId = await step.run("db: save draft video", async () => {
+      const stored = await blobStore.head(storageKey);
+      if (!stored) throw new NonRetriableError(`Draft upload ${storageKey} was not found in storage`);
+      // Checked again here: the signed upload URL can overwrite the object after the request was accepted
+      if (stored.size > MAX_DRAFT_SIZE_BYTES) {
+        await blobStore.delete([storageKey]);
+        throw new NonRetriableError(`${DRAFT_TOO_LARGE_MESSAGE}; ${storageKey} was ${videoProcessor.formatFileSize(stored.size)}`);
+      }
+
+      const { data, error } = await supabaseServer
+        .from("tiktok_videos")
+        .upsert({
+          video_id: `draft-${storageKey.split("/").pop()?.split(".")[0]}`,
+          title,
+          video_url: storageKey, // drafts have no TikTok page
+          r2_key: storageKey,
+          r2_size: stored.size,
+          is_draft: true,
+          analysis_error: null,
+        }, { onConflict: "video_id" })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      const { error: linkError } = await supabaseServer
+        .from("search_term_videos")
+        .upsert(
+          { search_term_id: searchTermId, video_id: data.id },
+          { onConflict: "search_term_id,video_id" }
+        );
+
+      if (linkError) throw linkError;
+      return data.id;
+    });
+
+    const prompt = await step.run("db: load prompt version", () => getActivePromptVersion(supabaseServer));
+    const criteria = await step.run("db: load rubric criteria", () => getRubricCriteriaForVideo(supabaseServer, videoId));
+
+    // Step 2: Download the upload, fit it to Gemini's size limit and analyze it
+    const processedDraft = await step.run("video: process and analyze draft", async () => {
+      const tempPath = join(tmpdir(), `draft_${crypto.randomUUID()}.mp4`);
+      await writeFile(tempPath, await blobStore.getBuffer(storageKey));
+
+      try {
+        const processed = await videoProcessor.processVideoForGemini(tempPath);
+        logger.info(`Draft processed: ${videoProcessor.formatFileSize(processed.originalSize)} -> ${videoProcessor.formatFileSize(processed.processedSize)}`);
+
+        try {
+          let result: HookAnalysisResult;
+          try {
+            const base64 = (await readFile(processed.tempFilePath)).toString("base64");
+            result = await analysisModel.analyzeVideoHook(base64, prompt.template, criteria);
+          } catch (error) {
+            if (error instanceof AnalysisValidationError) return { validationErrors: error.issues };
+            throw error;
+          }
+          logger.info(`Draft hook analysis completed with score: ${result.overallScore}`);
+          const filmstrip = await uploadFilmstrip(processed.tempFilePath, processed.analysisWindow.hookEnd, storageKey);
+          return {
+            analysis: result,
+            analysisWindow: processed.analysisWindow,
+            mediaSignals: processed.mediaSignals,
+            filmstrip,
+            contentHash: processed.contentHash,
+            perceptualHash: processed.perceptualHash,
+          };
+        } finally {
+          if (processed.tempFilePath !== tempPath) {
+            await videoProcessor.cleanup(processed.tempFilePath);
+          }
+        }
+      } finally {
+        await videoProcessor.cleanup(tempPath);
+      }
+    });
+
+    if ("validationErrors" in processedDraft) {
+      await step.run("db: record invalid draft analysis", async () => {
+        const { error } = await supabaseServer
+          .from("tiktok_videos")
+          .update({ analysis_error: `The analysis didn't match the expected format: ${processedDraft.validationErrors.join("; ")}` })
+          .eq("id", videoId);
+
+        if (error) throw error;
+      });
+
+      return {
+        videoId,
+        validationErrors: processedDraft.validationErrors,
+        processingTimeMs: Date.now() - startTime,
+      };
+    }
+    const { analysisWindow, mediaSignals, filmstrip, contentHash, perceptualHash } = processedDraft;
+    const { customCriteria, ...analysis } = processedDraft.analysis;
+
+    // Step 3: Save the analysis
+    const savedAnalysis = await step.run("db: save hook analysis", async () => {
+      const { data, error } = await supabaseServer
+        .from("hook_analysis")
+        .insert({
+          video_id: videoId,
+          analysis_result: analysis,
+          gemini_response: JSON.stringify(analysis),
+          prompt_version: prompt.version,
+          model: analysisModel.model,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw new Error(`Failed to save analysis to database: ${error.message}`);
+
+      const { error: updateError } = await supabaseServer
+        .from("tiktok_videos")
+        .update({
+          duration: Math.round(analysisWindow.sourceDuration),
+          analysis_window: analysisWindow,
+          media_signals: mediaSignals,
+          filmstrip,
+          content_hash: contentHash,
+          perceptual_hash: perceptualHash,
+        })
+        .eq("id", videoId);
+
+      if (updateError) throw updateError;
+      return data;
+    });
+
+    if (customCriteria && customCriteria.length > 0) {
+      await step.run("db: save rubric scores", () =>
+        saveCriterionScores(supabaseServer, savedAnalysis.id, criteria, customCriteria)
+      );
+    }
+
+    // Step 4: Workspaces may not keep videos once they're analyzed
+    await step.run("storage: apply media retention", () => applyMediaRetention([videoId]));
+
+    logDebug(`COMPLETED draft analysis for video: ${videoId}`);
+
     return {
       videoId,
       overallScore: analysis.overallScore,
@@ -346,6 +1400,156 @@ export const analyzeVideoHook = inngestClient.createFunction(
   }
 );
 
+// Queue a metrics refresh for recently published videos of active search terms
+export const scheduleVideoMetricsRefresh = inngestClient.createFunction(
+  {
+    id: "tiktok/schedule-metrics-refresh",
+  },
+  { cron: "0 */6 * * *" }, // Every 6 hours
+  async ({ step, logger }) => {
+    const dueVideos = await step.run("db: fetch videos due for refresh", async () => {
+      const refreshedBefore = new Date(Date.now() - METRICS_REFRESH_INTERVAL_MS).toISOString();
+      const publishedAfter = new Date(Date.now() - METRICS_REFRESH_MAX_AGE_MS).toISOString();
+
+      const { data, error } = await supabaseServer
+        .from("tiktok_videos")
+        .select(`
+          id,
+          video_url,
+          search_term_videos!inner (
+            search_terms!inner (
+              status
+            )
+          )
+        `)
+        .eq("search_term_videos.search_terms.status", "active")
+        .eq("is_draft", false)
+        .or(`metrics_refreshed_at.is.null,metrics_refreshed_at.lt.${refreshedBefore}`)
+        .or(`published_at.is.null,published_at.gt.${publishedAfter}`)
+        .order("metrics_refreshed_at", { ascending: true, nullsFirst: true })
+        .limit(500);
+
+      if (error) throw error;
+      return data.map(video => ({ id: video.id, videoUrl: video.video_url }));
+    });
+
+    if (dueVideos.length === 0) {
+      logger.info("No videos due for a metrics refresh");
+      return { videosQueued: 0 };
+    }
+
+    await step.run("inngest: queue metrics refreshes", async () => {
+      await inngestClient.send(
+        dueVideos.map(video => ({
+          name: "tiktok/refresh-video-metrics",
+          data: {
+            videoId: video.id,
+            videoUrl: video.videoUrl,
+          },
+        }))
+      );
+    });
+
+    logger.info(`Queued ${dueVideos.length} metrics refreshes`);
+    return { videosQueued: dueVideos.length };
+  }
+);
+
+export const refreshVideoMetrics = inngestClient.createFunction(
+  {
+    id: "tiktok/refresh-video-metrics",
+    concurrency: {
+      limit: 5, // Stay well under the video source's rate limit
+    },
+    retries: 2,
+  },
+  {
+    event: "tiktok/refresh-video-metrics",
+  },
+  async ({ event, step }) => {
+    const { videoId, videoUrl } = event.data;
+
+    const details = await step.run("tiktok: fetch video details", async () => {
+      const response = await tiktokApi.getVideoDetails(videoUrl);
+      if (response.code !== 0 || !response.data) {
+        throw new Error(`Failed to fetch video details: ${response.msg}`);
+      }
+      return response.data;
+    });
+
+    const capturedAt = new Date().toISOString();
+
+    await step.run("db: record metrics snapshot", async () => {
+      const { error } = await supabaseServer
+        .from("tiktok_video_metrics")
+        .insert({
+          video_id: videoId,
+          view_count: details.play_count,
+          like_count: details.digg_count,
+          share_count: details.share_count,
+          comment_count: details.comment_count,
+          collect_count: details.collect_count,
+          source: "refresh",
+          captured_at: capturedAt,
+        });
+
+      if (error) throw error;
+    });
+
+    const derived = await step.run("db: update derived metrics", async () => {
+      // Only snapshots within the longest growth window are needed
+      const since = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data: snapshots, error: snapshotsError } = await supabaseServer
+        .from("tiktok_video_metrics")
+        .select("view_count, captured_at")
+        .eq("video_id", videoId)
+        .gte("captured_at", since)
+        .order("captured_at", { ascending: true });
+
+      if (snapshotsError) throw snapshotsError;
+
+      const publishedAt = details.create_time ? new Date(details.create_time * 1000).toISOString() : null;
+      const metrics = computeDerivedMetrics(snapshots, publishedAt);
+
+      const { error } = await supabaseServer
+        .from("tiktok_videos")
+        .update({
+          published_at: publishedAt,
+          latest_view_count: details.play_count,
+          latest_like_count: details.digg_count,
+          latest_share_count: details.share_count,
+          latest_comment_count: details.comment_count,
+          views_per_hour: metrics.viewsPerHour,
+          view_growth_24h: metrics.viewGrowth24h,
+          view_growth_7d: metrics.viewGrowth7d,
+          metrics_refreshed_at: capturedAt,
+        })
+        .eq("id", videoId);
+
+      if (error) throw error;
+      return metrics;
+    });
+
+    return { videoId, viewCount: details.play_count, ...derived };
+  }
+);
+
+// Delete stored media past each workspace's retention, and objects no video references
+export const runStorageLifecycle = inngestClient.createFunction(
+  {
+    id: "tiktok/storage-lifecycle",
+  },
+  { cron: "45 * * * *" }, // Hourly, offset from the other schedules
+  async ({ step, logger }) => {
+    const expired = await step.run("storage: delete expired media", () => applyMediaRetention());
+    const orphansDeleted = await step.run("storage: delete orphaned objects", () => deleteOrphanedMedia());
+
+    logger.info(`Deleted ${expired.objects} objects of ${expired.videos} videos past retention and ${orphansDeleted} orphaned objects`);
+    return { expiredVideos: expired.videos, expiredObjects: expired.objects, orphansDeleted };
+  }
+);
+
 // Generate daily trend analysis
 export const generateTrendAnalysis = inngestClient.createFunction(
   {
@@ -362,8 +1566,9 @@ export const generateTrendAnalysis = inngestClient.createFunction(
 
     logger.info(`Generating trend analysis for date: ${analysisDate}`);
 
-    // Step 1: Get all hook analyses from the specified date
+    // Step 1: Get all hook analyses from the specified date, made with the active prompt
     const hookAnalyses = await step.run("db: fetch hook analyses", async () => {
+      const activePrompt = await getActivePromptVersion(supabaseServer);
       const startDate = new Date(analysisDate);
       const endDate = new Date(startDate);
       endDate.setDate(endDate.getDate() + 1);
@@ -379,11 +1584,15 @@ export const generateTrendAnalysis = inngestClient.createFunction(
             like_count,
             share_count,
             comment_count,
-            search_terms!inner (
-              term
+            search_term_videos!inner (
+              search_terms!inner (
+                term
+              )
             )
           )
         `)
+        .eq("prompt_version", activePrompt.version)
+        .eq("tiktok_videos.is_draft", false)
         .gte("processed_at", startDate.toISOString())
         .lt("processed_at", endDate.toISOString());
 
@@ -396,14 +1605,28 @@ export const generateTrendAnalysis = inngestClient.createFunction(
       return { message: "No data to analyze" };
     }
 
-    // Step 2: Analyze trends with Gemini
+    // Step 2: Analyze trends with the analysis model
     const trendAnalysis = await step.run("gemini: analyze trends", async () => {
       const analyses = hookAnalyses.map(h => h.analysis_result as unknown as HookAnalysisResult);
-      const result = await geminiClient.analyzeTrends(analyses);
-      logger.info(`Trend analysis completed with ${result.commonPhrases.length} common phrases`);
-      return result;
+      try {
+        const result = await analysisModel.analyzeTrends(analyses);
+        logger.info(`Trend analysis completed with ${result.commonPhrases.length} common phrases`);
+        return result;
+      } catch (error) {
+        if (error instanceof AnalysisValidationError) return { validationErrors: error.issues };
+        throw error;
+      }
     });
 
+    if ("validationErrors" in trendAnalysis) {
+      logger.warn(`Trend analysis for ${analysisDate} failed validation: ${trendAnalysis.validationErrors.join("; ")}`);
+      return {
+        date: analysisDate,
+        videosAnalyzed: hookAnalyses.length,
+        validationErrors: trendAnalysis.validationErrors,
+      };
+    }
+
     // Step 3: Save trend analysis to database
     await step.run("db: save trend analysis", async () => {
       const { error } = await supabaseServer
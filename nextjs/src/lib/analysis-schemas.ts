@@ -0,0 +1,267 @@
+import { z } from "zod";
+import type {
+  HookAnalysisResult,
+  HookScriptAnalysis,
+  HookRewriteVariant,
+  HookTrendAnalysis,
+  HookSuggestions,
+} from "@/lib/clients/gemini";
+import type { CustomCriterionScore, RubricCriterion } from "@/lib/rubric-criteria";
+import { HOOK_TIMELINE_EVENT_TYPES, normalizeTimelineEventType } from "@/lib/hook-timeline";
+
+/**
+ * Schemas for the analysis model's structured output. They coerce the common
+ * ways a model drifts from the requested format (numbers as strings, scores on
+ * the wrong scale, a string where a list belongs, missing lists) and reject
+ * what can't be coerced, so nothing malformed reaches hook_analysis.
+ */
+
+function toNumber(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  // "8", "8/10", "85%" and " 7.5 " all carry a usable number
+  const parsed = parseFloat(value.trim());
+  return Number.isNaN(parsed) ? value : parsed;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// A 1-10 rating; ratings given out of 100 are scaled down
+const tenPointScore = z.preprocess((value) => {
+  const number = toNumber(value);
+  if (typeof number !== "number") return number;
+  return round(number > 10 && number <= 100 ? number / 10 : number, 1);
+}, z.number().min(0).max(10));
+
+// A 1-100 score; scores given out of 10 are scaled up
+const hundredPointScore = z.preprocess((value) => {
+  const number = toNumber(value);
+  if (typeof number !== "number") return number;
+  return Math.round(number > 0 && number <= 10 ? number * 10 : number);
+}, z.number().min(0).max(100));
+
+const count = z.preprocess((value) => {
+  const number = toNumber(value);
+  return typeof number === "number" ? Math.round(number) : number;
+}, z.number().int().min(0));
+
+const text = z.preprocess(
+  (value) => (value === null ? "" : typeof value === "number" || typeof value === "boolean" ? String(value) : value),
+  z.string()
+).default("");
+
+// A list of strings; a single string becomes a one-item list and blanks are dropped
+const textList = z.preprocess((value) => {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map(item => (typeof item === "number" ? String(item) : item))
+    .filter(item => typeof item !== "string" || item.trim() !== "");
+}, z.array(z.string()));
+
+// Seconds from the start of the video; "1.5s" and "0:02" are accepted too
+const seconds = z.preprocess((value) => {
+  const minutesSeconds = typeof value === "string" ? value.trim().match(/^(\d+):(\d+(?:\.\d+)?)$/) : null;
+  if (minutesSeconds) return Number(minutesSeconds[1]) * 60 + Number(minutesSeconds[2]);
+  const number = toNumber(value);
+  return typeof number === "number" ? round(number, 1) : number;
+}, z.number().min(0));
+
+const timelineEventSchema = z
+  .object({
+    type: z.preprocess(
+      (value) => (typeof value === "string" ? normalizeTimelineEventType(value) ?? value : value),
+      z.enum(HOOK_TIMELINE_EVENT_TYPES)
+    ),
+    start: seconds,
+    end: seconds,
+    description: text,
+  })
+  .transform((event) => (event.end < event.start ? { ...event, end: event.start } : event));
+
+// Events of a type we don't track are dropped rather than failing the analysis
+const timelineSchema = z
+  .preprocess((value) => {
+    if (!Array.isArray(value)) return value;
+    return value.filter(item => typeof item?.type !== "string" || normalizeTimelineEventType(item.type) !== null);
+  }, z.array(timelineEventSchema))
+  .transform((events) => [...events].sort((a, b) => a.start - b.start));
+
+const openingLinesSchema = z.object({
+  transcript: text,
+  effectiveness: tenPointScore,
+  techniques: textList,
+  emotional_impact: text,
+});
+
+const engagementTacticsSchema = z.object({
+  hook_type: text,
+  curiosity_gaps: textList,
+  social_proof: textList,
+  urgency_indicators: textList,
+  call_to_action: text,
+});
+
+export const hookAnalysisResultSchema = z.object({
+  openingLines: openingLinesSchema,
+  visualElements: z.object({
+    opening_shot: text,
+    visual_hooks: textList,
+    color_palette: textList,
+    text_overlays: textList,
+    transitions: textList,
+  }),
+  engagementTactics: engagementTacticsSchema,
+  overallScore: hundredPointScore,
+  recommendations: textList,
+  summary: text,
+  // Only prompts from version 2 ask for a timeline
+  timeline: timelineSchema.optional(),
+}) satisfies z.ZodType<HookAnalysisResult, z.ZodTypeDef, unknown>;
+
+// Rubric criteria are asked for under short keys (c1, c2, ...) in the order given
+export function rubricCriterionKey(index: number): string {
+  return `c${index + 1}`;
+}
+
+const criterionScoreSchema = z.object({
+  key: z.string(),
+  score: z.preprocess(toNumber, z.number()),
+  rationale: text,
+});
+
+/**
+ * A video analysis that also scores each rubric criterion. A criterion that is
+ * missing or scored off its scale fails validation, so the repair request asks
+ * for it; the result carries a snapshot of each criterion with its score.
+ */
+export function hookAnalysisWithCriteriaSchema(
+  criteria: RubricCriterion[]
+): z.ZodType<HookAnalysisResult, z.ZodTypeDef, unknown> {
+  return hookAnalysisResultSchema
+    .extend({ customCriteria: z.array(criterionScoreSchema) })
+    .superRefine((result, ctx) => {
+      criteria.forEach((criterion, index) => {
+        const key = rubricCriterionKey(index);
+        const scoredIndex = result.customCriteria.findIndex(item => item.key === key);
+        const scored = result.customCriteria[scoredIndex];
+        if (!scored) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customCriteria"], message: `no score for ${key}` });
+        } else if (scored.score < criterion.scaleMin || scored.score > criterion.scaleMax) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["customCriteria", scoredIndex, "score"],
+            message: `${key} must be between ${criterion.scaleMin} and ${criterion.scaleMax}`,
+          });
+        }
+      });
+    })
+    .transform(({ customCriteria, ...result }) => ({
+      ...result,
+      customCriteria: criteria.map((criterion, index): CustomCriterionScore => {
+        const scored = customCriteria.find(item => item.key === rubricCriterionKey(index));
+        return {
+          criterionId: criterion.id,
+          name: criterion.name,
+          scaleMin: criterion.scaleMin,
+          scaleMax: criterion.scaleMax,
+          score: round(scored?.score ?? criterion.scaleMin, 1),
+          rationale: scored?.rationale ?? "",
+        };
+      }),
+    }));
+}
+
+export const hookScriptAnalysisSchema: z.ZodType<HookScriptAnalysis, z.ZodTypeDef, unknown> = z.object({
+  openingLines: openingLinesSchema,
+  engagementTactics: engagementTacticsSchema,
+});
+
+export const hookRewriteSchema: z.ZodType<{ variants: HookRewriteVariant[] }, z.ZodTypeDef, unknown> = z.object({
+  variants: z.array(z.object({
+    transcript: z.string().trim().min(1),
+    rationale: text,
+  })).min(1),
+});
+
+export const hookTrendAnalysisSchema: z.ZodType<HookTrendAnalysis, z.ZodTypeDef, unknown> = z.object({
+  commonPhrases: z.array(z.object({ phrase: z.string(), count, effectiveness: tenPointScore })).default([]),
+  visualThemes: z.array(z.object({ theme: z.string(), count, avgScore: tenPointScore })).default([]),
+  engagementPatterns: z.array(z.object({ pattern: z.string(), count, avgScore: tenPointScore })).default([]),
+  recommendations: textList,
+  summary: text,
+});
+
+export const hookSuggestionsSchema: z.ZodType<HookSuggestions, z.ZodTypeDef, unknown> = z.object({
+  suggestions: textList.pipe(z.array(z.string()).min(1)),
+  rationale: text,
+  examples: textList,
+});
+
+// The JSON-schema subset accepted by both Gemini's responseSchema and OpenAI's json_schema response format
+export interface ResponseSchema {
+  type: "object" | "array" | "string" | "number" | "integer";
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  format?: "enum";
+  enum?: string[];
+}
+
+/**
+ * The JSON schema a model is asked to answer in. Every field is required there,
+ * even where parsing would fill in a default, except optional ones.
+ */
+export function toResponseSchema(schema: z.ZodTypeAny): ResponseSchema {
+  if (schema instanceof z.ZodEffects) return toResponseSchema(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return toResponseSchema(schema._def.out);
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return toResponseSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toResponseSchema(value)])),
+      required: Object.keys(shape).filter(key => !(shape[key] instanceof z.ZodOptional)),
+    };
+  }
+  if (schema instanceof z.ZodArray) return { type: "array", items: toResponseSchema(schema.element) };
+  if (schema instanceof z.ZodNumber) return { type: schema.isInt ? "integer" : "number" };
+  if (schema instanceof z.ZodString) return { type: "string" };
+  if (schema instanceof z.ZodEnum) return { type: "string", format: "enum", enum: [...schema.options] };
+  throw new Error(`Unsupported schema type for structured output: ${schema._def.typeName}`);
+}
+
+export type ParsedModelOutput<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Parse a model's reply against a schema. The JSON may be wrapped in prose or a
+ * code fence; every problem is reported as "path: message".
+ */
+export function parseModelOutput<T>(
+  reply: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): ParsedModelOutput<T> {
+  const jsonMatch = reply.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return { success: false, issues: ["response contains no JSON object"] };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    return { success: false, issues: [`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+  };
+}
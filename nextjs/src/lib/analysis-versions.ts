@@ -0,0 +1,39 @@
+import type { HookAnalysisResult } from "@/lib/clients/gemini";
+
+/**
+ * How an analysis made with one prompt version differs from another analysis of
+ * the same video. Shared by the tRPC router and the version comparison view.
+ */
+export interface AnalysisVersionChanges {
+  overallScoreDelta: number;
+  effectivenessDelta: number;
+  hookType: { from: string; to: string } | null;
+  emotionalImpact: { from: string; to: string } | null;
+  techniquesAdded: string[];
+  techniquesRemoved: string[];
+}
+
+function normalizeLabel(label: string | undefined): string {
+  return (label || "").trim().toLowerCase();
+}
+
+function labelChange(from: string | undefined, to: string | undefined): { from: string; to: string } | null {
+  return normalizeLabel(from) === normalizeLabel(to) ? null : { from: from || "", to: to || "" };
+}
+
+export function compareAnalyses(baseline: HookAnalysisResult, other: HookAnalysisResult): AnalysisVersionChanges {
+  const baselineTechniques = new Set((baseline.openingLines?.techniques || []).map(normalizeLabel));
+  const otherTechniques = new Set((other.openingLines?.techniques || []).map(normalizeLabel));
+
+  return {
+    overallScoreDelta: (other.overallScore || 0) - (baseline.overallScore || 0),
+    effectivenessDelta: Math.round(((other.openingLines?.effectiveness || 0) - (baseline.openingLines?.effectiveness || 0)) * 10) / 10,
+    hookType: labelChange(baseline.engagementTactics?.hook_type, other.engagementTactics?.hook_type),
+    emotionalImpact: labelChange(baseline.openingLines?.emotional_impact, other.openingLines?.emotional_impact),
+    techniquesAdded: Array.from(otherTechniques).filter(technique => technique && !baselineTechniques.has(technique)),
+    techniquesRemoved: Array.from(baselineTechniques).filter(technique => technique && !otherTechniques.has(technique)),
+  };
+}
+
+// Videos queued by one "re-analyze with version X" action
+export const MAX_REANALYSIS_VIDEOS = 500;
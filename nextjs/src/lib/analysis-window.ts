@@ -0,0 +1,89 @@
+/**
+ * Which part of a video is sent to Gemini. The hook (the first few seconds) is kept at
+ * full frame rate; the rest, up to maxSeconds, is kept at a low frame rate for context.
+ */
+export interface AnalysisWindowOptions {
+  hookSeconds: number;
+  remainderFps: number | null; // null: send the hook only
+  maxSeconds: number;
+  maxShortSide: number; // pixels; e.g. 720 scales a 1080x1920 video to 720x1280
+  videoBitrateKbps: number; // upper bound, so payload size is at most bitrate x duration
+  audioBitrateKbps: number;
+}
+
+export const DEFAULT_ANALYSIS_WINDOW: AnalysisWindowOptions = {
+  hookSeconds: 8,
+  remainderFps: 1,
+  maxSeconds: 180,
+  maxShortSide: 720,
+  videoBitrateKbps: 1000,
+  audioBitrateKbps: 64,
+};
+
+// The time range that was actually analyzed, stored with the video so the UI can show it
+export interface AnalysisWindow {
+  start: number; // seconds
+  end: number;
+  hookEnd: number; // full frame rate up to here
+  remainderFps: number | null; // frame rate from hookEnd to end
+  sourceDuration: number;
+}
+
+// Env overrides: ANALYSIS_HOOK_SECONDS, ANALYSIS_REMAINDER_FPS (0 disables the remainder), ANALYSIS_MAX_SECONDS
+export function analysisWindowOptionsFromEnv(env: Record<string, string | undefined> = process.env): AnalysisWindowOptions {
+  const readNumber = (value: string | undefined, fallback: number | null) => {
+    if (value === undefined || value.trim() === "") return fallback;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  const remainderFps = readNumber(env.ANALYSIS_REMAINDER_FPS, DEFAULT_ANALYSIS_WINDOW.remainderFps);
+
+  return {
+    ...DEFAULT_ANALYSIS_WINDOW,
+    hookSeconds: readNumber(env.ANALYSIS_HOOK_SECONDS, DEFAULT_ANALYSIS_WINDOW.hookSeconds) || DEFAULT_ANALYSIS_WINDOW.hookSeconds,
+    remainderFps: remainderFps || null,
+    maxSeconds: readNumber(env.ANALYSIS_MAX_SECONDS, DEFAULT_ANALYSIS_WINDOW.maxSeconds) || DEFAULT_ANALYSIS_WINDOW.maxSeconds,
+  };
+}
+
+/**
+ * Pick the range to analyze for a video of the given duration, shortening the
+ * low-fps remainder if the worst-case encoded size would exceed maxBytes
+ */
+export function planAnalysisWindow(
+  sourceDuration: number,
+  options: AnalysisWindowOptions,
+  maxBytes: number
+): AnalysisWindow {
+  const bytesPerSecond = ((options.videoBitrateKbps + options.audioBitrateKbps) * 1000) / 8;
+  const maxDurationForSize = maxBytes / bytesPerSecond;
+
+  const hookEnd = Math.min(sourceDuration, options.hookSeconds, maxDurationForSize);
+  const end = options.remainderFps
+    ? Math.max(hookEnd, Math.min(sourceDuration, options.maxSeconds, maxDurationForSize))
+    : hookEnd;
+
+  return {
+    start: 0,
+    end,
+    hookEnd,
+    remainderFps: end > hookEnd ? options.remainderFps : null,
+    sourceDuration,
+  };
+}
+
+// 83 -> "1:23"
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// e.g. "0:00-0:08 at full frame rate, 0:08-0:45 at 1 fps (of 1:10)"
+export function describeAnalysisWindow(window: AnalysisWindow): string {
+  const parts = [`${formatTimestamp(window.start)}-${formatTimestamp(window.hookEnd)} at full frame rate`];
+  if (window.remainderFps && window.end > window.hookEnd) {
+    parts.push(`${formatTimestamp(window.hookEnd)}-${formatTimestamp(window.end)} at ${window.remainderFps} fps`);
+  }
+  return `${parts.join(", ")} (of ${formatTimestamp(window.sourceDuration)})`;
+}
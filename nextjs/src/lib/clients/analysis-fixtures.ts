@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { BaseAnalysisModelProvider, ModelRequest } from "@/lib/clients/analysis-model";
+import { logDebug } from "@/lib/debug-logger";
+
+/*
+Fixture layout (relative to ANALYSIS_FIXTURES_DIR):
+
+  <operation>/<input-hash>.json   recorded model response for that exact input
+  <operation>/_default.json       used when no response was recorded for the input
+
+The input hash covers the operation, the prompt and the video bytes, so a
+recording is replayed only for the same request, whichever model produced it.
+*/
+
+const DEFAULT_FIXTURE_KEY = "_default";
+
+export interface AnalysisFixture {
+  operation: ModelRequest["operation"];
+  provider: string;
+  model: string;
+  text: string;
+}
+
+export function getAnalysisFixturesDir(): string {
+  return process.env.ANALYSIS_FIXTURES_DIR || join(process.cwd(), "fixtures", "analysis");
+}
+
+export function analysisInputHash(request: ModelRequest): string {
+  const hash = createHash("sha256")
+    .update(request.operation)
+    .update("\0")
+    .update(request.prompt);
+
+  if (request.video) {
+    hash.update("\0").update(createHash("sha256").update(request.video).digest("hex"));
+  }
+
+  return hash.digest("hex");
+}
+
+export function analysisFixturePath(request: ModelRequest, fixturesDir = getAnalysisFixturesDir()): string {
+  return join(fixturesDir, request.operation, `${analysisInputHash(request)}.json`);
+}
+
+/**
+ * Persist a live model response so it can be replayed later by FixtureAnalysisModel.
+ */
+export async function recordAnalysisFixture(request: ModelRequest, fixture: AnalysisFixture): Promise<void> {
+  const path = analysisFixturePath(request);
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(fixture, null, 2));
+    logDebug(`[Fixtures] Recorded analysis fixture: ${path}`);
+  } catch (error) {
+    console.error(`Failed to record analysis fixture ${path}:`, error);
+  }
+}
+
+async function readFixtureIfExists(path: string): Promise<AnalysisFixture | null> {
+  try {
+    const contents = await readFile(path, "utf-8");
+    return JSON.parse(contents) as AnalysisFixture;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw new Error(`Failed to read fixture ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Offline analysis model that replays recorded responses from disk.
+ */
+export class FixtureAnalysisModel extends BaseAnalysisModelProvider {
+  readonly name = "fixtures";
+  readonly model = "replay";
+
+  constructor(private readonly fixturesDir: string = getAnalysisFixturesDir()) {
+    super();
+  }
+
+  protected async generate(request: ModelRequest): Promise<string> {
+    const inputPath = analysisFixturePath(request, this.fixturesDir);
+    const defaultPath = join(this.fixturesDir, request.operation, `${DEFAULT_FIXTURE_KEY}.json`);
+
+    logDebug(`[Fixtures] Replaying ${request.operation} ${analysisInputHash(request)}`);
+
+    const fixture =
+      (await readFixtureIfExists(inputPath)) ??
+      (await readFixtureIfExists(defaultPath));
+
+    if (!fixture) {
+      throw new Error(`No ${request.operation} fixture found for input ${analysisInputHash(request)} in ${this.fixturesDir}`);
+    }
+
+    return fixture.text;
+  }
+}
@@ -0,0 +1,410 @@
+import type {
+  HookAnalysisResult,
+  HookScriptAnalysis,
+  HookScriptInput,
+  HookRewriteTarget,
+  HookRewriteVariant,
+  HookTrendAnalysis,
+  HookSuggestions,
+} from "@/lib/clients/gemini";
+import { z } from "zod";
+import {
+  hookAnalysisResultSchema,
+  hookAnalysisWithCriteriaSchema,
+  hookScriptAnalysisSchema,
+  hookRewriteSchema,
+  hookTrendAnalysisSchema,
+  hookSuggestionsSchema,
+  parseModelOutput,
+  ResponseSchema,
+  rubricCriterionKey,
+  toResponseSchema,
+} from "@/lib/analysis-schemas";
+import type { RubricCriterion } from "@/lib/rubric-criteria";
+
+export type AnalysisOperation =
+  | "analyzeVideoHook"
+  | "analyzeHookScript"
+  | "rewriteHook"
+  | "analyzeTrends"
+  | "generateHookSuggestions";
+
+// A single model call: the prompt, for video analysis the base64-encoded mp4, and
+// the JSON schema to constrain the reply to where the model supports it
+export interface ModelRequest {
+  operation: AnalysisOperation;
+  prompt: string;
+  video?: string;
+  responseSchema?: ResponseSchema;
+}
+
+// The model's reply still didn't match the schema after a repair attempt
+export class AnalysisValidationError extends Error {
+  readonly operation: AnalysisOperation;
+  readonly issues: string[];
+
+  constructor(operation: AnalysisOperation, issues: string[]) {
+    super(`Invalid ${operation} response: ${issues.join('; ')}`);
+    this.name = 'AnalysisValidationError';
+    this.operation = operation;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A model that analyzes hooks. Gemini is the production implementation; the
+ * OpenAI-compatible provider talks to any /chat/completions server (including a
+ * local one), and the fixture provider replays recorded responses from disk so
+ * the analysis jobs can run without network.
+ */
+export interface AnalysisModelProvider {
+  readonly name: string;
+  readonly model: string;
+
+  // The prompt is a template from hook_prompt_versions, so analyses record which one they used.
+  // Rubric criteria are appended to it and scored in the result's customCriteria.
+  analyzeVideoHook(base64Video: string, prompt: string, criteria?: RubricCriterion[]): Promise<HookAnalysisResult>;
+
+  analyzeHookScript(input: HookScriptInput): Promise<HookScriptAnalysis>;
+
+  rewriteHook(transcript: string, target: HookRewriteTarget, count: number): Promise<HookRewriteVariant[]>;
+
+  analyzeTrends(hookAnalyses: HookAnalysisResult[]): Promise<HookTrendAnalysis>;
+
+  generateHookSuggestions(searchTerm: string, analysisResults: HookAnalysisResult[]): Promise<HookSuggestions>;
+}
+
+/**
+ * Shared prompts, schema-validated response parsing and rate-limit retries. Implementations only
+ * need to send a prompt (and optionally a video) and return the model's text.
+ */
+export abstract class BaseAnalysisModelProvider implements AnalysisModelProvider {
+  abstract readonly name: string;
+  abstract readonly model: string;
+
+  protected readonly MAX_RETRIES = 5;
+  protected readonly INITIAL_RETRY_DELAY = 1000; // 1 second
+
+  protected abstract generate(request: ModelRequest): Promise<string>;
+
+  /**
+   * Sleep utility for retry delays
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Check if error is a rate limit error
+   */
+  private isRateLimitError(error: any): boolean {
+    const errorMessage = error?.message?.toLowerCase() || '';
+    const errorString = String(error).toLowerCase();
+
+    return (
+      errorMessage.includes('rate limit') ||
+      errorMessage.includes('quota exceeded') ||
+      errorMessage.includes('too many requests') ||
+      errorMessage.includes('resource exhausted') ||
+      errorString.includes('429') ||
+      error?.status === 429 ||
+      error?.code === 429
+    );
+  }
+
+  /**
+   * Retry a function with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    context: string
+  ): Promise<T> {
+    let lastError: any;
+
+    for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        lastError = error;
+
+        // Check if it's a rate limit error
+        if (this.isRateLimitError(error)) {
+          const delay = this.INITIAL_RETRY_DELAY * Math.pow(2, attempt);
+          const jitter = Math.random() * 1000; // Add jitter to prevent thundering herd
+          const totalDelay = delay + jitter;
+
+          console.warn(
+            `Rate limit hit for ${context}. Attempt ${attempt + 1}/${this.MAX_RETRIES}. ` +
+            `Retrying in ${Math.round(totalDelay)}ms...`
+          );
+
+          await this.sleep(totalDelay);
+          continue;
+        }
+
+        // If it's not a rate limit error, throw immediately
+        throw error;
+      }
+    }
+
+    // All retries exhausted
+    console.error(`All ${this.MAX_RETRIES} retry attempts exhausted for ${context}`);
+    throw lastError;
+  }
+
+  /**
+   * Ask for a reply matching the schema and parse it. A reply that doesn't match
+   * gets one repair request, without the video, listing what was wrong with it.
+   */
+  private async generateStructured<T>(
+    request: ModelRequest,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): Promise<T> {
+    const responseSchema = toResponseSchema(schema);
+    const reply = await this.generate({ ...request, responseSchema });
+
+    const parsed = parseModelOutput(reply, schema);
+    if (parsed.success) return parsed.data;
+
+    console.warn(`${this.name} ${request.operation} response failed validation, requesting a repair:`, parsed.issues);
+
+    const repairedReply = await this.generate({
+      operation: request.operation,
+      prompt: this.getRepairPrompt(reply, parsed.issues, responseSchema),
+      responseSchema,
+    });
+
+    const repaired = parseModelOutput(repairedReply, schema);
+    if (repaired.success) return repaired.data;
+
+    console.error(`${this.name} ${request.operation} repair failed validation:`, repaired.issues);
+    throw new AnalysisValidationError(request.operation, repaired.issues);
+  }
+
+  private getRepairPrompt(reply: string, issues: string[], responseSchema: ResponseSchema): string {
+    return `
+Your previous response did not match the required JSON format.
+
+Previous response:
+"""${reply}"""
+
+Problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the same analysis as a single JSON object matching this JSON schema, with no other text. Ratings named "effectiveness" or "avgScore" are on a 1-10 scale and "overallScore" is on a 1-100 scale; all of them are numbers. Timeline start and end times are numbers of seconds from the start of the video.
+
+${JSON.stringify(responseSchema, null, 2)}
+`;
+  }
+
+  private getRubricPrompt(criteria: RubricCriterion[]): string {
+    return `
+Also score the hook against each of these custom criteria, on the scale given for it:
+
+${criteria.map((criterion, index) => `- ${rubricCriterionKey(index)}: ${criterion.name} (${criterion.scaleMin}-${criterion.scaleMax})${criterion.description ? ` - ${criterion.description}` : ''}`).join('\n')}
+
+Add them to the JSON as:
+
+"customCriteria": [
+  { "key": "${rubricCriterionKey(0)}", "score": <a number on its scale>, "rationale": "what in the hook earned this score" }
+]
+
+with one entry per criterion, using its key.
+`;
+  }
+
+  async analyzeVideoHook(base64Video: string, prompt: string, criteria: RubricCriterion[] = []): Promise<HookAnalysisResult> {
+    return this.retryWithBackoff(async () => {
+      try {
+        return await this.generateStructured({
+          operation: 'analyzeVideoHook',
+          prompt: criteria.length > 0 ? prompt + this.getRubricPrompt(criteria) : prompt,
+          video: base64Video,
+        }, criteria.length > 0 ? hookAnalysisWithCriteriaSchema(criteria) : hookAnalysisResultSchema);
+      } catch (error) {
+        console.error(`Error analyzing video with ${this.name}:`, error);
+        if (error instanceof AnalysisValidationError) throw error;
+        if (error instanceof Error) {
+          // Preserve original error message
+          throw new Error(`Failed to analyze video hook: ${error.message}`);
+        }
+        throw new Error('Failed to analyze video hook: Unknown error');
+      }
+    }, 'analyzeVideoHook');
+  }
+
+  async analyzeHookScript(input: HookScriptInput): Promise<HookScriptAnalysis> {
+    return this.retryWithBackoff(async () => {
+      try {
+        const prompt = `
+You are an expert TikTok hook analyzer. A creator has written the opening of a video they have not filmed yet. Analyze the hook from the script alone, the same way you would analyze the first 3-5 seconds of a finished video.
+
+Opening-line script:
+"""${input.script}"""
+${input.onScreenText ? `
+Planned on-screen text:
+"""${input.onScreenText}"""
+` : ''}${input.visualNotes ? `
+Planned visuals:
+"""${input.visualNotes}"""
+` : ''}
+Provide your analysis in the following JSON format:
+
+{
+  "openingLines": {
+    "transcript": "the opening line as it would be spoken",
+    "effectiveness": 8,
+    "techniques": ["question", "bold statement", "contradiction", etc.],
+    "emotional_impact": "curiosity/surprise/urgency/etc."
+  },
+  "engagementTactics": {
+    "hook_type": "question/statement/teaser/shock/etc.",
+    "curiosity_gaps": ["specific gaps that make viewers want to continue"],
+    "social_proof": ["follower counts", "testimonials", etc.],
+    "urgency_indicators": ["time-sensitive language", "scarcity", etc.],
+    "call_to_action": "what action is the viewer encouraged to take"
+  }
+}
+
+Rate effectiveness on a scale of 1-10 where:
+- 1-3: Poor hook, likely to be scrolled past
+- 4-6: Average hook, some engagement
+- 7-8: Good hook, likely to retain viewers
+- 9-10: Excellent hook, highly engaging
+`;
+
+        return await this.generateStructured({ operation: 'analyzeHookScript', prompt }, hookScriptAnalysisSchema);
+      } catch (error) {
+        console.error(`Error analyzing hook script with ${this.name}:`, error);
+        if (error instanceof AnalysisValidationError) throw error;
+        if (error instanceof Error) {
+          throw new Error(`Failed to analyze hook script: ${error.message}`);
+        }
+        throw new Error('Failed to analyze hook script: Unknown error');
+      }
+    }, 'analyzeHookScript');
+  }
+
+  async rewriteHook(transcript: string, target: HookRewriteTarget, count: number): Promise<HookRewriteVariant[]> {
+    return this.retryWithBackoff(async () => {
+      try {
+        const prompt = `
+Rewrite the following TikTok hook (the opening line of a video) ${count} different ways so it adopts what the best-performing videos in this niche do.
+
+Original hook:
+"${transcript}"
+
+The best-performing hooks in this niche:
+- Hook types: ${target.hookTypes.join(', ') || 'no clear pattern'}
+- Common techniques: ${target.techniques.join(', ') || 'no clear pattern'}
+${target.featureNotes.map(note => `- ${note}`).join('\n')}
+
+Keep the topic and the promise of the original hook. Each rewrite must be a single spoken opening line, short enough to say in about three seconds.
+
+Provide the rewrites in the following JSON format:
+
+{
+  "variants": [
+    {
+      "transcript": "the rewritten opening line",
+      "rationale": "which of the niche's techniques or hook types this rewrite adopts"
+    }
+  ]
+}
+`;
+
+        const parsed = await this.generateStructured({ operation: 'rewriteHook', prompt }, hookRewriteSchema);
+        return parsed.variants.slice(0, count);
+      } catch (error) {
+        console.error(`Error rewriting hook with ${this.name}:`, error);
+        if (error instanceof AnalysisValidationError) throw error;
+        if (error instanceof Error) {
+          throw new Error(`Failed to rewrite hook: ${error.message}`);
+        }
+        throw new Error('Failed to rewrite hook: Unknown error');
+      }
+    }, 'rewriteHook');
+  }
+
+  async analyzeTrends(hookAnalyses: HookAnalysisResult[]): Promise<HookTrendAnalysis> {
+    return this.retryWithBackoff(async () => {
+      try {
+        const prompt = `
+Analyze the following TikTok hook analysis results and identify trends:
+
+${JSON.stringify(hookAnalyses, null, 2)}
+
+Provide a comprehensive trend analysis in the following JSON format:
+
+{
+  "commonPhrases": [
+    { "phrase": "most common opening phrase", "count": 5, "effectiveness": 7.2 }
+  ],
+  "visualThemes": [
+    { "theme": "fast cuts", "count": 8, "avgScore": 8.1 }
+  ],
+  "engagementPatterns": [
+    { "pattern": "question hooks", "count": 12, "avgScore": 7.8 }
+  ],
+  "recommendations": [
+    "specific recommendations based on trends"
+  ],
+  "summary": "key insights about what makes hooks effective"
+}
+
+Focus on:
+1. Most frequently used opening phrases and their effectiveness
+2. Visual techniques that appear most often and their performance
+3. Engagement tactics that correlate with higher scores
+4. Patterns in high-performing vs low-performing hooks
+5. Actionable recommendations for creators
+`;
+
+        return await this.generateStructured({ operation: 'analyzeTrends', prompt }, hookTrendAnalysisSchema);
+      } catch (error) {
+        console.error(`Error analyzing trends with ${this.name}:`, error);
+        if (error instanceof AnalysisValidationError) throw error;
+        throw new Error('Failed to analyze hook trends');
+      }
+    }, 'analyzeTrends');
+  }
+
+  async generateHookSuggestions(searchTerm: string, analysisResults: HookAnalysisResult[]): Promise<HookSuggestions> {
+    return this.retryWithBackoff(async () => {
+      try {
+        const prompt = `
+Based on the analysis of TikTok videos for the search term "${searchTerm}", generate hook suggestions.
+
+Analysis data:
+${JSON.stringify(analysisResults.slice(0, 10), null, 2)}
+
+Provide hook suggestions in the following JSON format:
+
+{
+  "suggestions": [
+    "specific hook ideas for the topic",
+    "opening lines that would work well",
+    "visual techniques to use"
+  ],
+  "rationale": "explanation of why these suggestions work",
+  "examples": [
+    "example opening lines or visual concepts"
+  ]
+}
+
+Focus on:
+1. What works best for this specific topic/niche
+2. Gaps in current content that could be exploited
+3. Proven techniques from high-performing videos
+4. Fresh approaches that haven't been overused
+`;
+
+        return await this.generateStructured({ operation: 'generateHookSuggestions', prompt }, hookSuggestionsSchema);
+      } catch (error) {
+        console.error('Error generating hook suggestions:', error);
+        if (error instanceof AnalysisValidationError) throw error;
+        throw new Error('Failed to generate hook suggestions');
+      }
+    }, 'generateHookSuggestions');
+  }
+}
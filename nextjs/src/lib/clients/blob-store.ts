@@ -0,0 +1,119 @@
+import { Readable } from 'stream';
+import { readFile } from 'fs/promises';
+import crypto from 'crypto';
+
+export interface BlobPutOptions {
+  contentType: string;
+}
+
+export interface BlobPutResult {
+  key: string;
+  size: number;
+  publicUrl: string;
+}
+
+export interface BlobHead {
+  key: string;
+  size: number;
+  contentType: string | null;
+  lastModified: Date | null;
+}
+
+export interface SignedUrlOptions {
+  method?: 'GET' | 'PUT'; // PUT lets the holder upload to the key, e.g. a browser uploading a draft
+  expiresIn?: number; // seconds
+  contentType?: string; // for PUT: the content type the upload must be sent with
+}
+
+/**
+ * Where videos, filmstrips and mirrored images are stored. Supabase Storage is the
+ * default; the S3 driver covers R2 and MinIO, and the local driver a plain directory.
+ * Keys are paths relative to the bucket, e.g. videos/<timestamp>-<uuid>.mp4.
+ */
+export interface BlobStore {
+  readonly driver: string;
+
+  // Writes overwrite any existing object at the key
+  put(key: string, body: Buffer, options: BlobPutOptions): Promise<BlobPutResult>;
+
+  putFile(key: string, filePath: string, options: BlobPutOptions): Promise<BlobPutResult>;
+
+  getStream(key: string): Promise<Readable>;
+
+  getBuffer(key: string): Promise<Buffer>;
+
+  delete(keys: string[]): Promise<void>;
+
+  // null when there is no object at the key
+  head(key: string): Promise<BlobHead | null>;
+
+  // Every object under a folder, including nested folders, e.g. list("filmstrips")
+  list(prefix: string): Promise<BlobHead[]>;
+
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+
+  // Signed GET URLs for many keys at once; keys that can't be signed are left out
+  signedUrls(keys: string[], expiresIn?: number): Promise<Map<string, string>>;
+
+  // Unsigned address of the object; only reachable while the bucket is public
+  publicUrl(key: string): string;
+}
+
+export class BlobNotFoundError extends Error {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`No object stored at ${key}`);
+    this.name = 'BlobNotFoundError';
+    this.key = key;
+  }
+}
+
+/**
+ * Shared helpers. Drivers provide put, getStream, delete, head and the URLs;
+ * they can override putFile to stream instead of buffering, and signedUrls to
+ * sign in one request.
+ */
+export abstract class BaseBlobStore implements BlobStore {
+  abstract readonly driver: string;
+
+  abstract put(key: string, body: Buffer, options: BlobPutOptions): Promise<BlobPutResult>;
+
+  abstract getStream(key: string): Promise<Readable>;
+
+  abstract delete(keys: string[]): Promise<void>;
+
+  abstract head(key: string): Promise<BlobHead | null>;
+
+  abstract list(prefix: string): Promise<BlobHead[]>;
+
+  abstract signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+
+  abstract publicUrl(key: string): string;
+
+  async putFile(key: string, filePath: string, options: BlobPutOptions): Promise<BlobPutResult> {
+    return this.put(key, await readFile(filePath), options);
+  }
+
+  async signedUrls(keys: string[], expiresIn?: number): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    await Promise.all(Array.from(new Set(keys)).map(async key => {
+      urls.set(key, await this.signedUrl(key, { expiresIn }));
+    }));
+    return urls;
+  }
+
+  async getBuffer(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.getStream(key)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+}
+
+// A fresh key under prefix that keeps the original extension: videos/<timestamp>-<uuid>.mp4
+export function createBlobKey(originalName: string, prefix: string = 'videos'): string {
+  const extension = originalName.split('.').pop() || 'mp4';
+  return `${prefix}/${Date.now()}-${crypto.randomUUID()}.${extension}`;
+}
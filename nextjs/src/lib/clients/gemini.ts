@@ -1,4 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GenerativeModel, GoogleGenerativeAI, Part, ResponseSchema as GeminiResponseSchema } from '@google/generative-ai';
+import { AnalysisModelProvider, BaseAnalysisModelProvider, ModelRequest } from '@/lib/clients/analysis-model';
+import { FixtureAnalysisModel, recordAnalysisFixture } from '@/lib/clients/analysis-fixtures';
+import { OpenAICompatibleModel } from '@/lib/clients/openai-compatible-model';
+import type { CustomCriterionScore } from '@/lib/rubric-criteria';
+import type { HookTimelineEvent } from '@/lib/hook-timeline';
 
 export interface HookAnalysisResult {
   openingLines: {
@@ -24,291 +29,105 @@ export interface HookAnalysisResult {
   overallScore: number; // 1-100 scale
   recommendations: string[];
   summary: string;
+  customCriteria?: CustomCriterionScore[]; // the viewer's rubric scores, attached when read from hook_criterion_scores
+  timeline?: HookTimelineEvent[]; // prompt version 2 onwards, ordered by start time
 }
 
-class GeminiClient {
-  private client: GoogleGenerativeAI;
-  private model: any;
-  private readonly MAX_RETRIES = 5;
-  private readonly INITIAL_RETRY_DELAY = 1000; // 1 second
+// Text-only analysis of a hook script; there is no footage to judge visuals or overall score
+export type HookScriptAnalysis = Pick<HookAnalysisResult, 'openingLines' | 'engagementTactics'>;
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required');
-    }
-
-    this.client = new GoogleGenerativeAI(apiKey);
-    this.model = this.client.getGenerativeModel({ model: 'gemini-2.5-flash' });
-  }
-
-  /**
-   * Sleep utility for retry delays
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Check if error is a rate limit error
-   */
-  private isRateLimitError(error: any): boolean {
-    const errorMessage = error?.message?.toLowerCase() || '';
-    const errorString = String(error).toLowerCase();
-
-    return (
-      errorMessage.includes('rate limit') ||
-      errorMessage.includes('quota exceeded') ||
-      errorMessage.includes('too many requests') ||
-      errorMessage.includes('resource exhausted') ||
-      errorString.includes('429') ||
-      error?.status === 429 ||
-      error?.code === 429
-    );
-  }
-
-  /**
-   * Retry a function with exponential backoff
-   */
-  private async retryWithBackoff<T>(
-    fn: () => Promise<T>,
-    context: string
-  ): Promise<T> {
-    let lastError: any;
-
-    for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
-      try {
-        return await fn();
-      } catch (error) {
-        lastError = error;
-
-        // Check if it's a rate limit error
-        if (this.isRateLimitError(error)) {
-          const delay = this.INITIAL_RETRY_DELAY * Math.pow(2, attempt);
-          const jitter = Math.random() * 1000; // Add jitter to prevent thundering herd
-          const totalDelay = delay + jitter;
-
-          console.warn(
-            `Rate limit hit for ${context}. Attempt ${attempt + 1}/${this.MAX_RETRIES}. ` +
-            `Retrying in ${Math.round(totalDelay)}ms...`
-          );
-
-          await this.sleep(totalDelay);
-          continue;
-        }
-
-        // If it's not a rate limit error, throw immediately
-        throw error;
-      }
-    }
-
-    // All retries exhausted
-    console.error(`All ${this.MAX_RETRIES} retry attempts exhausted for ${context}`);
-    throw lastError;
-  }
-
-  private getAnalysisPrompt(): string {
-    return `
-You are an expert TikTok hook analyzer. Analyze the provided TikTok video and provide a comprehensive analysis of its hook effectiveness.
+export interface HookScriptInput {
+  script: string;
+  onScreenText?: string;
+  visualNotes?: string;
+}
 
-Focus on the first 3-5 seconds of the video (the "hook") and analyze:
+// What the best-performing cluster in a niche does, for rewrites to adopt
+export interface HookRewriteTarget {
+  hookTypes: string[];
+  techniques: string[];
+  featureNotes: string[];
+}
 
-1. **Opening Lines**: What are the spoken words/text? How effective are they at grabbing attention?
-2. **Visual Elements**: What visual techniques are used to capture attention?
-3. **Engagement Tactics**: What psychological triggers are used to make viewers want to continue watching?
+export interface HookRewriteVariant {
+  transcript: string;
+  rationale: string;
+}
 
-Provide your analysis in the following JSON format:
+export interface HookTrendAnalysis {
+  commonPhrases: Array<{ phrase: string; count: number; effectiveness: number }>;
+  visualThemes: Array<{ theme: string; count: number; avgScore: number }>;
+  engagementPatterns: Array<{ pattern: string; count: number; avgScore: number }>;
+  recommendations: string[];
+  summary: string;
+}
 
-{
-  "openingLines": {
-    "transcript": "exact words spoken or text shown in first 3-5 seconds",
-    "effectiveness": 8,
-    "techniques": ["question", "bold statement", "contradiction", etc.],
-    "emotional_impact": "curiosity/surprise/urgency/etc."
-  },
-  "visualElements": {
-    "opening_shot": "describe the very first visual",
-    "visual_hooks": ["fast cuts", "bright colors", "motion", "text overlay", etc.],
-    "color_palette": ["dominant colors used"],
-    "text_overlays": ["any text shown on screen"],
-    "transitions": ["types of transitions used"]
-  },
-  "engagementTactics": {
-    "hook_type": "question/statement/teaser/shock/etc.",
-    "curiosity_gaps": ["specific gaps that make viewers want to continue"],
-    "social_proof": ["follower counts", "likes shown", "testimonials", etc.],
-    "urgency_indicators": ["time-sensitive language", "scarcity", etc.],
-    "call_to_action": "what action is the viewer encouraged to take"
-  },
-  "overallScore": 85,
-  "recommendations": ["specific suggestions to improve the hook"],
-  "summary": "brief summary of hook effectiveness and main strengths/weaknesses"
+export interface HookSuggestions {
+  suggestions: string[];
+  rationale: string;
+  examples: string[];
 }
 
-Rate effectiveness on a scale of 1-10 where:
-- 1-3: Poor hook, likely to be scrolled past
-- 4-6: Average hook, some engagement
-- 7-8: Good hook, likely to retain viewers
-- 9-10: Excellent hook, highly engaging
+class GeminiModel extends BaseAnalysisModelProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private client: GenerativeModel | null = null;
+  private recordFixtures = process.env.ANALYSIS_RECORD_FIXTURES === 'true';
 
-Provide detailed, actionable insights that would help creators improve their hooks.
-`;
+  constructor(model: string = process.env.GEMINI_MODEL || 'gemini-2.5-flash') {
+    super();
+    this.model = model;
   }
 
-  async analyzeVideoHook(base64Video: string): Promise<HookAnalysisResult> {
-    return this.retryWithBackoff(async () => {
-      try {
-        const prompt = this.getAnalysisPrompt();
-
-        const result = await this.model.generateContent([
-          prompt,
-          {
-            inlineData: {
-              mimeType: 'video/mp4',
-              data: base64Video,
-            },
-          },
-        ]);
-
-        const response = await result.response;
-        const text = response.text();
-
-        // Parse JSON response
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          console.error('Gemini response text:', text);
-          throw new Error('Invalid response format from Gemini - no JSON found in response');
-        }
-
-        const analysis = JSON.parse(jsonMatch[0]);
-
-        // Validate required fields
-        if (!analysis.openingLines || !analysis.visualElements || !analysis.engagementTactics) {
-          console.error('Incomplete Gemini analysis:', analysis);
-          throw new Error('Incomplete analysis response from Gemini - missing required fields');
-        }
-
-        return analysis;
-      } catch (error) {
-        console.error('Error analyzing video with Gemini:', error);
-        if (error instanceof Error) {
-          // Preserve original error message
-          throw new Error(`Failed to analyze video hook: ${error.message}`);
-        }
-        throw new Error('Failed to analyze video hook: Unknown error');
+  // Created on first use, so importing the provider doesn't require an API key
+  private getClient(): GenerativeModel {
+    if (!this.client) {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY environment variable is required');
       }
-    }, 'analyzeVideoHook');
-  }
-
-  async analyzeTrends(hookAnalyses: HookAnalysisResult[]): Promise<{
-    commonPhrases: Array<{ phrase: string; count: number; effectiveness: number }>;
-    visualThemes: Array<{ theme: string; count: number; avgScore: number }>;
-    engagementPatterns: Array<{ pattern: string; count: number; avgScore: number }>;
-    recommendations: string[];
-    summary: string;
-  }> {
-    return this.retryWithBackoff(async () => {
-      try {
-        const prompt = `
-Analyze the following TikTok hook analysis results and identify trends:
-
-${JSON.stringify(hookAnalyses, null, 2)}
-
-Provide a comprehensive trend analysis in the following JSON format:
-
-{
-  "commonPhrases": [
-    { "phrase": "most common opening phrase", "count": 5, "effectiveness": 7.2 }
-  ],
-  "visualThemes": [
-    { "theme": "fast cuts", "count": 8, "avgScore": 8.1 }
-  ],
-  "engagementPatterns": [
-    { "pattern": "question hooks", "count": 12, "avgScore": 7.8 }
-  ],
-  "recommendations": [
-    "specific recommendations based on trends"
-  ],
-  "summary": "key insights about what makes hooks effective"
-}
-
-Focus on:
-1. Most frequently used opening phrases and their effectiveness
-2. Visual techniques that appear most often and their performance
-3. Engagement tactics that correlate with higher scores
-4. Patterns in high-performing vs low-performing hooks
-5. Actionable recommendations for creators
-`;
 
-        const result = await this.model.generateContent([prompt]);
-        const response = await result.response;
-        const text = response.text();
-
-        // Parse JSON response
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          throw new Error('Invalid trend analysis response format');
-        }
-
-        return JSON.parse(jsonMatch[0]);
-      } catch (error) {
-        console.error('Error analyzing trends with Gemini:', error);
-        throw new Error('Failed to analyze hook trends');
-      }
-    }, 'analyzeTrends');
+      this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.model });
+    }
+    return this.client;
   }
 
-  async generateHookSuggestions(searchTerm: string, analysisResults: HookAnalysisResult[]): Promise<{
-    suggestions: string[];
-    rationale: string;
-    examples: string[];
-  }> {
-    return this.retryWithBackoff(async () => {
-      try {
-        const prompt = `
-Based on the analysis of TikTok videos for the search term "${searchTerm}", generate hook suggestions.
-
-Analysis data:
-${JSON.stringify(analysisResults.slice(0, 10), null, 2)}
+  protected async generate(request: ModelRequest): Promise<string> {
+    const parts: Part[] = [{ text: request.prompt }];
+    if (request.video) {
+      parts.push({ inlineData: { mimeType: 'video/mp4', data: request.video } });
+    }
 
-Provide hook suggestions in the following JSON format:
+    // The schema's type names match Gemini's SchemaType values
+    const result = await this.getClient().generateContent({
+      contents: [{ role: 'user', parts }],
+      generationConfig: request.responseSchema
+        ? { responseMimeType: 'application/json', responseSchema: request.responseSchema as unknown as GeminiResponseSchema }
+        : undefined,
+    });
+    const text = result.response.text();
+
+    if (this.recordFixtures) {
+      await recordAnalysisFixture(request, { operation: request.operation, provider: this.name, model: this.model, text });
+    }
 
-{
-  "suggestions": [
-    "specific hook ideas for the topic",
-    "opening lines that would work well",
-    "visual techniques to use"
-  ],
-  "rationale": "explanation of why these suggestions work",
-  "examples": [
-    "example opening lines or visual concepts"
-  ]
+    return text;
+  }
 }
 
-Focus on:
-1. What works best for this specific topic/niche
-2. Gaps in current content that could be exploited
-3. Proven techniques from high-performing videos
-4. Fresh approaches that haven't been overused
-`;
-
-        const result = await this.model.generateContent([prompt]);
-        const response = await result.response;
-        const text = response.text();
-
-        // Parse JSON response
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          throw new Error('Invalid suggestion response format');
-        }
-
-        return JSON.parse(jsonMatch[0]);
-      } catch (error) {
-        console.error('Error generating hook suggestions:', error);
-        throw new Error('Failed to generate hook suggestions');
-      }
-    }, 'generateHookSuggestions');
+export function createAnalysisModelProvider(
+  provider: string = process.env.ANALYSIS_MODEL_PROVIDER || 'gemini'
+): AnalysisModelProvider {
+  switch (provider) {
+    case 'fixtures':
+      return new FixtureAnalysisModel();
+    case 'gemini':
+      return new GeminiModel();
+    case 'openai':
+      return new OpenAICompatibleModel();
+    default:
+      throw new Error(`Unknown ANALYSIS_MODEL_PROVIDER: ${provider}`);
   }
 }
 
-export const geminiClient = new GeminiClient();
\ No newline at end of file
+export const analysisModel = createAnalysisModelProvider();
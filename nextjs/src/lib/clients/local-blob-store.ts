@@ -0,0 +1,158 @@
+import { createReadStream } from 'fs';
+import { copyFile, mkdir, readdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, extname, relative, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import crypto from 'crypto';
+import {
+  BaseBlobStore,
+  BlobHead,
+  BlobNotFoundError,
+  BlobPutOptions,
+  BlobPutResult,
+  SignedUrlOptions,
+} from './blob-store';
+
+// Route that serves and accepts local blobs (src/pages/api/storage/[...key].ts)
+export const LOCAL_BLOB_ROUTE = '/api/storage';
+
+// The directory doesn't record content types, so they're derived from the key's extension
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.json': 'application/json',
+};
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Blobs as files under a directory (STORAGE_LOCAL_DIR), served by this app's
+ * /api/storage route. The directory is private like the bucket: every request
+ * needs a signed URL carrying an HMAC over method, key and expiry
+ * (STORAGE_SIGNING_SECRET), checked by the route.
+ */
+export class LocalBlobStore extends BaseBlobStore {
+  readonly driver = 'local';
+  readonly rootDir: string;
+  private baseUrl: string;
+  private signingSecret: string;
+
+  constructor(env: Record<string, string | undefined> = process.env) {
+    super();
+    const signingSecret = env.STORAGE_SIGNING_SECRET;
+    if (!signingSecret) {
+      throw new Error('STORAGE_SIGNING_SECRET is required for the local storage driver');
+    }
+
+    this.signingSecret = signingSecret;
+    this.rootDir = resolve(env.STORAGE_LOCAL_DIR || './storage');
+    this.baseUrl = (env.STORAGE_PUBLIC_BASE_URL || env.CLOUDFLARE_TUNNEL_URL || 'http://localhost:3000').replace(/\/$/, '');
+  }
+
+  // Absolute path for a key; rejects keys that would escape the storage directory
+  pathFor(key: string): string {
+    const path = resolve(this.rootDir, key);
+    const rel = relative(this.rootDir, path);
+    if (!rel || rel.startsWith('..') || rel.split(sep).includes('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, body: Buffer, _options: BlobPutOptions): Promise<BlobPutResult> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+    return { key, size: body.length, publicUrl: this.publicUrl(key) };
+  }
+
+  async putFile(key: string, filePath: string, _options: BlobPutOptions): Promise<BlobPutResult> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await copyFile(filePath, path);
+    const { size } = await stat(path);
+    return { key, size, publicUrl: this.publicUrl(key) };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+    if (await this.head(key) === null) throw new BlobNotFoundError(key);
+    return createReadStream(path);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => rm(this.pathFor(key), { force: true })));
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    try {
+      const info = await stat(this.pathFor(key));
+      if (!info.isFile()) return null;
+      return { key, size: info.size, contentType: contentTypeForKey(key), lastModified: info.mtime };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<BlobHead[]> {
+    const folder = prefix.replace(/\/+$/, '');
+    const dir = folder ? this.pathFor(folder) : this.rootDir;
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const objects: BlobHead[] = [];
+    for (const entry of entries) {
+      const key = folder ? `${folder}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        objects.push(...await this.list(key));
+      } else if (entry.isFile()) {
+        const head = await this.head(key);
+        if (head) objects.push(head);
+      }
+    }
+    return objects;
+  }
+
+  async signedUrl(key: string, { method = 'GET', expiresIn = 3600 }: SignedUrlOptions = {}): Promise<string> {
+    this.pathFor(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({
+      method,
+      expires: String(expires),
+      signature: this.sign(method, key, expires),
+    });
+    return `${this.publicUrl(key)}?${params}`;
+  }
+
+  publicUrl(key: string): string {
+    return `${this.baseUrl}${LOCAL_BLOB_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  // Check a signed URL's query parameters for the given request method and key
+  verifySignature(method: string, key: string, query: { expires?: string; signature?: string; method?: string }): boolean {
+    const expires = Number(query.expires);
+    if (!query.signature || query.method !== method || !Number.isFinite(expires)) return false;
+    if (expires < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(method, key, expires));
+    const actual = Buffer.from(query.signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private sign(method: string, key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${method}\n${key}\n${expires}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,72 @@
+import { BaseAnalysisModelProvider, ModelRequest } from "@/lib/clients/analysis-model";
+import { recordAnalysisFixture } from "@/lib/clients/analysis-fixtures";
+
+// Video analysis can take a while on a local server
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Analysis model behind any OpenAI-compatible /chat/completions endpoint: OpenAI
+ * itself, or a local server such as vLLM, llama.cpp or Ollama. Video is sent as a
+ * video_url content part, so video analysis needs a server and model that accept one.
+ */
+export class OpenAICompatibleModel extends BaseAnalysisModelProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  private recordFixtures = process.env.ANALYSIS_RECORD_FIXTURES === 'true';
+
+  constructor(
+    baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    model: string = process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {
+    super();
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  protected async generate(request: ModelRequest): Promise<string> {
+    const content: unknown[] = [{ type: 'text', text: request.prompt }];
+    if (request.video) {
+      content.push({ type: 'video_url', video_url: { url: `data:video/mp4;base64,${request.video}` } });
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content }],
+        ...(request.responseSchema ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.operation, schema: request.responseSchema },
+          },
+        } : {}),
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${this.baseUrl} responded with ${response.status}: ${body.slice(0, 500)}`);
+    }
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error(`No message content in response from ${this.baseUrl}`);
+    }
+
+    if (this.recordFixtures) {
+      await recordAnalysisFixture(request, { operation: request.operation, provider: this.name, model: this.model, text });
+    }
+
+    return text;
+  }
+}
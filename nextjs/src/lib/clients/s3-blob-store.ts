@@ -0,0 +1,174 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { logDebug } from '../debug-logger';
+import {
+  BaseBlobStore,
+  BlobHead,
+  BlobNotFoundError,
+  BlobPutOptions,
+  BlobPutResult,
+  SignedUrlOptions,
+} from './blob-store';
+
+// DeleteObjects accepts at most 1000 keys per request
+const S3_DELETE_BATCH = 1000;
+
+/**
+ * Any S3-compatible store: AWS S3, Cloudflare R2 (S3_ENDPOINT=https://<account>.r2.cloudflarestorage.com)
+ * or MinIO (S3_ENDPOINT=http://localhost:9000, S3_FORCE_PATH_STYLE=true)
+ */
+export class S3BlobStore extends BaseBlobStore {
+  readonly driver = 's3';
+  private client: S3Client;
+  private bucketName: string;
+  private publicBaseUrl: string;
+
+  constructor(env: Record<string, string | undefined> = process.env) {
+    super();
+    const bucketName = env.S3_BUCKET;
+    const accessKeyId = env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = env.S3_SECRET_ACCESS_KEY;
+
+    if (!bucketName || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for the s3 storage driver');
+    }
+
+    this.bucketName = bucketName;
+    this.client = new S3Client({
+      region: env.S3_REGION || 'auto',
+      endpoint: env.S3_ENDPOINT || undefined,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: { accessKeyId, secretAccessKey },
+    });
+
+    // Without a public base URL (CDN or public bucket domain), fall back to path-style object URLs
+    const endpoint = (env.S3_ENDPOINT || `https://s3.${env.S3_REGION || 'us-east-1'}.amazonaws.com`).replace(/\/$/, '');
+    this.publicBaseUrl = (env.S3_PUBLIC_URL || `${endpoint}/${bucketName}`).replace(/\/$/, '');
+  }
+
+  async put(key: string, body: Buffer, { contentType }: BlobPutOptions): Promise<BlobPutResult> {
+    logDebug(`[S3BlobStore] Uploading ${body.length} bytes to bucket=${this.bucketName}, key=${key}`);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+
+    return { key, size: body.length, publicUrl: this.publicUrl(key) };
+  }
+
+  // Stream from disk instead of buffering whole videos
+  async putFile(key: string, filePath: string, { contentType }: BlobPutOptions): Promise<BlobPutResult> {
+    const { size } = await stat(filePath);
+    logDebug(`[S3BlobStore] Uploading ${size} bytes from ${filePath} to bucket=${this.bucketName}, key=${key}`);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+
+    return { key, size, publicUrl: this.publicUrl(key) };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      if (!response.Body) throw new BlobNotFoundError(key);
+      return response.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += S3_DELETE_BATCH) {
+      const batch = keys.slice(i, i + S3_DELETE_BATCH);
+      const response = await this.client.send(new DeleteObjectsCommand({
+        Bucket: this.bucketName,
+        Delete: { Objects: batch.map(Key => ({ Key })), Quiet: true },
+      }));
+
+      if (response.Errors && response.Errors.length > 0) {
+        const first = response.Errors[0]!;
+        throw new Error(`Failed to delete ${response.Errors.length} object(s), e.g. ${first.Key}: ${first.Message}`);
+      }
+    }
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType ?? null,
+        lastModified: response.LastModified ?? null,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<BlobHead[]> {
+    const folder = prefix.replace(/\/+$/, '');
+    const objects: BlobHead[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: folder ? `${folder}/` : undefined,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          contentType: null,
+          lastModified: object.LastModified ?? null,
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async signedUrl(key: string, { method = 'GET', expiresIn = 3600, contentType }: SignedUrlOptions = {}): Promise<string> {
+    const command = method === 'PUT'
+      ? new PutObjectCommand({ Bucket: this.bucketName, Key: key, ContentType: contentType })
+      : new GetObjectCommand({ Bucket: this.bucketName, Key: key });
+
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  publicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof S3ServiceException &&
+    (error.name === 'NotFound' || error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404);
+}
@@ -0,0 +1,23 @@
+import { BlobStore } from "@/lib/clients/blob-store";
+import { SupabaseBlobStore } from "@/lib/clients/supabase-blob-store";
+import { S3BlobStore } from "@/lib/clients/s3-blob-store";
+import { LocalBlobStore } from "@/lib/clients/local-blob-store";
+
+// Select the storage backend via STORAGE_DRIVER: "supabase" (default), "s3" for any
+// S3-compatible service (R2, MinIO) or "local" for a directory on this machine
+export function createBlobStore(
+  driver: string = process.env.STORAGE_DRIVER || 'supabase'
+): BlobStore {
+  switch (driver) {
+    case 'supabase':
+      return new SupabaseBlobStore();
+    case 's3':
+      return new S3BlobStore();
+    case 'local':
+      return new LocalBlobStore();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const blobStore = createBlobStore();
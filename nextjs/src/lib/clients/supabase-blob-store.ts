@@ -0,0 +1,170 @@
+import { createClient } from '@supabase/supabase-js';
+import { Readable } from 'stream';
+import { logDebug } from '../debug-logger';
+import {
+  BaseBlobStore,
+  BlobHead,
+  BlobNotFoundError,
+  BlobPutOptions,
+  BlobPutResult,
+  SignedUrlOptions,
+} from './blob-store';
+
+// Supabase lists one folder level per request, in pages
+const SUPABASE_LIST_PAGE = 1000;
+
+// Supabase Storage, using the service role key so uploads bypass RLS
+export class SupabaseBlobStore extends BaseBlobStore {
+  readonly driver = 'supabase';
+  private supabase: ReturnType<typeof createClient>;
+
+  constructor(private readonly bucketName: string = process.env.STORAGE_BUCKET || 'tiktok-videos') {
+    super();
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required Supabase environment variables');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async put(key: string, body: Buffer, { contentType }: BlobPutOptions): Promise<BlobPutResult> {
+    logDebug(`[SupabaseBlobStore] Uploading ${body.length} bytes to bucket=${this.bucketName}, key=${key}`);
+
+    const { error } = await this.supabase.storage
+      .from(this.bucketName)
+      .upload(key, body, {
+        contentType,
+        upsert: true,
+      });
+
+    if (error) {
+      logDebug(`[SupabaseBlobStore] Upload error: ${error.message}`);
+      throw new Error(`Failed to upload ${key} to Supabase Storage: ${error.message}`);
+    }
+
+    return { key, size: body.length, publicUrl: this.publicUrl(key) };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucketName)
+      .download(key);
+
+    if (error || !data) {
+      if (await this.head(key) === null) throw new BlobNotFoundError(key);
+      throw new Error(`Failed to download ${key} from Supabase Storage: ${error?.message || 'no data'}`);
+    }
+
+    return Readable.from(Buffer.from(await data.arrayBuffer()));
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const { error } = await this.supabase.storage
+      .from(this.bucketName)
+      .remove(keys);
+
+    if (error) {
+      throw new Error(`Failed to delete from Supabase Storage: ${error.message}`);
+    }
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucketName)
+      .info(key);
+
+    if (error || !data) return null;
+
+    return {
+      key,
+      size: data.size ?? 0,
+      contentType: data.contentType ?? null,
+      lastModified: data.lastModified ? new Date(data.lastModified) : null,
+    };
+  }
+
+  async list(prefix: string): Promise<BlobHead[]> {
+    const folder = prefix.replace(/\/+$/, '');
+    const objects: BlobHead[] = [];
+
+    for (let offset = 0; ; offset += SUPABASE_LIST_PAGE) {
+      const { data, error } = await this.supabase.storage
+        .from(this.bucketName)
+        .list(folder, { limit: SUPABASE_LIST_PAGE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+      if (error) {
+        throw new Error(`Failed to list ${folder} in Supabase Storage: ${error.message}`);
+      }
+
+      for (const entry of data) {
+        const key = folder ? `${folder}/${entry.name}` : entry.name;
+        // Folders come back without an id
+        if (entry.id === null) {
+          objects.push(...await this.list(key));
+          continue;
+        }
+        objects.push({
+          key,
+          size: entry.metadata?.size ?? 0,
+          contentType: entry.metadata?.mimetype ?? null,
+          lastModified: entry.updated_at ? new Date(entry.updated_at) : null,
+        });
+      }
+
+      if (data.length < SUPABASE_LIST_PAGE) break;
+    }
+
+    return objects;
+  }
+
+  // Supabase signed upload URLs are valid for two hours regardless of expiresIn
+  async signedUrl(key: string, { method = 'GET', expiresIn = 3600 }: SignedUrlOptions = {}): Promise<string> {
+    const bucket = this.supabase.storage.from(this.bucketName);
+    const { data, error } = method === 'PUT'
+      ? await bucket.createSignedUploadUrl(key, { upsert: true })
+      : await bucket.createSignedUrl(key, expiresIn);
+
+    if (error || !data) {
+      throw new Error(`Failed to generate signed URL for ${key}: ${error?.message || 'no data'}`);
+    }
+
+    return data.signedUrl;
+  }
+
+  async signedUrls(keys: string[], expiresIn: number = 3600): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    const unique = Array.from(new Set(keys));
+    if (unique.length === 0) return urls;
+
+    const { data, error } = await this.supabase.storage
+      .from(this.bucketName)
+      .createSignedUrls(unique, expiresIn);
+
+    if (error || !data) {
+      throw new Error(`Failed to generate signed URLs: ${error?.message || 'no data'}`);
+    }
+
+    for (const entry of data) {
+      if (entry.path && entry.signedUrl && !entry.error) urls.set(entry.path, entry.signedUrl);
+    }
+    return urls;
+  }
+
+  publicUrl(key: string): string {
+    const { data } = this.supabase.storage
+      .from(this.bucketName)
+      .getPublicUrl(key);
+
+    return data.publicUrl;
+  }
+}
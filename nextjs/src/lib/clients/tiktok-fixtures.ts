@@ -0,0 +1,140 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import type {
+  TikTokSearchResponse,
+  TikTokDownloadResponse,
+  TikTokVideoDetailsResponse,
+} from "@/lib/clients/tiktok";
+import { BaseVideoSourceProvider } from "@/lib/clients/video-source";
+import { logDebug } from "@/lib/debug-logger";
+
+/*
+Fixture layout (relative to TIKTOK_FIXTURES_DIR):
+
+  search/<keyword-slug>/<cursor>.json   recorded TikTokSearchResponse pages
+  search/_default/<cursor>.json         used when no keyword-specific page exists
+  download/<video-id>.json              recorded TikTokDownloadResponse
+  download/_default.json                used when no video-specific response exists
+  details/<video-id>.json               recorded TikTokVideoDetailsResponse
+  details/_default.json                 used when no video-specific response exists
+*/
+
+const DEFAULT_FIXTURE_KEY = "_default";
+
+export function getFixturesDir(): string {
+  return process.env.TIKTOK_FIXTURES_DIR || join(process.cwd(), "fixtures", "tiktok");
+}
+
+export function slugifyKeyword(keyword: string): string {
+  return keyword
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || DEFAULT_FIXTURE_KEY;
+}
+
+// Extract the numeric video id from a TikTok web URL
+export function extractVideoId(videoUrl: string): string | null {
+  const match = videoUrl.match(/\/video\/(\d+)/);
+  return match?.[1] ?? null;
+}
+
+export function searchFixturePath(keyword: string, cursor: string, fixturesDir = getFixturesDir()): string {
+  return join(fixturesDir, "search", slugifyKeyword(keyword), `${cursor}.json`);
+}
+
+export function downloadFixturePath(videoUrl: string, fixturesDir = getFixturesDir()): string {
+  return join(fixturesDir, "download", `${extractVideoId(videoUrl) || DEFAULT_FIXTURE_KEY}.json`);
+}
+
+export function detailsFixturePath(videoUrl: string, fixturesDir = getFixturesDir()): string {
+  return join(fixturesDir, "details", `${extractVideoId(videoUrl) || DEFAULT_FIXTURE_KEY}.json`);
+}
+
+/**
+ * Persist a live API response so it can be replayed later by FixtureVideoSource.
+ */
+export async function recordFixture(path: string, data: unknown): Promise<void> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(data, null, 2));
+    logDebug(`[Fixtures] Recorded fixture: ${path}`);
+  } catch (error) {
+    console.error(`Failed to record fixture ${path}:`, error);
+  }
+}
+
+async function readJsonIfExists<T>(path: string): Promise<T | null> {
+  try {
+    const contents = await readFile(path, "utf-8");
+    return JSON.parse(contents) as T;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw new Error(`Failed to read fixture ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Offline video source that replays recorded TikTok API responses from disk.
+ */
+export class FixtureVideoSource extends BaseVideoSourceProvider {
+  readonly name = "fixtures";
+  protected pageDelayMs = 0;
+
+  constructor(private readonly fixturesDir: string = getFixturesDir()) {
+    super();
+  }
+
+  async searchVideos(keyword: string, cursor: string = "0"): Promise<TikTokSearchResponse> {
+    const keywordPath = searchFixturePath(keyword, cursor, this.fixturesDir);
+    const defaultPath = join(this.fixturesDir, "search", DEFAULT_FIXTURE_KEY, `${cursor}.json`);
+
+    logDebug(`[Fixtures] Replaying search "${keyword}" cursor=${cursor}`);
+
+    const response =
+      (await readJsonIfExists<TikTokSearchResponse>(keywordPath)) ??
+      (await readJsonIfExists<TikTokSearchResponse>(defaultPath));
+
+    if (!response) {
+      // Behave like the API at the end of the result set
+      return {
+        code: 0,
+        msg: "success",
+        processed_time: 0,
+        data: { videos: [], cursor, hasMore: false },
+      };
+    }
+
+    return response;
+  }
+
+  async downloadVideo(videoUrl: string): Promise<TikTokDownloadResponse> {
+    const videoPath = downloadFixturePath(videoUrl, this.fixturesDir);
+    const defaultPath = join(this.fixturesDir, "download", `${DEFAULT_FIXTURE_KEY}.json`);
+
+    const response =
+      (await readJsonIfExists<TikTokDownloadResponse>(videoPath)) ??
+      (await readJsonIfExists<TikTokDownloadResponse>(defaultPath));
+
+    if (!response) {
+      throw new Error(`No download fixture found for ${videoUrl} in ${this.fixturesDir}`);
+    }
+
+    return response;
+  }
+
+  async getVideoDetails(videoUrl: string): Promise<TikTokVideoDetailsResponse> {
+    const videoPath = detailsFixturePath(videoUrl, this.fixturesDir);
+    const defaultPath = join(this.fixturesDir, "details", `${DEFAULT_FIXTURE_KEY}.json`);
+
+    const response =
+      (await readJsonIfExists<TikTokVideoDetailsResponse>(videoPath)) ??
+      (await readJsonIfExists<TikTokVideoDetailsResponse>(defaultPath));
+
+    if (!response) {
+      throw new Error(`No video details fixture found for ${videoUrl} in ${this.fixturesDir}`);
+    }
+
+    return response;
+  }
+}
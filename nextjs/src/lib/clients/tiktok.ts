@@ -1,5 +1,13 @@
-import { env } from "process";
 import { logDebug } from "@/lib/debug-logger";
+import { BaseVideoSourceProvider, VideoSourceProvider } from "@/lib/clients/video-source";
+import { DEFAULT_SEARCH_OPTIONS, SearchOptions } from "@/lib/tiktok-search-options";
+import {
+  FixtureVideoSource,
+  recordFixture,
+  searchFixturePath,
+  downloadFixturePath,
+  detailsFixturePath,
+} from "@/lib/clients/tiktok-fixtures";
 
 export interface TikTokSearchResponse {
   code: number;
@@ -62,6 +70,13 @@ export interface TikTokVideo {
   };
 }
 
+export interface TikTokVideoDetailsResponse {
+  code: number;
+  msg: string;
+  processed_time: number;
+  data: TikTokVideo;
+}
+
 export interface TikTokDownloadResponse {
   play: string;
   play_watermark: string;
@@ -98,11 +113,14 @@ export interface ProcessedTikTokVideo {
   officalItem: boolean;
 }
 
-class TikTokAPI {
+class RapidApiVideoSource extends BaseVideoSourceProvider {
+  readonly name = "rapidapi";
   private baseURL = 'https://tiktok-scraper7.p.rapidapi.com';
   private headers: Record<string, string>;
+  private recordFixtures = process.env.TIKTOK_RECORD_FIXTURES === 'true';
 
   constructor() {
+    super();
     console.log("DEBUG: TikTokAPI constructor called");
     const rapidApiKey = process.env.RAPID_API_KEY;
     if (!rapidApiKey) {
@@ -118,15 +136,17 @@ class TikTokAPI {
 
   async searchVideos(
     keyword: string,
-    cursor: string = "0"
+    cursor: string = "0",
+    options: Partial<SearchOptions> = {}
   ): Promise<TikTokSearchResponse> {
+    const { region, publishTime, sortType } = { ...DEFAULT_SEARCH_OPTIONS, ...options };
     const params = new URLSearchParams({
       keywords: keyword,
-      region: 'us',
+      region,
       count: '20',
       cursor: cursor,
-      publish_time: '0',
-      sort_type: '0',
+      publish_time: String(publishTime),
+      sort_type: String(sortType),
     });
 
     const url = `${this.baseURL}/feed/search?${params}`;
@@ -156,6 +176,10 @@ class TikTokAPI {
       hasMore: data.data?.hasMore,
     });
 
+    if (this.recordFixtures) {
+      await recordFixture(searchFixturePath(keyword, cursor), data);
+    }
+
     return data;
   }
 
@@ -191,125 +215,55 @@ class TikTokAPI {
       playUrlPreview: data.play?.substring(0, 50) + '...' || 'no play URL'
     });
 
+    if (this.recordFixtures) {
+      await recordFixture(downloadFixturePath(videoUrl), data);
+    }
+
     return data;
   }
 
-  // Convert API response to our internal format
-  private processVideoData(apiVideo: TikTokVideo): ProcessedTikTokVideo {
-    return {
-      id: apiVideo.aweme_id,
-      title: apiVideo.title || "No title",
-      createTime: apiVideo.create_time,
-      duration: apiVideo.duration,
-      playAddr: apiVideo.play,
-      downloadAddr: apiVideo.wmplay,
-      cover: apiVideo.cover,
-      dynamicCover: apiVideo.ai_dynamic_cover,
-      author: {
-        id: apiVideo.author.id,
-        uniqueId: apiVideo.author.unique_id,
-        nickname: apiVideo.author.nickname,
-        avatarThumb: apiVideo.author.avatar,
-        verified: false, // Not provided in new API
-        following: 0, // Not provided in new API
-        fans: 0, // Not provided in new API
-      },
-      stats: {
-        diggCount: apiVideo.digg_count,
-        shareCount: apiVideo.share_count,
-        commentCount: apiVideo.comment_count,
-        playCount: apiVideo.play_count,
-        collectCount: apiVideo.collect_count,
-      },
-      webVideoUrl: `https://www.tiktok.com/@${apiVideo.author.unique_id}/video/${apiVideo.video_id}`,
-      originalItem: !apiVideo.is_ad,
-      officalItem: false,
-    };
-  }
+  async getVideoDetails(videoUrl: string): Promise<TikTokVideoDetailsResponse> {
+    const params = new URLSearchParams({
+      url: videoUrl,
+    });
 
-  async searchVideosWithPagination(
-    keyword: string,
-    maxPages: number = 10,
-    targetVideoCount: number = 100
-  ): Promise<ProcessedTikTokVideo[]> {
-    const allVideos: ProcessedTikTokVideo[] = [];
-    let cursor: string = "0";
-    let page = 0;
-
-    console.log(`Starting TikTok search for "${keyword}" with max pages: ${maxPages}, target count: ${targetVideoCount}`);
-    logDebug(`Starting TikTok search for "${keyword}" with max pages: ${maxPages}, target count: ${targetVideoCount}`);
-
-    while (page < maxPages && allVideos.length < targetVideoCount) {
-      try {
-        console.log(`Fetching page ${page + 1} for keyword "${keyword}", cursor: ${cursor}`);
-        const response = await this.searchVideos(keyword, cursor);
-
-        console.log('API Response structure:', {
-          code: response.code,
-          msg: response.msg,
-          videosLength: response.data?.videos?.length || 0,
-          cursor: response.data?.cursor,
-          hasMore: response.data?.hasMore
-        });
-
-        if (response.code !== 0) {
-          console.error('API returned non-zero code:', response.code, response.msg);
-          break;
-        }
-
-        if (!response.data?.videos || response.data.videos.length === 0) {
-          console.log('No videos found in response, breaking loop');
-          break;
-        }
-
-        // Process the videos
-        const processedVideos = response.data.videos.map(video => this.processVideoData(video));
-        allVideos.push(...processedVideos);
-        console.log(`Added ${processedVideos.length} videos, total: ${allVideos.length}`);
-
-        // Update pagination parameters
-        cursor = response.data.cursor || cursor;
-
-        // Break if no more pages
-        if (!response.data.hasMore) {
-          console.log('No more pages available, breaking loop');
-          break;
-        }
-
-        page++;
-
-        // Add a small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error) {
-        console.error(`Error fetching page ${page} for keyword "${keyword}":`, error);
-
-        // If it's an API error, let's see the full response
-        if (error instanceof Error) {
-          console.error('Error details:', {
-            message: error.message,
-            stack: error.stack
-          });
-        }
-
-        break;
-      }
+    const url = `${this.baseURL}/?${params}`;
+    logDebug(`Making TikTok video details API request to: ${url}`);
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: this.headers,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('TikTok video details API error response:', errorText);
+      throw new Error(`TikTok Video Details API error: ${response.status} ${response.statusText} - ${errorText}`);
     }
 
-    console.log(`Total videos found: ${allVideos.length}`);
-    return allVideos;
-  }
+    const data = await response.json();
 
-  filterTopVideos(videos: ProcessedTikTokVideo[], percentage: number = 0.5): ProcessedTikTokVideo[] {
-    // Sort by engagement score (combination of views, likes, shares, comments)
-    const sortedVideos = videos.sort((a, b) => {
-      const scoreA = a.stats.playCount + a.stats.diggCount + a.stats.shareCount + a.stats.commentCount;
-      const scoreB = b.stats.playCount + b.stats.diggCount + b.stats.shareCount + b.stats.commentCount;
-      return scoreB - scoreA;
-    });
+    if (this.recordFixtures) {
+      await recordFixture(detailsFixturePath(videoUrl), data);
+    }
+
+    return data;
+  }
+}
 
-    const topCount = Math.ceil(sortedVideos.length * percentage);
-    return sortedVideos.slice(0, topCount);
+// Select the video source via TIKTOK_VIDEO_SOURCE ("rapidapi" by default, or "fixtures"
+// to replay recorded responses from TIKTOK_FIXTURES_DIR without network access)
+export function createVideoSourceProvider(
+  source: string = process.env.TIKTOK_VIDEO_SOURCE || 'rapidapi'
+): VideoSourceProvider {
+  switch (source) {
+    case 'fixtures':
+      return new FixtureVideoSource();
+    case 'rapidapi':
+      return new RapidApiVideoSource();
+    default:
+      throw new Error(`Unknown TIKTOK_VIDEO_SOURCE: ${source}`);
   }
 }
 
-export const tiktokApi = new TikTokAPI();
\ No newline at end of file
+export const tiktokApi = createVideoSourceProvider();
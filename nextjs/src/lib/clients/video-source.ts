@@ -0,0 +1,203 @@
+import type {
+  TikTokSearchResponse,
+  TikTokDownloadResponse,
+  TikTokVideoDetailsResponse,
+  TikTokVideo,
+  ProcessedTikTokVideo,
+} from "@/lib/clients/tiktok";
+import { logDebug } from "@/lib/debug-logger";
+import { DEFAULT_SEARCH_OPTIONS, SearchOptions } from "@/lib/tiktok-search-options";
+
+/**
+ * A source of TikTok video data (search, pagination and download URL resolution).
+ * The RapidAPI scraper is the production implementation; the fixture provider
+ * replays recorded responses from disk so the pipeline can run without network.
+ */
+export interface VideoSourceProvider {
+  readonly name: string;
+
+  searchVideos(
+    keyword: string,
+    cursor?: string,
+    options?: Partial<SearchOptions>
+  ): Promise<TikTokSearchResponse>;
+
+  searchVideosWithPagination(
+    keyword: string,
+    options?: Partial<SearchOptions>
+  ): Promise<ProcessedTikTokVideo[]>;
+
+  downloadVideo(videoUrl: string): Promise<TikTokDownloadResponse>;
+
+  // Current metadata and engagement counts for a single video
+  getVideoDetails(videoUrl: string): Promise<TikTokVideoDetailsResponse>;
+
+  // Resolve a single video URL (including short links) to our internal format
+  getVideo(videoUrl: string): Promise<ProcessedTikTokVideo>;
+
+  // Last-resort download URLs, tried after the download endpoint's play URLs fail
+  getFallbackDownloadUrls(videoUrl: string): Promise<string[]>;
+
+  filterTopVideos(videos: ProcessedTikTokVideo[], percentage?: number): ProcessedTikTokVideo[];
+}
+
+/**
+ * Shared pagination and normalization logic. Implementations only need to
+ * provide a single search page and download URL resolution.
+ */
+export abstract class BaseVideoSourceProvider implements VideoSourceProvider {
+  abstract readonly name: string;
+
+  // Delay between search pages to avoid rate limiting
+  protected pageDelayMs = 1000;
+
+  abstract searchVideos(
+    keyword: string,
+    cursor?: string,
+    options?: Partial<SearchOptions>
+  ): Promise<TikTokSearchResponse>;
+
+  abstract downloadVideo(videoUrl: string): Promise<TikTokDownloadResponse>;
+
+  abstract getVideoDetails(videoUrl: string): Promise<TikTokVideoDetailsResponse>;
+
+  // Convert API response to our internal format
+  protected processVideoData(apiVideo: TikTokVideo): ProcessedTikTokVideo {
+    return {
+      id: apiVideo.aweme_id,
+      title: apiVideo.title || "No title",
+      createTime: apiVideo.create_time,
+      duration: apiVideo.duration,
+      playAddr: apiVideo.play,
+      downloadAddr: apiVideo.wmplay,
+      cover: apiVideo.cover,
+      dynamicCover: apiVideo.ai_dynamic_cover,
+      author: {
+        id: apiVideo.author.id,
+        uniqueId: apiVideo.author.unique_id,
+        nickname: apiVideo.author.nickname,
+        avatarThumb: apiVideo.author.avatar,
+        verified: false, // Not provided in new API
+        following: 0, // Not provided in new API
+        fans: 0, // Not provided in new API
+      },
+      stats: {
+        diggCount: apiVideo.digg_count,
+        shareCount: apiVideo.share_count,
+        commentCount: apiVideo.comment_count,
+        playCount: apiVideo.play_count,
+        collectCount: apiVideo.collect_count,
+      },
+      webVideoUrl: `https://www.tiktok.com/@${apiVideo.author.unique_id}/video/${apiVideo.video_id}`,
+      originalItem: !apiVideo.is_ad,
+      officalItem: false,
+    };
+  }
+
+  async getVideo(videoUrl: string): Promise<ProcessedTikTokVideo> {
+    const response = await this.getVideoDetails(videoUrl);
+
+    if (response.code !== 0 || !response.data) {
+      throw new Error(`Failed to resolve video ${videoUrl}: ${response.msg}`);
+    }
+
+    return this.processVideoData(response.data);
+  }
+
+  // By default, the play URLs from the video details endpoint, which are signed separately
+  async getFallbackDownloadUrls(videoUrl: string): Promise<string[]> {
+    const response = await this.getVideoDetails(videoUrl);
+
+    if (response.code !== 0 || !response.data) {
+      throw new Error(`Failed to resolve video ${videoUrl}: ${response.msg}`);
+    }
+
+    return [response.data.play, response.data.wmplay].filter((url): url is string => !!url);
+  }
+
+  async searchVideosWithPagination(
+    keyword: string,
+    options: Partial<SearchOptions> = {}
+  ): Promise<ProcessedTikTokVideo[]> {
+    const searchOptions = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+    const { maxPages, targetVideoCount } = searchOptions;
+    const allVideos: ProcessedTikTokVideo[] = [];
+    let cursor: string = "0";
+    let page = 0;
+
+    console.log(`Starting ${this.name} search for "${keyword}" (region: ${searchOptions.region}) with max pages: ${maxPages}, target count: ${targetVideoCount}`);
+    logDebug(`Starting ${this.name} search for "${keyword}" (region: ${searchOptions.region}) with max pages: ${maxPages}, target count: ${targetVideoCount}`);
+
+    while (page < maxPages && allVideos.length < targetVideoCount) {
+      try {
+        console.log(`Fetching page ${page + 1} for keyword "${keyword}", cursor: ${cursor}`);
+        const response = await this.searchVideos(keyword, cursor, searchOptions);
+
+        console.log('API Response structure:', {
+          code: response.code,
+          msg: response.msg,
+          videosLength: response.data?.videos?.length || 0,
+          cursor: response.data?.cursor,
+          hasMore: response.data?.hasMore
+        });
+
+        if (response.code !== 0) {
+          console.error('API returned non-zero code:', response.code, response.msg);
+          break;
+        }
+
+        if (!response.data?.videos || response.data.videos.length === 0) {
+          console.log('No videos found in response, breaking loop');
+          break;
+        }
+
+        // Process the videos
+        const processedVideos = response.data.videos.map(video => this.processVideoData(video));
+        allVideos.push(...processedVideos);
+        console.log(`Added ${processedVideos.length} videos, total: ${allVideos.length}`);
+
+        // Update pagination parameters
+        cursor = response.data.cursor || cursor;
+
+        // Break if no more pages
+        if (!response.data.hasMore) {
+          console.log('No more pages available, breaking loop');
+          break;
+        }
+
+        page++;
+
+        if (this.pageDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.pageDelayMs));
+        }
+      } catch (error) {
+        console.error(`Error fetching page ${page} for keyword "${keyword}":`, error);
+
+        // If it's an API error, let's see the full response
+        if (error instanceof Error) {
+          console.error('Error details:', {
+            message: error.message,
+            stack: error.stack
+          });
+        }
+
+        break;
+      }
+    }
+
+    console.log(`Total videos found: ${allVideos.length}`);
+    return allVideos;
+  }
+
+  filterTopVideos(videos: ProcessedTikTokVideo[], percentage: number = 0.5): ProcessedTikTokVideo[] {
+    // Sort by engagement score (combination of views, likes, shares, comments)
+    const sortedVideos = videos.sort((a, b) => {
+      const scoreA = a.stats.playCount + a.stats.diggCount + a.stats.shareCount + a.stats.commentCount;
+      const scoreB = b.stats.playCount + b.stats.diggCount + b.stats.shareCount + b.stats.commentCount;
+      return scoreB - scoreA;
+    });
+
+    const topCount = Math.ceil(sortedVideos.length * percentage);
+    return sortedVideos.slice(0, topCount);
+  }
+}
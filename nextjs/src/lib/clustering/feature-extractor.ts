@@ -1,6 +1,9 @@
 // @ts-nocheck - Disable type checking for this file due to noUncheckedIndexedAccess
 import { HookAnalysisResult } from "@/lib/clients/gemini";
 import { Database } from "@shared-types/database.types";
+import { MediaSignals } from "@/lib/media-signals";
+import { normalizeCriterionScore } from "@/lib/rubric-criteria";
+import { firstEventTime, HOOK_TIMELINE_SECONDS } from "@/lib/hook-timeline";
 
 export interface HookFeatures {
   // Effectiveness metrics
@@ -41,6 +44,21 @@ export interface HookFeatures {
   likeToViewRatio: number;
   shareToViewRatio: number;
   commentToViewRatio: number;
+
+  // Measured by ffmpeg over the hook (0-1 scale); NaN when the video has no signals
+  sceneCutCount: number;
+  firstSpeechDelay: number;
+  loudness: number;
+  motionIntensity: number;
+  aspectRatio: number;
+  resolution: number;
+
+  // From the analysis timeline: how far into the hook each event first happens
+  // (0-1 scale, 1 if it never does); NaN when the analysis has no timeline
+  timeToFirstTextOverlay: number;
+  timeToFirstCut: number;
+  timeToFirstCameraMove: number;
+  timeToReveal: number;
 }
 
 export interface FeatureVector {
@@ -54,9 +72,59 @@ export interface FeatureVector {
       shareCount: number;
       commentCount: number;
     };
+    mediaSignals: MediaSignals | null;
   };
 }
 
+// Features derived from public view/like/share/comment counts. Drafts have no
+// counts, so comparisons against drafts only use the remaining hook features.
+export const ENGAGEMENT_FEATURE_NAMES: readonly string[] = [
+  'normalizedViews',
+  'normalizedLikes',
+  'normalizedShares',
+  'normalizedComments',
+  'likeToViewRatio',
+  'shareToViewRatio',
+  'commentToViewRatio',
+];
+
+// Features measured locally by ffmpeg (see VideoProcessor.computeMediaSignals)
+export const MEDIA_SIGNAL_FEATURE_NAMES: readonly string[] = [
+  'sceneCutCount',
+  'firstSpeechDelay',
+  'loudness',
+  'motionIntensity',
+  'aspectRatio',
+  'resolution',
+];
+
+// Features from the analysis timeline (prompt version 2 onwards)
+export const TIMELINE_FEATURE_NAMES: readonly string[] = [
+  'timeToFirstTextOverlay',
+  'timeToFirstCut',
+  'timeToFirstCameraMove',
+  'timeToReveal',
+];
+
+// Features that need footage or a full-video score, which text-only hook scripts don't have
+export const FOOTAGE_FEATURE_NAMES: readonly string[] = [
+  'overallScore',
+  'visualHookCount',
+  'textOverlayCount',
+  'transitionCount',
+  ...MEDIA_SIGNAL_FEATURE_NAMES,
+  ...TIMELINE_FEATURE_NAMES,
+];
+
+// Rubric criteria become extra features after the fixed ones, named "criterion:<name>"
+export const CRITERION_FEATURE_PREFIX = 'criterion:';
+
+// A rubric criterion clustered as a feature; which ones depends on the analyses clustered
+export interface CriterionDimension {
+  id: string;
+  name: string;
+}
+
 /**
  * Extract and normalize features from hook analysis data for clustering
  */
@@ -95,7 +163,8 @@ export class FeatureExtractor {
       likeCount: number;
       shareCount: number;
       commentCount: number;
-    }
+    },
+    mediaSignals: MediaSignals | null = null
   ): HookFeatures {
     // Initialize features with defaults
     const features: HookFeatures = {
@@ -137,6 +206,20 @@ export class FeatureExtractor {
       likeToViewRatio: 0,
       shareToViewRatio: 0,
       commentToViewRatio: 0,
+
+      // Media signals (missing until measured)
+      sceneCutCount: NaN,
+      firstSpeechDelay: NaN,
+      loudness: NaN,
+      motionIntensity: NaN,
+      aspectRatio: NaN,
+      resolution: NaN,
+
+      // Timeline (missing for analyses made without one)
+      timeToFirstTextOverlay: NaN,
+      timeToFirstCut: NaN,
+      timeToFirstCameraMove: NaN,
+      timeToReveal: NaN,
     };
 
     // Encode emotional impact
@@ -184,6 +267,36 @@ export class FeatureExtractor {
       features.commentToViewRatio = Math.min(videoMetrics.commentCount / videoMetrics.viewCount, 1);
     }
 
+    // Media signals
+    if (mediaSignals) {
+      features.sceneCutCount = Math.min(mediaSignals.sceneCuts.length / 10, 1);
+      // Share of the window before anyone speaks; no speech at all counts as the whole window
+      features.firstSpeechDelay = mediaSignals.firstSpeechSeconds === null || mediaSignals.windowSeconds <= 0
+        ? 1
+        : Math.min(mediaSignals.firstSpeechSeconds / mediaSignals.windowSeconds, 1);
+      // -60 LUFS (near silent) to -10 LUFS (very loud); no audio track counts as silent
+      features.loudness = mediaSignals.integratedLoudnessLufs === null
+        ? 0
+        : Math.min(Math.max((mediaSignals.integratedLoudnessLufs + 60) / 50, 0), 1);
+      // Scene scores between frames rarely exceed 0.1 without a cut
+      features.motionIntensity = Math.min(mediaSignals.motionIntensity * 10, 1);
+      // 9:16 portrait = 0.28, square = 0.5, 16:9 landscape = 0.89
+      features.aspectRatio = Math.min(mediaSignals.aspectRatio / 2, 1);
+      features.resolution = Math.min(Math.min(mediaSignals.width, mediaSignals.height) / 1080, 1);
+    }
+
+    // Timeline
+    if (analysis.timeline) {
+      const timeInHook = (type: Parameters<typeof firstEventTime>[1]): number => {
+        const time = firstEventTime(analysis.timeline, type);
+        return time === null ? 1 : Math.min(time / HOOK_TIMELINE_SECONDS, 1);
+      };
+      features.timeToFirstTextOverlay = timeInHook('text_overlay');
+      features.timeToFirstCut = timeInHook('cut');
+      features.timeToFirstCameraMove = timeInHook('camera_move');
+      features.timeToReveal = timeInHook('reveal');
+    }
+
     return features;
   }
 
@@ -219,6 +332,16 @@ export class FeatureExtractor {
       features.likeToViewRatio,
       features.shareToViewRatio,
       features.commentToViewRatio,
+      features.sceneCutCount,
+      features.firstSpeechDelay,
+      features.loudness,
+      features.motionIntensity,
+      features.aspectRatio,
+      features.resolution,
+      features.timeToFirstTextOverlay,
+      features.timeToFirstCut,
+      features.timeToFirstCameraMove,
+      features.timeToReveal,
     ];
   }
 
@@ -254,9 +377,36 @@ export class FeatureExtractor {
       'likeToViewRatio',
       'shareToViewRatio',
       'commentToViewRatio',
+      ...MEDIA_SIGNAL_FEATURE_NAMES,
+      ...TIMELINE_FEATURE_NAMES,
     ];
   }
 
+  /**
+   * The rubric criteria scored in any of the analyses, ordered by id so every
+   * vector built from the same analyses lines up
+   */
+  getCriterionDimensions(analyses: HookAnalysisResult[]): CriterionDimension[] {
+    const dimensions = new Map<string, CriterionDimension>();
+    for (const analysis of analyses) {
+      for (const score of analysis.customCriteria || []) {
+        dimensions.set(score.criterionId, { id: score.criterionId, name: score.name });
+      }
+    }
+    return Array.from(dimensions.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Score of each rubric criterion on its scale (0-1); NaN when the analysis
+   * wasn't scored against it
+   */
+  criteriaToVector(analysis: HookAnalysisResult, dimensions: readonly CriterionDimension[]): number[] {
+    return dimensions.map(dimension => {
+      const score = (analysis.customCriteria || []).find(s => s.criterionId === dimension.id);
+      return score ? normalizeCriterionScore(score) : NaN;
+    });
+  }
+
   /**
    * Extract feature vector with metadata
    */
@@ -267,19 +417,41 @@ export class FeatureExtractor {
       likeCount: number;
       shareCount: number;
       commentCount: number;
-    }
+    },
+    mediaSignals: MediaSignals | null = null,
+    criteria: readonly CriterionDimension[] = []
   ): FeatureVector {
-    const features = this.extractFeatures(analysis, videoMetrics);
+    const features = this.extractFeatures(analysis, videoMetrics, mediaSignals);
     return {
-      features: this.featuresToVector(features),
-      featureNames: this.getFeatureNames(),
+      features: [...this.featuresToVector(features), ...this.criteriaToVector(analysis, criteria)],
+      featureNames: [...this.getFeatureNames(), ...criteria.map(c => `${CRITERION_FEATURE_PREFIX}${c.name}`)],
       rawData: {
         hookAnalysis: analysis,
         videoMetrics,
+        mediaSignals,
       },
     };
   }
 
+  /**
+   * List the hook features that differ between two analyses, in raw units (0-1).
+   * Engagement metrics are not compared since both sides are scored without them.
+   */
+  diffFeatures(
+    before: HookAnalysisResult,
+    after: HookAnalysisResult,
+    excludedFeatures: readonly string[] = ENGAGEMENT_FEATURE_NAMES,
+    threshold: number = 0.01
+  ): { feature: string; before: number; after: number }[] {
+    const noMetrics = { viewCount: 0, likeCount: 0, shareCount: 0, commentCount: 0 };
+    const beforeVector = this.featuresToVector(this.extractFeatures(before, noMetrics));
+    const afterVector = this.featuresToVector(this.extractFeatures(after, noMetrics));
+
+    return this.getFeatureNames()
+      .map((feature, idx) => ({ feature, before: beforeVector[idx], after: afterVector[idx] }))
+      .filter(diff => !excludedFeatures.includes(diff.feature) && Math.abs(diff.after - diff.before) > threshold);
+  }
+
   /**
    * Standardize features using z-score normalization
    * @param vectors - Array of feature vectors
@@ -302,33 +474,37 @@ export class FeatureExtractor {
     const numFeatures = firstVector.length;
     const means: number[] = new Array(numFeatures).fill(0);
     const stdDevs: number[] = new Array(numFeatures).fill(0);
+    const counts: number[] = new Array(numFeatures).fill(0);
 
+    // Missing values (NaN, e.g. media signals of older videos) are left out of the
+    // statistics and standardized to 0, i.e. treated as the mean
     // Calculate means
     for (const vector of vectors) {
       for (let i = 0; i < numFeatures; i++) {
+        if (Number.isNaN(vector[i])) continue;
         means[i]! += vector[i]!;
+        counts[i]! += 1;
       }
     }
     for (let i = 0; i < numFeatures; i++) {
-      means[i]! /= vectors.length;
+      means[i] = counts[i]! > 0 ? means[i]! / counts[i]! : 0;
     }
 
     // Calculate standard deviations
     for (const vector of vectors) {
       for (let i = 0; i < numFeatures; i++) {
+        if (Number.isNaN(vector[i])) continue;
         stdDevs[i]! += Math.pow(vector[i]! - means[i]!, 2);
       }
     }
     for (let i = 0; i < numFeatures; i++) {
-      stdDevs[i] = Math.sqrt(stdDevs[i]! / vectors.length);
+      stdDevs[i] = counts[i]! > 0 ? Math.sqrt(stdDevs[i]! / counts[i]!) : 0;
       // Avoid division by zero
       if (stdDevs[i] === 0) stdDevs[i] = 1;
     }
 
     // Standardize vectors
-    const standardized = vectors.map(vector =>
-      vector.map((value, i) => (value - means[i]!) / stdDevs[i]!)
-    );
+    const standardized = this.applyStandardization(vectors, means, stdDevs);
 
     return { standardized, means, stdDevs };
   }
@@ -342,7 +518,7 @@ export class FeatureExtractor {
     stdDevs: number[]
   ): number[][] {
     return vectors.map(vector =>
-      vector.map((value, i) => (value - means[i]!) / stdDevs[i]!)
+      vector.map((value, i) => (Number.isNaN(value) ? 0 : (value - means[i]!) / stdDevs[i]!))
     );
   }
 }
@@ -0,0 +1,47 @@
+/**
+ * Why a video could not be downloaded. Shared by the download job, which
+ * classifies each attempt, and the UI, which shows the final reason.
+ */
+export const DOWNLOAD_FAILURE_REASONS = [
+  "expired", // the signed play URL is no longer valid
+  "geo_blocked", // not available from our region
+  "removed", // deleted or made private by the creator
+  "too_large",
+  "url_not_allowed", // the URL points outside the download allow-list
+  "network",
+  "unknown",
+] as const;
+
+export type DownloadFailureReason = (typeof DOWNLOAD_FAILURE_REASONS)[number];
+
+// Retrying later can't fix these
+export const TERMINAL_DOWNLOAD_FAILURES: readonly DownloadFailureReason[] = ["removed", "geo_blocked", "too_large"];
+
+export function isRetryableDownloadFailure(reason: DownloadFailureReason): boolean {
+  return !TERMINAL_DOWNLOAD_FAILURES.includes(reason);
+}
+
+export const DOWNLOAD_FAILURE_LABELS: Record<DownloadFailureReason, string> = {
+  expired: "Download link expired",
+  geo_blocked: "Blocked in our region",
+  removed: "Removed by creator",
+  too_large: "Video too large",
+  url_not_allowed: "Download host not allowed",
+  network: "Network error",
+  unknown: "Download failed",
+};
+
+// When every attempt fails, report the most specific reason seen
+const REASON_PRIORITY: DownloadFailureReason[] = [
+  "removed",
+  "geo_blocked",
+  "too_large",
+  "expired",
+  "url_not_allowed",
+  "network",
+  "unknown",
+];
+
+export function mostSpecificFailure(reasons: DownloadFailureReason[]): DownloadFailureReason {
+  return REASON_PRIORITY.find(reason => reasons.includes(reason)) ?? "unknown";
+}
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+// Name of the per-user search term (kind "drafts") that uploaded drafts are linked to
+export const DRAFTS_TERM = "Drafts";
+
+export const MAX_DRAFT_SIZE_MB = 200;
+export const MAX_DRAFT_SIZE_BYTES = MAX_DRAFT_SIZE_MB * 1024 * 1024;
+export const DRAFT_TOO_LARGE_MESSAGE = `Drafts must be ${MAX_DRAFT_SIZE_MB}MB or smaller`;
+
+// Hook analysis sends videos to Gemini as video/mp4
+export const DRAFT_CONTENT_TYPES = ["video/mp4"] as const;
+
+// Storage folder for a user's drafts; the server only accepts keys under it
+export function draftStoragePrefix(userId: string): string {
+  return `drafts/${userId}`;
+}
+
+export const draftUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  contentType: z.enum(DRAFT_CONTENT_TYPES),
+  size: z.number().int().positive().max(MAX_DRAFT_SIZE_BYTES, DRAFT_TOO_LARGE_MESSAGE),
+});
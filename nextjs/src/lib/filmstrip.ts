@@ -0,0 +1,18 @@
+// Seconds between filmstrip frames
+export const FILMSTRIP_INTERVAL_SECONDS = 0.5;
+
+// Frame height in pixels; width follows the video's aspect ratio
+export const FILMSTRIP_FRAME_HEIGHT = 320;
+
+// One still of the hook, stored on tiktok_videos.filmstrip
+export interface FilmstripFrame {
+  key: string;
+  url: string; // signed by the API when served; the bucket is private
+  time: number; // seconds from the start of the video
+}
+
+// Frames are stored next to the video: videos/<name>.mp4 -> filmstrips/<name>/000.jpg
+export function filmstripPrefix(videoKey: string): string {
+  const name = videoKey.split("/").pop()!.replace(/\.[^.]+$/, "");
+  return `filmstrips/${name}`;
+}
@@ -0,0 +1,8 @@
+// Number of top-tier hook analyses given to Gemini when generating suggestions
+export const MAX_SUGGESTION_SOURCES = 10;
+
+// Shape of each entry in hook_suggestion_sets.suggestions
+export interface HookSuggestion {
+  text: string;
+  favorite: boolean;
+}
@@ -0,0 +1,62 @@
+/**
+ * The second-by-second timeline of a hook returned by the analysis model (prompt
+ * version 2 onwards). Shared by the analysis schemas, the feature extractor and
+ * the timeline track in the analysis detail view.
+ */
+
+export const HOOK_TIMELINE_EVENT_TYPES = ["speech", "text_overlay", "cut", "camera_move", "reveal"] as const;
+
+export type HookTimelineEventType = (typeof HOOK_TIMELINE_EVENT_TYPES)[number];
+
+export const HOOK_TIMELINE_EVENT_LABELS: Record<HookTimelineEventType, string> = {
+  speech: "Speech",
+  text_overlay: "Text overlay",
+  cut: "Cut",
+  camera_move: "Camera move",
+  reveal: "Reveal",
+};
+
+// Times are seconds from the start of the video; a cut starts and ends at the same time
+export interface HookTimelineEvent {
+  type: HookTimelineEventType;
+  start: number;
+  end: number;
+  description: string;
+}
+
+// The part of the video the timeline features are measured over
+export const HOOK_TIMELINE_SECONDS = 5;
+
+// Other names models use for the event types
+const EVENT_TYPE_ALIASES: Record<string, HookTimelineEventType> = {
+  spoken: "speech",
+  voiceover: "speech",
+  dialogue: "speech",
+  text: "text_overlay",
+  caption: "text_overlay",
+  overlay: "text_overlay",
+  on_screen_text: "text_overlay",
+  transition: "cut",
+  scene_cut: "cut",
+  jump_cut: "cut",
+  camera: "camera_move",
+  camera_movement: "camera_move",
+  zoom: "camera_move",
+  pan: "camera_move",
+  reveal_moment: "reveal",
+  payoff: "reveal",
+  pattern_interrupt: "reveal",
+};
+
+// "Text Overlay", "text-overlay" and "caption" all mean text_overlay; null for anything else
+export function normalizeTimelineEventType(value: string): HookTimelineEventType | null {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((HOOK_TIMELINE_EVENT_TYPES as readonly string[]).includes(key)) return key as HookTimelineEventType;
+  return EVENT_TYPE_ALIASES[key] ?? null;
+}
+
+// Start of the first event of a type, or null if the hook has none
+export function firstEventTime(timeline: HookTimelineEvent[], type: HookTimelineEventType): number | null {
+  const starts = timeline.filter(event => event.type === type).map(event => event.start);
+  return starts.length > 0 ? Math.min(...starts) : null;
+}
@@ -0,0 +1,81 @@
+import sharp from 'sharp';
+import { blobStore } from './clients/storage';
+import { parseAllowedVideoUrl } from './video-processing';
+import {
+  ImageVariant,
+  MIRRORED_IMAGE_WIDTHS,
+  MirroredImage,
+  MirroredImageKind,
+  mirroredImagePrefix,
+} from './mirrored-images';
+
+const IMAGE_FETCH_TIMEOUT_MS = 15_000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export class ImageFetchError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ImageFetchError';
+    this.status = status;
+  }
+}
+
+// Covers and avatars are served from the same TikTok CDNs as videos, so the same allow-list applies
+async function fetchImage(sourceUrl: string): Promise<Buffer> {
+  const url = parseAllowedVideoUrl(sourceUrl);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new ImageFetchError(`Image request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!response.ok) {
+    throw new ImageFetchError(`Image request returned HTTP ${response.status}`, response.status);
+  }
+
+  const declaredSize = Number(response.headers.get('content-length') || 0);
+  if (declaredSize > MAX_IMAGE_BYTES) {
+    throw new ImageFetchError(`Image is ${declaredSize} bytes, over the ${MAX_IMAGE_BYTES} byte limit`);
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new ImageFetchError(`Image is ${buffer.length} bytes, over the ${MAX_IMAGE_BYTES} byte limit`);
+  }
+  return buffer;
+}
+
+/**
+ * Download an image and store a WebP copy per variant under the kind's prefix,
+ * e.g. covers/<video id>/card.webp. Existing copies are overwritten.
+ */
+export async function mirrorImage(kind: MirroredImageKind, id: string, sourceUrl: string): Promise<MirroredImage> {
+  const source = await fetchImage(sourceUrl);
+  const prefix = mirroredImagePrefix(kind, id);
+  const widths = MIRRORED_IMAGE_WIDTHS[kind];
+
+  const variants = {} as MirroredImage['variants'];
+  for (const variant of Object.keys(widths) as ImageVariant[]) {
+    const resized = await sharp(source)
+      .rotate() // honour EXIF orientation
+      .resize({ width: widths[variant], withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+
+    const uploaded = await blobStore.put(`${prefix}/${variant}.webp`, resized, { contentType: 'image/webp' });
+    variants[variant] = { key: uploaded.key, url: uploaded.publicUrl, width: widths[variant] };
+  }
+
+  return {
+    sourceUrl,
+    mirroredAt: new Date().toISOString(),
+    variants,
+  };
+}
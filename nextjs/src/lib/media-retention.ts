@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+/**
+ * Per-workspace retention of stored videos and filmstrips, stored on
+ * workspace_settings. Shared by the tRPC router, the storage lifecycle job and
+ * the storage settings UI.
+ */
+
+export const MEDIA_RETENTION_POLICIES = [
+  { value: "forever", label: "Keep forever" },
+  { value: "days_after_analysis", label: "Delete N days after analysis" },
+  { value: "after_analysis", label: "Delete after analysis, keep filmstrip" },
+] as const;
+
+export type MediaRetentionPolicy = (typeof MEDIA_RETENTION_POLICIES)[number]["value"];
+
+export const MAX_MEDIA_RETENTION_DAYS = 365;
+
+export const mediaRetentionSchema = z.discriminatedUnion("policy", [
+  z.object({ policy: z.literal("forever") }),
+  z.object({ policy: z.literal("days_after_analysis"), days: z.number().int().min(1).max(MAX_MEDIA_RETENTION_DAYS) }),
+  z.object({ policy: z.literal("after_analysis") }),
+]);
+
+export type MediaRetention = z.infer<typeof mediaRetentionSchema>;
+
+// Workspaces without settings keep everything, as before retention existed
+export const DEFAULT_MEDIA_RETENTION: MediaRetention = { policy: "forever" };
+
+export function mediaRetentionFromRow(
+  row: { media_retention: string; media_retention_days: number | null } | null | undefined
+): MediaRetention {
+  if (row?.media_retention === "days_after_analysis" && row.media_retention_days) {
+    return { policy: "days_after_analysis", days: row.media_retention_days };
+  }
+  if (row?.media_retention === "after_analysis") return { policy: "after_analysis" };
+  return DEFAULT_MEDIA_RETENTION;
+}
+
+// Storage key of a video's copy, derived from its row id so a retried upload overwrites it
+export function videoStorageKey(videoId: string): string {
+  return `videos/${videoId}.mp4`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Milliseconds after analysis until the video and its filmstrip may go; null keeps them
+function retentionDelays(retention: MediaRetention): { video: number | null; filmstrip: number | null } {
+  switch (retention.policy) {
+    case "forever":
+      return { video: null, filmstrip: null };
+    case "days_after_analysis":
+      return { video: retention.days * DAY_MS, filmstrip: retention.days * DAY_MS };
+    case "after_analysis":
+      return { video: 0, filmstrip: null };
+  }
+}
+
+// The longest of the delays; null (keep) wins
+function longestDelay(delays: (number | null)[]): number | null {
+  return delays.some(delay => delay === null) ? null : Math.max(...(delays as number[]));
+}
+
+/**
+ * Which of a video's stored media may be deleted now. A video can be in several
+ * workspaces, so it's kept until every owner's policy lets it go.
+ */
+export function expiredMedia(
+  ownerRetention: MediaRetention[],
+  analyzedAt: Date,
+  now: Date = new Date()
+): { video: boolean; filmstrip: boolean } {
+  const delays = (ownerRetention.length > 0 ? ownerRetention : [DEFAULT_MEDIA_RETENTION]).map(retentionDelays);
+  const age = now.getTime() - analyzedAt.getTime();
+
+  const videoDelay = longestDelay(delays.map(delay => delay.video));
+  const filmstripDelay = longestDelay(delays.map(delay => delay.filmstrip));
+
+  return {
+    video: videoDelay !== null && age >= videoDelay,
+    filmstrip: filmstripDelay !== null && age >= filmstripDelay,
+  };
+}
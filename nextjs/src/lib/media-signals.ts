@@ -0,0 +1,20 @@
+/**
+ * Deterministic signals measured with ffmpeg over the first seconds of a video,
+ * as opposed to the features Gemini reports about the hook.
+ */
+export interface MediaSignals {
+  windowSeconds: number; // signals cover 0 to windowSeconds
+  sceneCuts: number[]; // timestamps (s) of detected cuts
+  firstSpeechSeconds: number | null; // first audio above the noise floor; null if none in the window
+  integratedLoudnessLufs: number | null; // EBU R128 integrated loudness; null if there is no audio track
+  motionIntensity: number; // mean frame-to-frame scene score (0-1), cuts excluded
+  width: number; // as displayed, i.e. after rotation
+  height: number;
+  aspectRatio: number; // width / height
+}
+
+// Frame-to-frame scene score above which a frame counts as a cut
+export const SCENE_CUT_THRESHOLD = 0.3;
+
+// Audio quieter than this is treated as silence when looking for the first speech
+export const SILENCE_NOISE_DB = -35;
@@ -0,0 +1,38 @@
+// TikTok cover and avatar URLs are signed and expire within days, so both are
+// copied into the storage bucket, resized for cards and the detail view.
+
+export type ImageVariant = "card" | "detail";
+
+export type MirroredImageKind = "cover" | "avatar";
+
+// Target width in pixels per variant; images are never enlarged
+export const MIRRORED_IMAGE_WIDTHS: Record<MirroredImageKind, Record<ImageVariant, number>> = {
+  cover: { card: 360, detail: 720 },
+  avatar: { card: 64, detail: 192 },
+};
+
+// How long to wait before retrying a video whose images couldn't be mirrored
+export const IMAGE_MIRROR_RETRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stored on tiktok_videos.thumbnail_mirror and tiktok_videos.creator_avatar_mirror.
+// The bucket is private, so the API swaps each variant's url for a signed one.
+export interface MirroredImage {
+  sourceUrl: string;
+  mirroredAt: string;
+  variants: Record<ImageVariant, { key: string; url: string; width: number }>;
+}
+
+// covers/<video id>/card.webp; avatars are shared by all of a creator's videos
+export function mirroredImagePrefix(kind: MirroredImageKind, id: string): string {
+  const safeId = id.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${kind === "cover" ? "covers" : "avatars"}/${safeId}`;
+}
+
+// Prefer the mirrored copy; fall back to the original URL for rows not mirrored yet
+export function mirroredImageUrl(
+  mirror: MirroredImage | null | undefined,
+  variant: ImageVariant,
+  fallbackUrl?: string | null
+): string | null {
+  return mirror?.variants?.[variant]?.url || fallbackUrl || null;
+}
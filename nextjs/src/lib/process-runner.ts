@@ -0,0 +1,114 @@
+import { spawn } from 'child_process';
+
+// Keep only the end of stderr; ffmpeg prints its actual error last
+const MAX_STDERR_CHARS = 4000;
+
+export interface RunProcessOptions {
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+}
+
+export interface RunProcessResult {
+  stdout: string;
+  stdoutBuffer: Buffer; // raw bytes, for binary output such as rawvideo frames
+  stderr: string;
+}
+
+export class ProcessError extends Error {
+  readonly command: string;
+  readonly args: string[];
+  readonly exitCode: number | null;
+  readonly signal: NodeJS.Signals | null;
+  readonly stderr: string;
+  readonly timedOut: boolean;
+
+  constructor(
+    message: string,
+    details: {
+      command: string;
+      args: string[];
+      exitCode: number | null;
+      signal: NodeJS.Signals | null;
+      stderr: string;
+      timedOut: boolean;
+    }
+  ) {
+    super(message);
+    this.name = 'ProcessError';
+    this.command = details.command;
+    this.args = details.args;
+    this.exitCode = details.exitCode;
+    this.signal = details.signal;
+    this.stderr = details.stderr;
+    this.timedOut = details.timedOut;
+  }
+}
+
+/**
+ * Run a binary with an argument array. No shell is involved, so arguments
+ * (URLs, file paths) are passed through verbatim and never interpreted.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  { timeoutMs = 60_000, maxOutputBytes = 10 * 1024 * 1024 }: RunProcessOptions = {}
+): Promise<RunProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { shell: false, stdio: ['ignore', 'pipe', 'pipe'] });
+
+    const stdoutChunks: Buffer[] = [];
+    let stdoutBytes = 0;
+    let stderr = '';
+    let timedOut = false;
+    let outputExceeded = false;
+    let settled = false;
+
+    const fail = (message: string, exitCode: number | null, signal: NodeJS.Signals | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      reject(new ProcessError(message, { command, args, exitCode, signal, stderr: stderr.trim(), timedOut }));
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdoutBytes += chunk.length;
+      if (stdoutBytes > maxOutputBytes) {
+        outputExceeded = true;
+        child.kill('SIGKILL');
+        return;
+      }
+      stdoutChunks.push(chunk);
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_CHARS);
+    });
+
+    child.on('error', (error) => {
+      fail(`${command} could not be started: ${error.message}`, null, null);
+    });
+
+    child.on('close', (exitCode, signal) => {
+      if (timedOut) {
+        return fail(`${command} timed out after ${timeoutMs}ms`, exitCode, signal);
+      }
+      if (outputExceeded) {
+        return fail(`${command} produced more than ${maxOutputBytes} bytes of output`, exitCode, signal);
+      }
+      if (exitCode !== 0) {
+        const lastLine = stderr.trim().split('\n').pop() || 'no error output';
+        return fail(`${command} exited with code ${exitCode ?? signal}: ${lastLine}`, exitCode, signal);
+      }
+
+      settled = true;
+      clearTimeout(timer);
+      const stdoutBuffer = Buffer.concat(stdoutChunks);
+      resolve({ stdout: stdoutBuffer.toString(), stdoutBuffer, stderr });
+    });
+  });
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+/**
+ * User-defined rubric criteria, scored by the analysis model alongside the fixed
+ * prompt. Shared by the tRPC router, the analysis jobs, the analysis schemas and
+ * the rubric settings UI.
+ */
+
+export const MAX_RUBRIC_CRITERIA = 8; // per workspace, so prompts stay short
+export const MAX_RUBRIC_SCALE = 100;
+
+export const rubricCriterionInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    description: z.string().trim().max(500).default(""),
+    scaleMin: z.number().int().min(0).max(MAX_RUBRIC_SCALE).default(1),
+    scaleMax: z.number().int().min(1).max(MAX_RUBRIC_SCALE).default(10),
+    // null applies the criterion to every search term in the workspace
+    searchTermId: z.string().uuid().nullable().default(null),
+  })
+  .refine((criterion) => criterion.scaleMax > criterion.scaleMin, {
+    message: "The top of the scale must be above the bottom",
+    path: ["scaleMax"],
+  });
+
+export type RubricCriterionInput = z.infer<typeof rubricCriterionInputSchema>;
+
+export interface RubricCriterion {
+  id: string;
+  userId: string; // the workspace the criterion, and so its scores, belong to
+  name: string;
+  description: string;
+  scaleMin: number;
+  scaleMax: number;
+}
+
+// How an analysis scored one criterion. The name and scale are a snapshot taken at
+// analysis time, so the result still reads correctly after the criterion is edited.
+// Stored per user in hook_criterion_scores, not in the shared analysis_result.
+export interface CustomCriterionScore {
+  criterionId: string;
+  name: string;
+  scaleMin: number;
+  scaleMax: number;
+  score: number;
+  rationale: string;
+}
+
+export function rubricCriterionFromRow(row: {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  scale_min: number;
+  scale_max: number;
+}): RubricCriterion {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    description: row.description,
+    scaleMin: row.scale_min,
+    scaleMax: row.scale_max,
+  };
+}
+
+export function customCriterionScoreFromRow(row: {
+  criterion_id: string;
+  name: string;
+  scale_min: number;
+  scale_max: number;
+  score: number;
+  rationale: string;
+}): CustomCriterionScore {
+  return {
+    criterionId: row.criterion_id,
+    name: row.name,
+    scaleMin: row.scale_min,
+    scaleMax: row.scale_max,
+    score: row.score,
+    rationale: row.rationale,
+  };
+}
+
+// Position of a score on its criterion's scale, 0-1
+export function normalizeCriterionScore(score: Pick<CustomCriterionScore, "score" | "scaleMin" | "scaleMax">): number {
+  const range = score.scaleMax - score.scaleMin;
+  if (range <= 0) return 0;
+  return Math.min(1, Math.max(0, (score.score - score.scaleMin) / range));
+}
@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+/**
+ * Per-search-term parameters for the TikTok search endpoint.
+ * Shared by the tRPC router, the Inngest search job and the search terms UI.
+ */
+
+export const SEARCH_REGIONS = [
+  { value: "us", label: "United States" },
+  { value: "gb", label: "United Kingdom" },
+  { value: "de", label: "Germany" },
+  { value: "br", label: "Brazil" },
+  { value: "fr", label: "France" },
+  { value: "es", label: "Spain" },
+  { value: "it", label: "Italy" },
+  { value: "ca", label: "Canada" },
+  { value: "au", label: "Australia" },
+  { value: "mx", label: "Mexico" },
+] as const;
+
+// Values match the `publish_time` parameter of the search endpoint (days)
+export const PUBLISH_TIME_WINDOWS = [
+  { value: 0, label: "All time" },
+  { value: 1, label: "Past 24 hours" },
+  { value: 7, label: "This week" },
+  { value: 30, label: "This month" },
+  { value: 90, label: "Last 3 months" },
+  { value: 180, label: "Last 6 months" },
+] as const;
+
+// Values match the `sort_type` parameter of the search endpoint
+export const SORT_TYPES = [
+  { value: 0, label: "Relevance" },
+  { value: 1, label: "Most liked" },
+  { value: 3, label: "Most recent" },
+] as const;
+
+export const CRAWL_SCHEDULES = [
+  { value: "off", label: "Off" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+] as const;
+
+export type CrawlSchedule = (typeof CRAWL_SCHEDULES)[number]["value"];
+
+export const crawlScheduleSchema = z.enum(["off", "daily", "weekly"]);
+
+// Minimum time between scheduled crawls of a term
+export const CRAWL_SCHEDULE_INTERVAL_MS: Record<Exclude<CrawlSchedule, "off">, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const MAX_SEARCH_PAGES = 30;
+export const MAX_TARGET_VIDEO_COUNT = 500;
+
+type RegionCode = (typeof SEARCH_REGIONS)[number]["value"];
+const regionCodes = SEARCH_REGIONS.map(r => r.value) as [RegionCode, ...RegionCode[]];
+const publishTimeValues = PUBLISH_TIME_WINDOWS.map(w => w.value) as number[];
+const sortTypeValues = SORT_TYPES.map(s => s.value) as number[];
+
+export const searchOptionsSchema = z.object({
+  region: z.enum(regionCodes),
+  publishTime: z.number().int().refine(v => publishTimeValues.includes(v), {
+    message: "Unsupported publish time window",
+  }),
+  sortType: z.number().int().refine(v => sortTypeValues.includes(v), {
+    message: "Unsupported sort order",
+  }),
+  maxPages: z.number().int().min(1).max(MAX_SEARCH_PAGES),
+  targetVideoCount: z.number().int().min(1).max(MAX_TARGET_VIDEO_COUNT),
+});
+
+export type SearchOptions = z.infer<typeof searchOptionsSchema>;
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  region: "us",
+  publishTime: 0,
+  sortType: 0,
+  maxPages: 10,
+  targetVideoCount: 100,
+};
+
+// Map a search_terms row to the options passed through the search event
+export function searchOptionsFromRow(row: {
+  region: string;
+  publish_time: number;
+  sort_type: number;
+  max_pages: number;
+  target_video_count: number;
+}): SearchOptions {
+  return {
+    region: row.region as RegionCode,
+    publishTime: row.publish_time,
+    sortType: row.sort_type,
+    maxPages: row.max_pages,
+    targetVideoCount: row.target_video_count,
+  };
+}
+
+// Map (partial) options to search_terms columns
+export function searchOptionsToColumns(options: Partial<SearchOptions>) {
+  return {
+    ...(options.region !== undefined && { region: options.region }),
+    ...(options.publishTime !== undefined && { publish_time: options.publishTime }),
+    ...(options.sortType !== undefined && { sort_type: options.sortType }),
+    ...(options.maxPages !== undefined && { max_pages: options.maxPages }),
+    ...(options.targetVideoCount !== undefined && { target_video_count: options.targetVideoCount }),
+  };
+}
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+// Max URLs accepted by a single import
+export const MAX_IMPORT_URLS = 20;
+
+// Name of the per-user search term (kind "manual") that imported videos are linked to
+export const MANUAL_IMPORTS_TERM = "Manual imports";
+
+const TIKTOK_HOSTS = ["tiktok.com", "www.tiktok.com", "m.tiktok.com", "vm.tiktok.com", "vt.tiktok.com"];
+
+// Full video links (tiktok.com/@user/video/<id>) or short share links (vm.tiktok.com/<code>)
+export function isTikTokVideoUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  if (!TIKTOK_HOSTS.includes(url.hostname)) return false;
+
+  if (url.hostname === "vm.tiktok.com" || url.hostname === "vt.tiktok.com") {
+    return /^\/[A-Za-z0-9]+\/?$/.test(url.pathname);
+  }
+  return /\/video\/\d+/.test(url.pathname);
+}
+
+export const tiktokVideoUrlSchema = z.string().trim().refine(isTikTokVideoUrl, {
+  message: "Not a TikTok video URL",
+});
+
+// Split pasted text (one URL per line, or separated by spaces/commas) into unique URLs
+export function parseTikTokUrls(text: string): string[] {
+  const candidates = text
+    .split(/[\s,]+/)
+    .map(part => part.trim())
+    .filter(Boolean);
+  return Array.from(new Set(candidates));
+}
@@ -0,0 +1,161 @@
+import { VideoSourceProvider } from './clients/video-source';
+import { TikTokDownloadResponse } from './clients/tiktok';
+import { VideoDownloadError } from './video-processing';
+import { logDebug } from './debug-logger';
+import { DownloadFailureReason, mostSpecificFailure } from './download-failures';
+
+/**
+ * One way of getting a download URL for a video. Strategies are tried in order
+ * until a download succeeds. resolveUrls returns no URLs to skip the strategy.
+ */
+export interface DownloadStrategy {
+  name: string;
+  resolveUrls(): Promise<string[]>;
+}
+
+export interface DownloadAttempt {
+  strategy: string;
+  reason: DownloadFailureReason;
+  message: string;
+}
+
+export class DownloadChainError extends Error {
+  readonly reason: DownloadFailureReason;
+  readonly attempts: DownloadAttempt[];
+
+  constructor(attempts: DownloadAttempt[]) {
+    const reason = attempts.length > 0 ? mostSpecificFailure(attempts.map(a => a.reason)) : 'unknown';
+    const summary = attempts.map(a => `${a.strategy}: ${a.message}`).join('; ') || 'no download URL available';
+    super(`Failed to download video (${reason}): ${summary}`);
+    this.name = 'DownloadChainError';
+    this.reason = reason;
+    this.attempts = attempts;
+  }
+}
+
+// Phrases the download API uses for videos that are gone or region-locked
+const REMOVED_PATTERN = /removed|deleted|private|not exist|no longer available|video not found|url parsing is failed/i;
+const GEO_BLOCKED_PATTERN = /region|country|geo/i;
+const NETWORK_PATTERN = /timeout|timed out|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|fetch failed|socket hang up/i;
+
+/**
+ * Map a failed attempt to a reason. Play URLs are signed and short-lived, so a
+ * 403/404/410 from the CDN means the URL went stale, not that the video is gone;
+ * only the API saying so counts as removed.
+ */
+export function classifyDownloadError(error: unknown): DownloadFailureReason {
+  if (error instanceof VideoDownloadError) {
+    switch (error.reason) {
+      case 'too_large':
+        return 'too_large';
+      case 'url_not_allowed':
+        return 'url_not_allowed';
+      case 'timeout':
+      case 'network':
+        return 'network';
+      case 'http_error':
+        if (error.status === 451) return 'geo_blocked';
+        if (error.status === 403 || error.status === 404 || error.status === 410) return 'expired';
+        if (error.status !== undefined && error.status >= 500) return 'network';
+        return 'unknown';
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (REMOVED_PATTERN.test(message)) return 'removed';
+  if (GEO_BLOCKED_PATTERN.test(message)) return 'geo_blocked';
+  if (NETWORK_PATTERN.test(message)) return 'network';
+  return 'unknown';
+}
+
+/**
+ * The strategy chain for a TikTok video: the play URL captured at search time,
+ * a freshly signed URL from the download endpoint, the watermarked variant of
+ * that URL, then whatever the video source offers as a last resort
+ */
+export function tiktokDownloadStrategies(
+  source: VideoSourceProvider,
+  videoUrl: string,
+  directDownloadUrl?: string
+): DownloadStrategy[] {
+  // The refreshed and watermarked strategies share one download endpoint call
+  let downloadResponse: Promise<TikTokDownloadResponse> | null = null;
+  const fetchDownloadUrls = () => (downloadResponse ??= source.downloadVideo(videoUrl));
+
+  return [
+    {
+      name: 'direct',
+      resolveUrls: async () => (directDownloadUrl ? [directDownloadUrl] : []),
+    },
+    {
+      name: 'refreshed',
+      resolveUrls: async () => {
+        const { play } = await fetchDownloadUrls();
+        return play ? [play] : [];
+      },
+    },
+    {
+      name: 'watermarked',
+      resolveUrls: async () => {
+        const { play_watermark } = await fetchDownloadUrls();
+        return play_watermark ? [play_watermark] : [];
+      },
+    },
+    {
+      name: `${source.name} fallback`,
+      resolveUrls: () => source.getFallbackDownloadUrls(videoUrl),
+    },
+  ];
+}
+
+/**
+ * Try each strategy's URLs in turn and return the first successful download.
+ * Stops early once an attempt shows the video itself is unavailable (removed or
+ * too large), since other URLs for the same video won't do better.
+ */
+export async function downloadWithFallbacks(
+  strategies: DownloadStrategy[],
+  download: (url: string) => Promise<string>
+): Promise<{ path: string; strategy: string; attempts: DownloadAttempt[] }> {
+  const attempts: DownloadAttempt[] = [];
+  const triedUrls = new Set<string>();
+
+  const record = (strategy: string, error: unknown) => {
+    const attempt: DownloadAttempt = {
+      strategy,
+      reason: classifyDownloadError(error),
+      message: error instanceof Error ? error.message : String(error),
+    };
+    attempts.push(attempt);
+    logDebug(`[downloader] ${strategy} failed (${attempt.reason}): ${attempt.message}`);
+    return attempt.reason === 'removed' || attempt.reason === 'too_large';
+  };
+
+  for (const strategy of strategies) {
+    let urls: string[];
+    try {
+      urls = await strategy.resolveUrls();
+    } catch (error) {
+      if (record(strategy.name, error)) break;
+      continue;
+    }
+
+    let stop = false;
+    for (const url of urls) {
+      if (triedUrls.has(url)) continue;
+      triedUrls.add(url);
+
+      try {
+        const path = await download(url);
+        logDebug(`[downloader] Downloaded with ${strategy.name} after ${attempts.length} failed attempt(s)`);
+        return { path, strategy: strategy.name, attempts };
+      } catch (error) {
+        stop = record(strategy.name, error);
+        if (stop) break;
+      }
+    }
+    if (stop) break;
+  }
+
+  throw new DownloadChainError(attempts);
+}
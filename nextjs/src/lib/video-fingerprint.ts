@@ -0,0 +1,83 @@
+/**
+ * Perceptual fingerprint of the opening seconds of a video: one 64-bit difference
+ * hash (dHash) per sampled frame, hex-encoded. Re-encodes, re-scales and small
+ * watermarks barely change a dHash, so reposts of the same footage stay close.
+ */
+export type PerceptualHash = string[];
+
+export const FINGERPRINT_SECONDS = 6;
+export const FINGERPRINT_FPS = 2;
+
+// Average differing bits per frame (out of 64) at or below which two videos are near-duplicates
+export const NEAR_DUPLICATE_MAX_DISTANCE = 10;
+
+// Reposts are often trimmed by a fraction of a second; compare with the frames shifted up to this many samples
+const MAX_FRAME_OFFSET = 2;
+
+// Fewer overlapping frames than this is too little to call a match
+const MIN_OVERLAPPING_FRAMES = 4;
+
+/**
+ * dHash of a 9x8 grayscale frame (72 bytes, row-major): bit i is set when a pixel
+ * is brighter than its right-hand neighbour
+ */
+export function dHashFrame(pixels: Uint8Array): string {
+  if (pixels.length !== 72) {
+    throw new Error(`dHash expects a 9x8 frame (72 bytes), got ${pixels.length}`);
+  }
+
+  let hex = "";
+  for (let row = 0; row < 8; row++) {
+    for (let half = 0; half < 2; half++) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const col = half * 4 + bit;
+        nibble = (nibble << 1) | (pixels[row * 9 + col]! > pixels[row * 9 + col + 1]! ? 1 : 0);
+      }
+      hex += nibble.toString(16);
+    }
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let bits = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16);
+    while (diff) {
+      bits += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return bits;
+}
+
+/**
+ * Average per-frame Hamming distance between two fingerprints at the best
+ * alignment, or null when they don't overlap enough to compare
+ */
+export function fingerprintDistance(a: PerceptualHash, b: PerceptualHash): number | null {
+  let best: number | null = null;
+
+  for (let offset = -MAX_FRAME_OFFSET; offset <= MAX_FRAME_OFFSET; offset++) {
+    let total = 0;
+    let compared = 0;
+    for (let i = 0; i < a.length; i++) {
+      const other = b[i + offset];
+      if (other === undefined) continue;
+      total += hammingDistance(a[i]!, other);
+      compared++;
+    }
+    if (compared < MIN_OVERLAPPING_FRAMES) continue;
+
+    const average = total / compared;
+    if (best === null || average < best) best = average;
+  }
+
+  return best;
+}
+
+export function isNearDuplicate(a: PerceptualHash, b: PerceptualHash): boolean {
+  const distance = fingerprintDistance(a, b);
+  return distance !== null && distance <= NEAR_DUPLICATE_MAX_DISTANCE;
+}
@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+/**
+ * Which engagement numbers to use when comparing videos:
+ * - first_seen: counts captured by the search job when it saved the video
+ * - latest: counts from the most recent metrics refresh
+ * - velocity: latest counts divided by hours since the video was published
+ */
+export const METRICS_MODES = [
+  { value: "first_seen", label: "First-seen counts" },
+  { value: "latest", label: "Latest counts" },
+  { value: "velocity", label: "Velocity (per hour)" },
+] as const;
+
+export type MetricsMode = (typeof METRICS_MODES)[number]["value"];
+
+export const metricsModeSchema = z.enum(["first_seen", "latest", "velocity"]);
+
+// Refresh a video's metrics at most this often
+export const METRICS_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Stop refreshing videos older than this; their counts have mostly settled
+export const METRICS_REFRESH_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface VideoMetrics {
+  viewCount: number;
+  likeCount: number;
+  shareCount: number;
+  commentCount: number;
+}
+
+export interface MetricsSnapshot {
+  view_count: number;
+  captured_at: string;
+}
+
+export interface DerivedVideoMetrics {
+  viewsPerHour: number | null;
+  viewGrowth24h: number | null;
+  viewGrowth7d: number | null;
+}
+
+// Columns of tiktok_videos needed to resolve metrics in any mode
+export interface VideoMetricsColumns {
+  view_count: number | null;
+  like_count: number | null;
+  share_count: number | null;
+  comment_count: number | null;
+  latest_view_count: number | null;
+  latest_like_count: number | null;
+  latest_share_count: number | null;
+  latest_comment_count: number | null;
+  published_at: string | null;
+  metrics_refreshed_at: string | null;
+}
+
+function hoursBetween(from: string | number | Date, to: string | number | Date): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+}
+
+/**
+ * Resolve the counts to use for a video in the given mode. Videos that were never
+ * refreshed fall back to their first-seen counts.
+ */
+export function resolveVideoMetrics(video: VideoMetricsColumns, mode: MetricsMode = "first_seen"): VideoMetrics {
+  const firstSeen: VideoMetrics = {
+    viewCount: video.view_count || 0,
+    likeCount: video.like_count || 0,
+    shareCount: video.share_count || 0,
+    commentCount: video.comment_count || 0,
+  };
+
+  if (mode === "first_seen") return firstSeen;
+
+  const latest: VideoMetrics = {
+    viewCount: video.latest_view_count ?? firstSeen.viewCount,
+    likeCount: video.latest_like_count ?? firstSeen.likeCount,
+    shareCount: video.latest_share_count ?? firstSeen.shareCount,
+    commentCount: video.latest_comment_count ?? firstSeen.commentCount,
+  };
+
+  if (mode === "latest" || !video.published_at) return latest;
+
+  // Clamp to one hour so brand new videos don't get inflated rates
+  const measuredAt = video.metrics_refreshed_at || Date.now();
+  const hours = Math.max(1, hoursBetween(video.published_at, measuredAt));
+
+  return {
+    viewCount: latest.viewCount / hours,
+    likeCount: latest.likeCount / hours,
+    shareCount: latest.shareCount / hours,
+    commentCount: latest.commentCount / hours,
+  };
+}
+
+/**
+ * Compute views/hour since publish and view growth over the last 24h / 7d from
+ * a video's snapshots. Growth is null until there is a snapshot old enough to
+ * compare against.
+ */
+export function computeDerivedMetrics(
+  snapshots: MetricsSnapshot[],
+  publishedAt: string | null,
+  now: Date = new Date()
+): DerivedVideoMetrics {
+  if (snapshots.length === 0) {
+    return { viewsPerHour: null, viewGrowth24h: null, viewGrowth7d: null };
+  }
+
+  const sorted = [...snapshots].sort(
+    (a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime()
+  );
+  const latest = sorted[sorted.length - 1]!;
+
+  const viewsPerHour = publishedAt
+    ? latest.view_count / Math.max(1, hoursBetween(publishedAt, latest.captured_at))
+    : null;
+
+  // Growth since the most recent snapshot taken at least `windowMs` ago
+  const growthOver = (windowMs: number): number | null => {
+    const cutoff = now.getTime() - windowMs;
+    const baseline = sorted.filter(s => new Date(s.captured_at).getTime() <= cutoff).pop();
+    return baseline ? latest.view_count - baseline.view_count : null;
+  };
+
+  return {
+    viewsPerHour,
+    viewGrowth24h: growthOver(24 * HOUR_MS),
+    viewGrowth7d: growthOver(7 * 24 * HOUR_MS),
+  };
+}
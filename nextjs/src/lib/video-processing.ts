@@ -1,50 +1,227 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { readFile, writeFile, unlink } from 'fs/promises';
-import { join } from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdtemp, readdir, rm, unlink } from 'fs/promises';
+import { join, resolve } from 'path';
 import { tmpdir } from 'os';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import crypto from 'crypto';
 import { logDebug } from './debug-logger';
+import { runProcess } from './process-runner';
+import {
+  AnalysisWindow,
+  AnalysisWindowOptions,
+  analysisWindowOptionsFromEnv,
+  describeAnalysisWindow,
+  planAnalysisWindow,
+} from './analysis-window';
+import { MediaSignals, SCENE_CUT_THRESHOLD, SILENCE_NOISE_DB } from './media-signals';
+import { FILMSTRIP_FRAME_HEIGHT, FILMSTRIP_INTERVAL_SECONDS } from './filmstrip';
+import { dHashFrame, FINGERPRINT_FPS, FINGERPRINT_SECONDS, PerceptualHash } from './video-fingerprint';
+
+// CDNs the TikTok download API hands out video URLs on. Subdomains are allowed.
+// Extra hosts can be added with VIDEO_DOWNLOAD_ALLOWED_HOSTS (comma-separated).
+const DEFAULT_ALLOWED_VIDEO_HOSTS = [
+  'tiktok.com',
+  'tiktokcdn.com',
+  'tiktokcdn-us.com',
+  'tiktokcdn-eu.com',
+  'tiktokv.com',
+  'tiktokv.us',
+  'byteoversea.com',
+  'ibytedtos.com',
+  'muscdn.com',
+  'tikwm.com',
+];
+
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+const MAX_DOWNLOAD_BYTES = 500 * 1024 * 1024;
+const PROBE_TIMEOUT_MS = 30_000;
+const ENCODE_TIMEOUT_MS = 300_000;
+
+export type VideoDownloadErrorReason = 'url_not_allowed' | 'http_error' | 'too_large' | 'timeout' | 'network';
+
+export class VideoDownloadError extends Error {
+  readonly reason: VideoDownloadErrorReason;
+  readonly status?: number;
+
+  constructor(reason: VideoDownloadErrorReason, message: string, status?: number) {
+    super(message);
+    this.name = 'VideoDownloadError';
+    this.reason = reason;
+    this.status = status;
+  }
+}
+
+export function getAllowedVideoHosts(): string[] {
+  const extra = (process.env.VIDEO_DOWNLOAD_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_ALLOWED_VIDEO_HOSTS, ...extra];
+}
+
+/**
+ * Parse a video download URL and reject anything that is not plain https on an allow-listed host
+ */
+export function parseAllowedVideoUrl(value: string, allowedHosts: string[] = getAllowedVideoHosts()): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new VideoDownloadError('url_not_allowed', 'Video URL is not a valid URL');
+  }
 
-const execAsync = promisify(exec);
+  if (url.protocol !== 'https:') {
+    throw new VideoDownloadError('url_not_allowed', `Video URL scheme ${url.protocol} is not allowed`);
+  }
+  if (url.username || url.password) {
+    throw new VideoDownloadError('url_not_allowed', 'Video URL must not contain credentials');
+  }
+  if (url.port && url.port !== '443') {
+    throw new VideoDownloadError('url_not_allowed', `Video URL port ${url.port} is not allowed`);
+  }
+
+  const host = url.hostname.toLowerCase();
+  const allowed = allowedHosts.some(domain => host === domain || host.endsWith(`.${domain}`));
+  if (!allowed) {
+    throw new VideoDownloadError('url_not_allowed', `Video host ${host} is not allowed`);
+  }
+
+  return url;
+}
+
+// Force ffmpeg/ffprobe to treat the argument as a local file: an absolute path can't be
+// mistaken for an option, and the file: prefix disables other protocols (http:, concat:, ...)
+function localMediaArg(path: string): string {
+  return `file:${resolve(path)}`;
+}
+
+// Parse the output of ffmpeg's metadata/ametadata print mode:
+//   frame:12   pts:6144   pts_time:0.4
+//   lavfi.scene_score=0.012
+function parseMetadataFrames(output: string): { time: number; values: Record<string, number> }[] {
+  const frames: { time: number; values: Record<string, number> }[] = [];
+
+  for (const line of output.split('\n')) {
+    const frameMatch = line.match(/pts_time:(\S+)/);
+    if (frameMatch) {
+      frames.push({ time: parseFloat(frameMatch[1]!), values: {} });
+      continue;
+    }
+
+    const valueMatch = line.match(/^(lavfi\.[\w.]+)=(\S+)/);
+    const current = frames[frames.length - 1];
+    if (valueMatch && current) {
+      current.values[valueMatch[1]!] = parseFloat(valueMatch[2]!);
+    }
+  }
+
+  return frames;
+}
 
 export interface VideoProcessingResult {
   originalSize: number;
   processedSize: number;
   trimmed: boolean;
-  base64: string;
-  tempFilePath: string;
+  tempFilePath: string; // the analysis clip; callers read it when they need the bytes
+  analysisWindow: AnalysisWindow;
+  mediaSignals: MediaSignals | null;
+  contentHash: string; // sha256 of the downloaded file
+  perceptualHash: PerceptualHash | null;
 }
 
 export class VideoProcessor {
   private readonly MAX_SIZE_MB = 20;
   private readonly MAX_SIZE_BYTES = this.MAX_SIZE_MB * 1024 * 1024;
 
-  async downloadVideo(videoUrl: string): Promise<string> {
+  constructor(private readonly windowOptions: AnalysisWindowOptions = analysisWindowOptionsFromEnv()) { }
+
+  async downloadVideo(videoUrl: string, allowedHosts: string[] = getAllowedVideoHosts()): Promise<string> {
     const tempId = crypto.randomUUID();
     const tempPath = join(tmpdir(), `tiktok_${tempId}.mp4`);
 
+    let url = parseAllowedVideoUrl(videoUrl, allowedHosts);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+
     try {
-      // Download video using curl with better error handling
-      // -f: fail silently on HTTP errors
-      // -L: follow redirects
-      // -A: set user-agent
-      // --max-time: timeout after 60 seconds
-      const { stdout, stderr } = await execAsync(
-        `curl -f -L -A "Mozilla/5.0" --max-time 60 -o "${tempPath}" "${videoUrl}"`
-      );
+      // Follow redirects by hand so every hop is checked against the allow-list
+      let response: Response | null = null;
+      for (let redirects = 0; ; redirects++) {
+        response = await fetch(url, {
+          redirect: 'manual',
+          headers: { 'User-Agent': 'Mozilla/5.0' },
+          signal: controller.signal,
+        });
+
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) break;
+
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new VideoDownloadError('http_error', `Too many redirects (more than ${MAX_REDIRECTS})`, response.status);
+        }
+        url = parseAllowedVideoUrl(new URL(location, url).toString(), allowedHosts);
+        logDebug(`[VideoProcessor] Following redirect to ${url.hostname}`);
+      }
+
+      if (!response.ok || !response.body) {
+        throw new VideoDownloadError('http_error', `Video download failed with HTTP ${response.status}`, response.status);
+      }
 
-      logDebug(`[VideoProcessor] curl stdout: ${stdout}`);
-      if (stderr) {
-        logDebug(`[VideoProcessor] curl stderr: ${stderr}`);
+      const contentLength = Number(response.headers.get('content-length') || 0);
+      if (contentLength > MAX_DOWNLOAD_BYTES) {
+        throw new VideoDownloadError('too_large', `Video is ${this.formatFileSize(contentLength)}, over the ${this.formatFileSize(MAX_DOWNLOAD_BYTES)} limit`);
       }
 
+      // Content-Length can be missing or wrong, so also count bytes as they stream in
+      let received = 0;
+      const sizeLimit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          if (received > MAX_DOWNLOAD_BYTES) {
+            callback(new VideoDownloadError('too_large', `Video exceeds the ${MAX_DOWNLOAD_BYTES} byte limit`));
+            return;
+          }
+          callback(null, chunk);
+        },
+      });
+
+      await pipeline(Readable.fromWeb(response.body as any), sizeLimit, createWriteStream(tempPath));
+      logDebug(`[VideoProcessor] Downloaded ${this.formatFileSize(received)} from ${url.hostname}`);
+
       return tempPath;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logDebug(`[VideoProcessor] curl failed: ${errorMessage}`);
-      console.error('Error downloading video:', errorMessage);
-      throw new Error(`Failed to download video: ${errorMessage}`);
+      await unlink(tempPath).catch(() => { });
+
+      const downloadError = error instanceof VideoDownloadError
+        ? error
+        : controller.signal.aborted
+          ? new VideoDownloadError('timeout', `Video download timed out after ${DOWNLOAD_TIMEOUT_MS}ms`)
+          : new VideoDownloadError('network', error instanceof Error ? error.message : String(error));
+
+      logDebug(`[VideoProcessor] download failed (${downloadError.reason}): ${downloadError.message}`);
+      console.error('Error downloading video:', downloadError.message);
+      throw downloadError;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Raw ffprobe output (format and streams)
+  private async probe(videoPath: string): Promise<any> {
+    const { stdout } = await runProcess(
+      'ffprobe',
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', localMediaArg(videoPath)],
+      { timeoutMs: PROBE_TIMEOUT_MS }
+    );
+
+    try {
+      return JSON.parse(stdout);
+    } catch (error) {
+      console.error('Error parsing ffprobe output:', error);
+      throw new Error('Failed to get video information: unreadable ffprobe output');
     }
   }
 
@@ -53,111 +230,288 @@ export class VideoProcessor {
     size: number;
     bitrate: number;
   }> {
-    try {
-      const { stdout } = await execAsync(
-        `ffprobe -v quiet -print_format json -show_format -show_streams "${videoPath}"`
-      );
+    const info = await this.probe(videoPath);
 
-      const info = JSON.parse(stdout);
-      const videoStream = info.streams.find((s: any) => s.codec_type === 'video');
+    return {
+      duration: parseFloat(info.format.duration),
+      size: parseInt(info.format.size),
+      bitrate: parseInt(info.format.bit_rate || '0'),
+    };
+  }
 
-      return {
-        duration: parseFloat(info.format.duration),
-        size: parseInt(info.format.size),
-        bitrate: parseInt(info.format.bit_rate || '0'),
-      };
-    } catch (error) {
-      console.error('Error getting video info:', error);
-      throw new Error('Failed to get video information');
+  /**
+   * Measure scene cuts, motion, first speech, loudness and resolution over the
+   * first `windowSeconds` of a video, with one ffmpeg pass per stream type
+   */
+  async computeMediaSignals(videoPath: string, windowSeconds: number = this.windowOptions.hookSeconds): Promise<MediaSignals> {
+    const info = await this.probe(videoPath);
+    const videoStream = info.streams?.find((s: any) => s.codec_type === 'video');
+    const hasAudio = !!info.streams?.some((s: any) => s.codec_type === 'audio');
+
+    if (!videoStream) {
+      throw new Error('Failed to compute media signals: no video stream');
     }
-  }
 
-  async trimVideo(inputPath: string, outputPath: string, durationRatio: number = 0.5): Promise<void> {
-    try {
-      const videoInfo = await this.getVideoInfo(inputPath);
-      const trimDuration = videoInfo.duration * durationRatio;
+    // Phone footage is often stored landscape with a rotation flag
+    const rotation = Math.abs(Number(
+      videoStream.side_data_list?.find((d: any) => d.rotation !== undefined)?.rotation ?? videoStream.tags?.rotate ?? 0
+    ));
+    const rotated = rotation === 90 || rotation === 270;
+    const width = rotated ? videoStream.height : videoStream.width;
+    const height = rotated ? videoStream.width : videoStream.height;
+
+    const window = windowSeconds.toFixed(3);
+
+    // Video: scene score of every frame; spikes are cuts, the rest measures motion
+    const { stdout: videoOut } = await runProcess(
+      'ffmpeg',
+      [
+        '-nostdin', '-v', 'error',
+        '-t', window, '-i', localMediaArg(videoPath),
+        '-an',
+        '-vf', "select='gte(scene,0)',metadata=mode=print:key=lavfi.scene_score:file=-",
+        '-f', 'null', '-',
+      ],
+      { timeoutMs: ENCODE_TIMEOUT_MS }
+    );
+
+    const sceneCuts: number[] = [];
+    const motionScores: number[] = [];
+    for (const frame of parseMetadataFrames(videoOut)) {
+      const score = frame.values['lavfi.scene_score'];
+      if (score === undefined) continue;
+      if (score > SCENE_CUT_THRESHOLD) {
+        sceneCuts.push(Math.round(frame.time * 1000) / 1000);
+      } else {
+        motionScores.push(score);
+      }
+    }
 
-      // Trim from the beginning (first half) since we focus on hooks
-      await execAsync(
-        `ffmpeg -i "${inputPath}" -t ${trimDuration} -c copy -avoid_negative_ts make_zero "${outputPath}"`
+    let firstSpeechSeconds: number | null = null;
+    let integratedLoudnessLufs: number | null = null;
+
+    if (hasAudio) {
+      const { stdout: audioOut } = await runProcess(
+        'ffmpeg',
+        [
+          '-nostdin', '-v', 'error',
+          '-t', window, '-i', localMediaArg(videoPath),
+          '-vn',
+          '-af', `silencedetect=noise=${SILENCE_NOISE_DB}dB:d=0.25,ebur128=metadata=1,ametadata=mode=print:file=-`,
+          '-f', 'null', '-',
+        ],
+        { timeoutMs: ENCODE_TIMEOUT_MS }
       );
-    } catch (error) {
-      console.error('Error trimming video:', error);
-      throw new Error('Failed to trim video');
-    }
-  }
 
-  async processVideoForGemini(videoPath: string): Promise<VideoProcessingResult> {
-    const originalInfo = await this.getVideoInfo(videoPath);
-    let currentPath = videoPath;
-    let trimmed = false;
+      const frames = parseMetadataFrames(audioOut);
 
-    // If video is larger than 20MB, calculate exact duration needed
-    if (originalInfo.size > this.MAX_SIZE_BYTES) {
-      const tempId = crypto.randomUUID();
+      // Sound from the start unless the first silence begins at 0; then speech starts when it ends
+      const silenceStart = frames.find(f => f.values['lavfi.silence_start'] !== undefined)?.values['lavfi.silence_start'];
+      if (silenceStart === undefined || silenceStart > 0.05) {
+        firstSpeechSeconds = 0;
+      } else {
+        const silenceEnd = frames.find(f => f.values['lavfi.silence_end'] !== undefined)?.values['lavfi.silence_end'];
+        firstSpeechSeconds = silenceEnd !== undefined && silenceEnd < windowSeconds - 0.05 ? silenceEnd : null;
+      }
 
-      // Calculate target duration with 10% buffer to be safe
-      // target = current * (max_size / current_size) * 0.9
-      const compressionRatio = this.MAX_SIZE_BYTES / originalInfo.size;
-      const targetDuration = originalInfo.duration * compressionRatio * 0.9;
+      const loudness = frames
+        .map(f => f.values['lavfi.r128.I'])
+        .filter((value): value is number => value !== undefined && Number.isFinite(value));
+      integratedLoudnessLufs = loudness.length > 0 ? loudness[loudness.length - 1]! : null;
+    }
 
-      console.log(`Video too large (${this.formatFileSize(originalInfo.size)}). Trimming to ~${targetDuration.toFixed(2)}s`);
+    return {
+      windowSeconds,
+      sceneCuts,
+      firstSpeechSeconds,
+      integratedLoudnessLufs,
+      motionIntensity: motionScores.length > 0
+        ? motionScores.reduce((sum, score) => sum + score, 0) / motionScores.length
+        : 0,
+      width,
+      height,
+      aspectRatio: height > 0 ? width / height : 0,
+    };
+  }
 
-      const trimmedPath = join(tmpdir(), `trimmed_${tempId}.mp4`);
+  /**
+   * Extract one JPEG every `intervalSeconds` over the first `windowSeconds` into a new
+   * temp directory. Frame i is at i * intervalSeconds. Remove the directory when done.
+   */
+  async extractFilmstrip(
+    videoPath: string,
+    windowSeconds: number,
+    intervalSeconds: number = FILMSTRIP_INTERVAL_SECONDS
+  ): Promise<{ dir: string; frames: { path: string; time: number }[] }> {
+    const dir = await mkdtemp(join(tmpdir(), 'filmstrip_'));
 
-      try {
-        // Trim to calculated duration in one pass
-        // We use the calculated ratio directly instead of a fixed 0.5
-        await execAsync(
-          `ffmpeg -i "${currentPath}" -t ${targetDuration} -c copy -avoid_negative_ts make_zero "${trimmedPath}"`
-        );
+    try {
+      await runProcess(
+        'ffmpeg',
+        [
+          '-nostdin', '-y', '-v', 'error',
+          '-t', windowSeconds.toFixed(3), '-i', localMediaArg(videoPath),
+          '-an',
+          '-vf', `fps=${(1 / intervalSeconds).toFixed(3)},scale=-2:${FILMSTRIP_FRAME_HEIGHT}`,
+          '-q:v', '5',
+          '-start_number', '0',
+          localMediaArg(join(dir, '%03d.jpg')),
+        ],
+        { timeoutMs: ENCODE_TIMEOUT_MS }
+      );
 
-        const trimmedInfo = await this.getVideoInfo(trimmedPath);
+      const files = (await readdir(dir)).filter(file => file.endsWith('.jpg')).sort();
+      return {
+        dir,
+        frames: files.map((file, idx) => ({ path: join(dir, file), time: idx * intervalSeconds })),
+      };
+    } catch (error) {
+      await rm(dir, { recursive: true, force: true });
+      throw error;
+    }
+  }
 
-        // Clean up previous temp file if it's not the original
-        if (currentPath !== videoPath) {
-          await unlink(currentPath).catch(() => { });
-        }
+  // sha256 of the file bytes; identical only for byte-for-byte copies
+  async computeContentHash(videoPath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    await pipeline(createReadStream(videoPath), hash);
+    return hash.digest('hex');
+  }
 
-        currentPath = trimmedPath;
-        trimmed = true;
+  /**
+   * dHash every sampled frame of the first `seconds`. ffmpeg scales each frame to
+   * 9x8 grayscale and writes the raw pixels to stdout, 72 bytes per frame.
+   */
+  async computePerceptualHash(videoPath: string, seconds: number = FINGERPRINT_SECONDS): Promise<PerceptualHash> {
+    const { stdoutBuffer } = await runProcess(
+      'ffmpeg',
+      [
+        '-nostdin', '-v', 'error',
+        '-t', seconds.toFixed(3), '-i', localMediaArg(videoPath),
+        '-an',
+        '-vf', `fps=${FINGERPRINT_FPS},scale=9:8:flags=area,format=gray`,
+        '-f', 'rawvideo', '-',
+      ],
+      { timeoutMs: ENCODE_TIMEOUT_MS }
+    );
+
+    const frameSize = 72;
+    const hashes: PerceptualHash = [];
+    for (let offset = 0; offset + frameSize <= stdoutBuffer.length; offset += frameSize) {
+      hashes.push(dHashFrame(new Uint8Array(stdoutBuffer.subarray(offset, offset + frameSize))));
+    }
+    return hashes;
+  }
 
-        // Verify size (should be under limit due to buffer)
-        if (trimmedInfo.size > this.MAX_SIZE_BYTES) {
-          console.warn(`Trimmed video still too large (${this.formatFileSize(trimmedInfo.size)}). Forcing hard limit.`);
-          // Fallback: If somehow still too large (unlikely with 10% buffer), do a hard cut to 15MB size equivalent
-          // This is a safety net
-          const emergencyPath = join(tmpdir(), `emergency_${tempId}.mp4`);
-          const emergencyDuration = targetDuration * 0.8;
+  // Re-encode the analysis window. Re-encoding (rather than -c copy) makes cuts frame-accurate
+  // and caps the bitrate, so output size is bounded by bitrate x duration.
+  private async encodeWindow(
+    inputPath: string,
+    outputPath: string,
+    window: AnalysisWindow,
+    options: AnalysisWindowOptions
+  ): Promise<void> {
+    const { maxShortSide, videoBitrateKbps, audioBitrateKbps } = options;
+    const filters: string[] = [];
+
+    // Keep every frame of the hook, then at most remainderFps frames per second
+    if (window.remainderFps && window.end > window.hookEnd) {
+      const interval = (1 / window.remainderFps).toFixed(3);
+      filters.push(`select='if(lt(t,${window.hookEnd.toFixed(3)}),1,gte(t-prev_selected_t,${interval}))'`);
+    }
+    filters.push(
+      `scale='if(gte(iw,ih),-2,min(iw,${maxShortSide}))':'if(gte(iw,ih),min(ih,${maxShortSide}),-2)'`
+    );
+
+    await runProcess(
+      'ffmpeg',
+      [
+        '-nostdin', '-y', '-v', 'error',
+        '-i', localMediaArg(inputPath),
+        '-ss', window.start.toFixed(3),
+        '-t', (window.end - window.start).toFixed(3),
+        '-map', '0:v:0', '-map', '0:a:0?',
+        '-vf', filters.join(','),
+        '-fps_mode', 'vfr',
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28',
+        '-maxrate', `${videoBitrateKbps}k`, '-bufsize', `${videoBitrateKbps * 2}k`,
+        '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac', '-b:a', `${audioBitrateKbps}k`,
+        '-movflags', '+faststart',
+        localMediaArg(outputPath),
+      ],
+      { timeoutMs: ENCODE_TIMEOUT_MS }
+    );
+  }
 
-          await execAsync(
-            `ffmpeg -i "${currentPath}" -t ${emergencyDuration} -c copy -avoid_negative_ts make_zero "${emergencyPath}"`
-          );
+  async trimVideo(inputPath: string, outputPath: string, durationRatio: number = 0.5): Promise<void> {
+    const videoInfo = await this.getVideoInfo(inputPath);
+    const trimDuration = videoInfo.duration * durationRatio;
+
+    // Trim from the beginning (first half) since we focus on hooks
+    await this.encodeWindow(
+      inputPath,
+      outputPath,
+      { start: 0, end: trimDuration, hookEnd: trimDuration, remainderFps: null, sourceDuration: videoInfo.duration },
+      this.windowOptions
+    );
+  }
 
-          await unlink(currentPath).catch(() => { });
-          currentPath = emergencyPath;
-        }
+  async processVideoForGemini(
+    videoPath: string,
+    options: AnalysisWindowOptions = this.windowOptions
+  ): Promise<VideoProcessingResult> {
+    const originalInfo = await this.getVideoInfo(videoPath);
+    const tempId = crypto.randomUUID();
+    const outputPath = join(tmpdir(), `analysis_${tempId}.mp4`);
+
+    // Plan against 90% of the limit; the bitrate cap is enforced over a buffer, not per frame
+    let window = planAnalysisWindow(originalInfo.duration, options, this.MAX_SIZE_BYTES * 0.9);
+    console.log(`Encoding analysis window: ${describeAnalysisWindow(window)}`);
+
+    try {
+      await this.encodeWindow(videoPath, outputPath, window, options);
+      let finalInfo = await this.getVideoInfo(outputPath);
+
+      // Safety net: fall back to the hook alone if the encoder overshot
+      if (finalInfo.size > this.MAX_SIZE_BYTES && window.end > window.hookEnd) {
+        console.warn(`Analysis clip too large (${this.formatFileSize(finalInfo.size)}). Re-encoding the hook only.`);
+        window = { ...window, end: window.hookEnd, remainderFps: null };
+        await this.encodeWindow(videoPath, outputPath, window, options);
+        finalInfo = await this.getVideoInfo(outputPath);
+      }
 
-      } catch (error) {
-        console.error('Error in smart trim:', error);
-        throw new Error('Failed to trim video to size');
+      if (finalInfo.size > this.MAX_SIZE_BYTES) {
+        throw new Error(`analysis clip is ${this.formatFileSize(finalInfo.size)}, over the ${this.MAX_SIZE_MB}MB limit`);
       }
-    }
 
-    // Convert to base64
-    const videoBuffer = await readFile(currentPath);
-    const base64 = videoBuffer.toString('base64');
+      // Signals are optional extra features; a failure here shouldn't block the analysis
+      const mediaSignals = await this.computeMediaSignals(videoPath, window.hookEnd).catch((error) => {
+        console.warn('Could not compute media signals:', error instanceof Error ? error.message : error);
+        return null;
+      });
 
-    // Get final size
-    const finalInfo = await this.getVideoInfo(currentPath);
+      const contentHash = await this.computeContentHash(videoPath);
+      const perceptualHash = await this.computePerceptualHash(videoPath).catch((error) => {
+        console.warn('Could not compute perceptual hash:', error instanceof Error ? error.message : error);
+        return null;
+      });
 
-    return {
-      originalSize: originalInfo.size,
-      processedSize: finalInfo.size,
-      trimmed,
-      base64,
-      tempFilePath: currentPath,
-    };
+      return {
+        originalSize: originalInfo.size,
+        processedSize: finalInfo.size,
+        trimmed: window.end < originalInfo.duration,
+        tempFilePath: outputPath,
+        analysisWindow: window,
+        mediaSignals,
+        contentHash,
+        perceptualHash,
+      };
+    } catch (error) {
+      await unlink(outputPath).catch(() => { });
+      console.error('Error encoding analysis window:', error);
+      throw new Error(`Failed to prepare video for analysis: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   async cleanup(tempFilePath: string): Promise<void> {
@@ -174,6 +528,11 @@ export class VideoProcessor {
     const downloadedPath = await this.downloadVideo(videoUrl);
     logDebug(`[VideoProcessor] Downloaded to: ${downloadedPath}`);
 
+    return this.processDownloadedVideo(downloadedPath);
+  }
+
+  // Prepare an already downloaded file for Gemini. The download is removed either way.
+  async processDownloadedVideo(downloadedPath: string): Promise<VideoProcessingResult> {
     try {
       const result = await this.processVideoForGemini(downloadedPath);
       logDebug(`[VideoProcessor] Processed video: ${this.formatFileSize(result.processedSize)}, trimmed=${result.trimmed}`);
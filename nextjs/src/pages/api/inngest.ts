@@ -1,7 +1,15 @@
 import {
   searchTikTokVideos,
+  scheduleSearchTermRecrawls,
+  importTikTokVideos,
   downloadTikTokVideo,
+  mirrorVideoImages,
+  scheduleImageMirrorBackfill,
   analyzeVideoHook,
+  analyzeDraftVideo,
+  scheduleVideoMetricsRefresh,
+  refreshVideoMetrics,
+  runStorageLifecycle,
   generateTrendAnalysis
 } from "@/inngest/tiktok-jobs";
 import { inngestClient } from "@/lib/clients/inngest";
@@ -16,8 +24,16 @@ export default serve({
   functions: [
     // TikTok Hook Analyzer
     searchTikTokVideos,
+    scheduleSearchTermRecrawls,
+    importTikTokVideos,
     downloadTikTokVideo,
+    mirrorVideoImages,
+    scheduleImageMirrorBackfill,
     analyzeVideoHook,
+    analyzeDraftVideo,
+    scheduleVideoMetricsRefresh,
+    refreshVideoMetrics,
+    runStorageLifecycle,
     generateTrendAnalysis,
   ],
 });
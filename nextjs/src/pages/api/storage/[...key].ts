@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createWriteStream } from "fs";
+import { mkdir, rename, rm } from "fs/promises";
+import { dirname } from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import crypto from "crypto";
+import { blobStore } from "@/lib/clients/storage";
+import { LocalBlobStore } from "@/lib/clients/local-blob-store";
+import { BlobNotFoundError } from "@/lib/clients/blob-store";
+import { MAX_DRAFT_SIZE_BYTES } from "@/lib/draft-videos";
+
+// Uploads are streamed to disk rather than parsed
+export const config = {
+  api: {
+    bodyParser: false,
+    responseLimit: false,
+  },
+};
+
+// Serves and accepts blobs for the local storage driver. The directory is private,
+// so both GET and PUT need a URL signed by LocalBlobStore.signedUrl.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(blobStore instanceof LocalBlobStore)) {
+    return res.status(404).json({ error: "Local storage is not enabled" });
+  }
+
+  const store = blobStore;
+  const { key: segments, ...query } = req.query;
+  const key = Array.isArray(segments) ? segments.join("/") : "";
+
+  let path: string;
+  try {
+    path = store.pathFor(key);
+  } catch {
+    return res.status(400).json({ error: "Invalid storage key" });
+  }
+
+  if (req.method !== "GET" && req.method !== "PUT") {
+    res.setHeader("Allow", "GET, PUT");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const signature = {
+    method: String(query.method ?? ""),
+    expires: String(query.expires ?? ""),
+    signature: String(query.signature ?? ""),
+  };
+  if (!store.verifySignature(req.method, key, signature)) {
+    return res.status(403).json({ error: "Invalid or expired signature" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const head = await store.head(key);
+      if (!head) throw new BlobNotFoundError(key);
+
+      res.setHeader("Content-Type", head.contentType || "application/octet-stream");
+      res.setHeader("Content-Length", head.size);
+      await pipeline(await store.getStream(key), res);
+      return;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return res.status(404).json({ error: "Not found" });
+      console.error(`Failed to serve ${key}:`, error);
+      if (!res.headersSent) return res.status(500).json({ error: "Failed to read object" });
+      res.destroy();
+      return;
+    }
+  }
+
+  if (Number(req.headers["content-length"] ?? 0) > MAX_DRAFT_SIZE_BYTES) {
+    return res.status(413).json({ error: "Upload too large" });
+  }
+
+  // Write next to the target and rename, so readers never see a partial file
+  const tempPath = `${path}.${crypto.randomUUID()}.upload`;
+  let received = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > MAX_DRAFT_SIZE_BYTES) {
+        callback(new Error("Upload too large"));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await pipeline(req, limit, createWriteStream(tempPath));
+    await rename(tempPath, path);
+    return res.status(200).json({ key, size: received });
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    if (received > MAX_DRAFT_SIZE_BYTES) return res.status(413).json({ error: "Upload too large" });
+    console.error(`Failed to store ${key}:`, error);
+    return res.status(500).json({ error: "Failed to store object" });
+  }
+}
@@ -2,12 +2,17 @@ import DashboardLayout from "@/components/layout/DashboardLayout";
 import { HookAnalysisGrid } from "@/components/tiktok/HookAnalysisGrid";
 import { HookAnalysisDetail } from "@/components/tiktok/HookAnalysisDetail";
 import { HookClusters } from "@/components/tiktok/HookClusters";
+import { HookIdeas } from "@/components/tiktok/HookIdeas";
+import { PromptVersionReanalysis } from "@/components/tiktok/PromptVersionReanalysis";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { trpc } from "@/utils/trpc";
+import { METRICS_MODES, MetricsMode } from "@/lib/video-metrics";
 import { useState } from "react";
 import { useRouter } from "next/router";
 import { Brain, Filter, ArrowLeft } from "lucide-react";
@@ -18,6 +23,8 @@ export default function TikTokAnalysis() {
 
   const [selectedSearchTerm, setSelectedSearchTerm] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const [metricsMode, setMetricsMode] = useState<MetricsMode>("first_seen");
+  const [collapseDuplicates, setCollapseDuplicates] = useState(false);
 
   // Fetch search terms for filter
   const { data: searchTerms } = trpc.tiktok.getSearchTerms.useQuery();
@@ -69,7 +76,7 @@ export default function TikTokAnalysis() {
               Filters
             </CardTitle>
             <CardDescription>
-              Filter analysis by search term or search for specific content
+              Filter analysis by search term, choose which engagement metrics to compare, count reposts once, or search for specific content
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -81,7 +88,7 @@ export default function TikTokAnalysis() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All search terms</SelectItem>
-                    {searchTerms?.map((term) => (
+                    {searchTerms?.filter((term) => term.kind !== "drafts").map((term) => (
                       <SelectItem key={term.id} value={term.id}>
                         <div className="flex items-center gap-2">
                           <span>{term.term}</span>
@@ -94,6 +101,28 @@ export default function TikTokAnalysis() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="sm:w-56">
+                <Select value={metricsMode} onValueChange={(mode) => setMetricsMode(mode as MetricsMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METRICS_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="collapse-duplicates"
+                  checked={collapseDuplicates}
+                  onCheckedChange={setCollapseDuplicates}
+                />
+                <Label htmlFor="collapse-duplicates" className="whitespace-nowrap">Collapse duplicates</Label>
+              </div>
               <div className="flex-1">
                 <Input
                   placeholder="Search by creator, hook type, or content..."
@@ -120,6 +149,19 @@ export default function TikTokAnalysis() {
         {/* Hook Clusters */}
         <HookClusters
           searchTermId={selectedSearchTerm !== "all" ? selectedSearchTerm : undefined}
+          metricsMode={metricsMode}
+          collapseDuplicates={collapseDuplicates}
+        />
+
+        {/* Hook Ideas */}
+        <HookIdeas
+          searchTermId={selectedSearchTerm !== "all" ? selectedSearchTerm : undefined}
+          metricsMode={metricsMode}
+        />
+
+        {/* Prompt version re-analysis */}
+        <PromptVersionReanalysis
+          searchTermId={selectedSearchTerm !== "all" ? selectedSearchTerm : undefined}
         />
 
         {/* Analysis Grid */}
@@ -0,0 +1,33 @@
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import { DraftScoring } from "@/components/tiktok/DraftScoring";
+import { HookScriptScoring } from "@/components/tiktok/HookScriptScoring";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export default function TikTokDrafts() {
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto space-y-6 py-6">
+        <div>
+          <h1 className="text-3xl font-bold">Draft Scoring</h1>
+          <p className="text-muted-foreground">
+            Score your hooks before posting and see how they compare to what works in your niche
+          </p>
+        </div>
+
+        <Tabs defaultValue="videos" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="videos">Draft Videos</TabsTrigger>
+            <TabsTrigger value="scripts">Scripts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="videos" className="space-y-4">
+            <DraftScoring />
+          </TabsContent>
+          <TabsContent value="scripts" className="space-y-4">
+            <HookScriptScoring />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+}
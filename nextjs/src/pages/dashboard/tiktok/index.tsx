@@ -1,5 +1,7 @@
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { SearchTermsTab } from "@/components/tiktok/SearchTermsTab";
+import { StorageSettingsTab } from "@/components/tiktok/StorageSettingsTab";
+import { RubricCriteriaTab } from "@/components/tiktok/RubricCriteriaTab";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -98,11 +100,21 @@ export default function TikTokDashboard() {
         <Tabs defaultValue="search-terms" className="space-y-4">
           <TabsList>
             <TabsTrigger value="search-terms">Search Terms</TabsTrigger>
+            <TabsTrigger value="rubric">Rubric</TabsTrigger>
+            <TabsTrigger value="storage">Storage</TabsTrigger>
           </TabsList>
           
           <TabsContent value="search-terms" className="space-y-4">
             <SearchTermsTab />
           </TabsContent>
+
+          <TabsContent value="rubric" className="space-y-4">
+            <RubricCriteriaTab />
+          </TabsContent>
+
+          <TabsContent value="storage" className="space-y-4">
+            <StorageSettingsTab />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
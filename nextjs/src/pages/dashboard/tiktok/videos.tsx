@@ -1,5 +1,6 @@
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { VideoGallery } from "@/components/tiktok/VideoGallery";
+import { ImportVideosDialog } from "@/components/tiktok/ImportVideosDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -26,6 +27,7 @@ export default function TikTokVideos() {
               Browse and manage downloaded TikTok videos
             </p>
           </div>
+          <ImportVideosDialog />
         </div>
 
         {/* Filters */}
@@ -48,7 +50,7 @@ export default function TikTokVideos() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All search terms</SelectItem>
-                    {searchTerms?.map((term) => (
+                    {searchTerms?.filter((term) => term.kind !== "drafts").map((term) => (
                       <SelectItem key={term.id} value={term.id}>
                         <div className="flex items-center gap-2">
                           <span>{term.term}</span>
@@ -1,8 +1,87 @@
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { inngestClient } from "@/lib/clients/inngest";
 import { ClusteringService } from "@/server/services/clustering";
+import { signVideoImages, signVideoMedia } from "@/server/services/signed-media";
+import { getActivePromptVersion, getPromptVersion, HookPromptVersion } from "@/server/services/prompt-versions";
+import { ENGAGEMENT_FEATURE_NAMES, FOOTAGE_FEATURE_NAMES } from "@/lib/clustering/feature-extractor";
+import {
+  crawlScheduleSchema,
+  searchOptionsSchema,
+  searchOptionsFromRow,
+  searchOptionsToColumns,
+} from "@/lib/tiktok-search-options";
+import { metricsModeSchema, resolveVideoMetrics } from "@/lib/video-metrics";
+import { MANUAL_IMPORTS_TERM, MAX_IMPORT_URLS, tiktokVideoUrlSchema } from "@/lib/tiktok-urls";
+import {
+  DRAFT_TOO_LARGE_MESSAGE,
+  DRAFTS_TERM,
+  draftStoragePrefix,
+  draftUploadSchema,
+  MAX_DRAFT_SIZE_BYTES,
+} from "@/lib/draft-videos";
+import { HookSuggestion, MAX_SUGGESTION_SOURCES } from "@/lib/hook-suggestions";
+import { MediaSignals } from "@/lib/media-signals";
+import { DownloadFailureReason, isRetryableDownloadFailure } from "@/lib/download-failures";
+import { mediaRetentionFromRow, mediaRetentionSchema } from "@/lib/media-retention";
+import { compareAnalyses, MAX_REANALYSIS_VIDEOS } from "@/lib/analysis-versions";
+import { MAX_RUBRIC_CRITERIA, rubricCriterionInputSchema } from "@/lib/rubric-criteria";
+import { CriterionScoreRow, withCriterionScores } from "@/server/services/rubric-criteria";
+import { analysisModel, HookAnalysisResult } from "@/lib/clients/gemini";
+import { blobStore } from "@/lib/clients/storage";
+import { createBlobKey } from "@/lib/clients/blob-store";
+import { Database } from "@shared-types/database.types";
+import { createServerClient } from "@supabase/ssr";
 import { z } from "zod";
 
+type RouterSupabase = ReturnType<typeof createServerClient<Database>>;
+
+// Get the id of the user's collection search term of the given kind, creating it on first use
+async function getCollectionId(
+  supabase: RouterSupabase,
+  userId: string,
+  kind: "manual" | "drafts",
+  term: string
+): Promise<string> {
+  const { data: existing, error: existingError } = await supabase
+    .from("search_terms")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("kind", kind)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) return existing.id;
+
+  const { data: created, error: createError } = await supabase
+    .from("search_terms")
+    .insert({
+      user_id: userId,
+      term,
+      status: "active",
+      kind,
+    })
+    .select("id")
+    .single();
+
+  if (createError) throw createError;
+  return created.id;
+}
+
+// Rubric criteria can only be attached to the user's own search terms
+async function assertOwnSearchTerm(supabase: RouterSupabase, userId: string, searchTermId: string | null): Promise<void> {
+  if (!searchTermId) return;
+
+  const { data, error } = await supabase
+    .from("search_terms")
+    .select("id")
+    .eq("id", searchTermId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("Search term not found");
+}
+
 export const tiktokRouter = createTRPCRouter({
   // Search Terms Management
   getSearchTerms: protectedProcedure.query(async ({ ctx }) => {
@@ -17,14 +96,20 @@ export const tiktokRouter = createTRPCRouter({
   }),
 
   createSearchTerm: protectedProcedure
-    .input(z.object({ term: z.string().min(1).max(100) }))
+    .input(z.object({
+      term: z.string().min(1).max(100),
+      crawlSchedule: crawlScheduleSchema.optional(),
+    }).merge(searchOptionsSchema.partial()))
     .mutation(async ({ ctx, input }) => {
+      const { term, crawlSchedule, ...searchOptions } = input;
       const { data, error } = await ctx.supabase
         .from("search_terms")
         .insert({
           user_id: ctx.user.id,
-          term: input.term,
+          term,
           status: "active",
+          ...(crawlSchedule && { crawl_schedule: crawlSchedule }),
+          ...searchOptionsToColumns(searchOptions),
         })
         .select("*")
         .single();
@@ -38,12 +123,59 @@ export const tiktokRouter = createTRPCRouter({
           searchTermId: data.id,
           searchTerm: data.term,
           userId: ctx.user.id,
+          searchOptions: searchOptionsFromRow(data),
+          trigger: "initial",
         },
       });
 
       return data;
     }),
 
+  updateSearchTerm: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      crawlSchedule: crawlScheduleSchema.optional(),
+    }).merge(searchOptionsSchema.partial()))
+    .mutation(async ({ ctx, input }) => {
+      const { id, crawlSchedule, ...searchOptions } = input;
+      const { data, error } = await ctx.supabase
+        .from("search_terms")
+        .update({
+          ...(crawlSchedule && { crawl_schedule: crawlSchedule }),
+          ...searchOptionsToColumns(searchOptions),
+        })
+        .eq("id", id)
+        .eq("user_id", ctx.user.id)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return data;
+    }),
+
+  getSearchRuns: protectedProcedure
+    .input(z.object({
+      searchTermId: z.string(),
+      limit: z.number().min(1).max(100).default(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { data, error } = await ctx.supabase
+        .from("search_runs")
+        .select(`
+          *,
+          search_terms!inner (
+            user_id
+          )
+        `)
+        .eq("search_term_id", input.searchTermId)
+        .eq("search_terms.user_id", ctx.user.id)
+        .order("started_at", { ascending: false })
+        .limit(input.limit);
+
+      if (error) throw error;
+      return data;
+    }),
+
   deleteSearchTerm: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
@@ -84,6 +216,28 @@ export const tiktokRouter = createTRPCRouter({
     }),
 
   // Videos Management
+  importVideoUrls: protectedProcedure
+    .input(z.object({
+      urls: z.array(tiktokVideoUrlSchema).min(1).max(MAX_IMPORT_URLS),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // Imported videos live in a per-user "Manual imports" collection
+      const collectionId = await getCollectionId(ctx.supabase, ctx.user.id, "manual", MANUAL_IMPORTS_TERM);
+
+      const urls = Array.from(new Set(input.urls));
+
+      await inngestClient.send({
+        name: "tiktok/import-videos",
+        data: {
+          searchTermId: collectionId,
+          userId: ctx.user.id,
+          urls,
+        },
+      });
+
+      return { searchTermId: collectionId, urlsQueued: urls.length };
+    }),
+
   getVideos: protectedProcedure
     .input(z.object({
       searchTermId: z.string().optional(),
@@ -93,6 +247,8 @@ export const tiktokRouter = createTRPCRouter({
         created_at: z.string(),
         id: z.string()
       }).optional(),
+      metricsMode: metricsModeSchema.default("first_seen"),
+      collapseDuplicates: z.boolean().default(false),
     }))
     .query(async ({ ctx, input }) => {
       // Use selective field fetching - exclude heavy JSONB fields
@@ -100,7 +256,6 @@ export const tiktokRouter = createTRPCRouter({
         .from("tiktok_videos")
         .select(`
           id,
-          search_term_id,
           video_id,
           title,
           creator,
@@ -109,29 +264,54 @@ export const tiktokRouter = createTRPCRouter({
           like_count,
           share_count,
           comment_count,
+          latest_view_count,
+          latest_like_count,
+          latest_share_count,
+          latest_comment_count,
+          published_at,
+          metrics_refreshed_at,
+          views_per_hour,
+          view_growth_24h,
+          view_growth_7d,
           duration,
           video_url,
           r2_key,
-          r2_url,
           thumbnail_url,
+          thumbnail_mirror,
+          creator_avatar_mirror,
+          download_failure_reason,
           created_at,
           updated_at,
-          search_terms!inner (
-            id,
-            term,
-            user_id
+          search_term_videos!inner (
+            search_term_id,
+            rank_position,
+            search_terms!inner (
+              id,
+              term,
+              user_id
+            )
           ),
           hook_analysis (
             id,
             processed_at
+          ),
+          video_duplicates!video_duplicates_video_id_fkey (
+            duplicate_of
           )
         `)
-        .eq("search_terms.user_id", ctx.user.id)
+        .eq("search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("video_duplicates.user_id", ctx.user.id)
+        .eq("is_draft", false)
         .order("created_at", { ascending: false })
         .order("id", { ascending: false });
 
       if (input.searchTermId) {
-        query = query.eq("search_term_id", input.searchTermId);
+        query = query.eq("search_term_videos.search_term_id", input.searchTermId);
+      }
+
+      // Show each repost once, as its earliest copy
+      if (input.collapseDuplicates) {
+        query = query.is("video_duplicates", null);
       }
 
       // Use cursor-based pagination if cursor is provided, otherwise fall back to offset
@@ -151,7 +331,11 @@ export const tiktokRouter = createTRPCRouter({
       const { data, error } = await query;
 
       if (error) throw error;
-      return data;
+      const videos = await signVideoImages(data);
+      return videos.map(video => ({
+        ...video,
+        metrics: resolveVideoMetrics(video, input.metricsMode),
+      }));
     }),
 
   getVideoById: protectedProcedure
@@ -161,23 +345,56 @@ export const tiktokRouter = createTRPCRouter({
         .from("tiktok_videos")
         .select(`
           *,
-          search_terms!inner (
-            id,
-            term,
-            user_id
+          search_term_videos!inner (
+            search_term_id,
+            rank_position,
+            search_terms!inner (
+              id,
+              term,
+              user_id
+            )
           ),
           hook_analysis (
             id,
             analysis_result,
-            processed_at
+            processed_at,
+            prompt_version,
+            model,
+            hook_criterion_scores (
+              criterion_id,
+              name,
+              scale_min,
+              scale_max,
+              score,
+              rationale
+            )
           )
         `)
         .eq("id", input.id)
-        .eq("search_terms.user_id", ctx.user.id)
+        .eq("search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("hook_analysis.hook_criterion_scores.user_id", ctx.user.id)
+        .order("processed_at", { referencedTable: "hook_analysis", ascending: false })
         .single();
 
       if (error) throw error;
-      return data;
+
+      // Other workspaces' rubric scores never leave the database; only the viewer's are attached
+      type AnalysisWithScores = Database["public"]["Tables"]["hook_analysis"]["Row"] & { hook_criterion_scores: CriterionScoreRow[] };
+      const analyses = data.hook_analysis.map((analysis: AnalysisWithScores) => ({
+        ...analysis,
+        analysis_result: withCriterionScores(analysis.analysis_result, analysis.hook_criterion_scores),
+      }));
+
+      // The active prompt's analysis comes first, so the detail view shows what clustering uses
+      const activePrompt = await getActivePromptVersion(ctx.supabase);
+      const isActive = (analysis: { prompt_version: number }) => analysis.prompt_version === activePrompt.version;
+      data.hook_analysis = [
+        ...analyses.filter(isActive),
+        ...analyses.filter((analysis: { prompt_version: number }) => !isActive(analysis)),
+      ];
+
+      // Only reached when RLS and the owner filter returned the row
+      return await signVideoMedia(data);
     }),
 
   // Hook Analysis
@@ -188,16 +405,19 @@ export const tiktokRouter = createTRPCRouter({
       offset: z.number().min(0).default(0),
     }))
     .query(async ({ ctx, input }) => {
+      // Analyses made with other prompt versions are only shown in the version comparison
+      const activePrompt = await getActivePromptVersion(ctx.supabase);
+
       // First, get the video IDs that match the search term filter (if provided)
       let videoIds: string[] | undefined;
       if (input.searchTermId) {
-        const { data: videos, error: videosError } = await ctx.supabase
-          .from("tiktok_videos")
-          .select("id")
+        const { data: links, error: linksError } = await ctx.supabase
+          .from("search_term_videos")
+          .select("video_id")
           .eq("search_term_id", input.searchTermId);
 
-        if (videosError) throw videosError;
-        videoIds = videos.map(v => v.id);
+        if (linksError) throw linksError;
+        videoIds = links.map(link => link.video_id);
 
         // If no videos match the search term, return empty array
         if (videoIds.length === 0) {
@@ -211,7 +431,6 @@ export const tiktokRouter = createTRPCRouter({
           *,
           tiktok_videos!inner (
             id,
-            search_term_id,
             title,
             creator,
             creator_username,
@@ -221,16 +440,23 @@ export const tiktokRouter = createTRPCRouter({
             comment_count,
             duration,
             video_url,
-            r2_url,
+            r2_key,
             thumbnail_url,
-            search_terms!inner (
-              id,
-              term,
-              user_id
+            thumbnail_mirror,
+            creator_avatar_mirror,
+            search_term_videos!inner (
+              search_term_id,
+              search_terms!inner (
+                id,
+                term,
+                user_id
+              )
             )
           )
         `)
-        .eq("tiktok_videos.search_terms.user_id", ctx.user.id)
+        .eq("tiktok_videos.search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("tiktok_videos.is_draft", false)
+        .eq("prompt_version", activePrompt.version)
         .order("processed_at", { ascending: false })
         .range(input.offset, input.offset + input.limit - 1);
 
@@ -242,7 +468,8 @@ export const tiktokRouter = createTRPCRouter({
       const { data, error } = await query;
 
       if (error) throw error;
-      return data;
+      const videos = await signVideoImages(data.map(analysis => analysis.tiktok_videos));
+      return data.map((analysis, idx) => ({ ...analysis, tiktok_videos: videos[idx]! }));
     }),
 
   getHookAnalysisById: protectedProcedure
@@ -263,21 +490,39 @@ export const tiktokRouter = createTRPCRouter({
             comment_count,
             duration,
             video_url,
-            r2_url,
+            r2_key,
             thumbnail_url,
-            search_terms!inner (
-              id,
-              term,
-              user_id
+            thumbnail_mirror,
+            creator_avatar_mirror,
+            search_term_videos!inner (
+              search_term_id,
+              search_terms!inner (
+                id,
+                term,
+                user_id
+              )
             )
+          ),
+          hook_criterion_scores (
+            criterion_id,
+            name,
+            scale_min,
+            scale_max,
+            score,
+            rationale
           )
         `)
         .eq("id", input.id)
-        .eq("tiktok_videos.search_terms.user_id", ctx.user.id)
+        .eq("tiktok_videos.search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("hook_criterion_scores.user_id", ctx.user.id)
         .single();
 
       if (error) throw error;
-      return data;
+      return {
+        ...data,
+        analysis_result: withCriterionScores(data.analysis_result, data.hook_criterion_scores),
+        tiktok_videos: await signVideoMedia(data.tiktok_videos),
+      };
     }),
 
   // Trend Analysis
@@ -335,6 +580,7 @@ export const tiktokRouter = createTRPCRouter({
 
   // Statistics
   getStatistics: protectedProcedure.query(async ({ ctx }) => {
+    const activePrompt = await getActivePromptVersion(ctx.supabase);
     const [searchTermsResult, videosResult, analysisResult] = await Promise.all([
       ctx.supabase
         .from("search_terms")
@@ -344,23 +590,28 @@ export const tiktokRouter = createTRPCRouter({
         .from("tiktok_videos")
         .select(`
           id,
-          search_terms!inner (
-            user_id
+          search_term_videos!inner (
+            search_terms!inner (
+              user_id
+            )
           )
         `)
-        .eq("search_terms.user_id", ctx.user.id),
+        .eq("search_term_videos.search_terms.user_id", ctx.user.id),
       ctx.supabase
         .from("hook_analysis")
         .select(`
           id,
           analysis_result,
           tiktok_videos!inner (
-            search_terms!inner (
-              user_id
+            search_term_videos!inner (
+              search_terms!inner (
+                user_id
+              )
             )
           )
         `)
-        .eq("tiktok_videos.search_terms.user_id", ctx.user.id),
+        .eq("tiktok_videos.search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("prompt_version", activePrompt.version),
     ]);
 
     if (searchTermsResult.error) throw searchTermsResult.error;
@@ -394,6 +645,145 @@ export const tiktokRouter = createTRPCRouter({
     return stats;
   }),
 
+  // Storage
+  getStorageSettings: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from("workspace_settings")
+      .select("media_retention, media_retention_days")
+      .eq("user_id", ctx.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { retention: mediaRetentionFromRow(data) };
+  }),
+
+  updateStorageSettings: protectedProcedure
+    .input(z.object({ retention: mediaRetentionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from("workspace_settings")
+        .upsert({
+          user_id: ctx.user.id,
+          media_retention: input.retention.policy,
+          media_retention_days: input.retention.policy === "days_after_analysis" ? input.retention.days : null,
+        }, { onConflict: "user_id" });
+
+      if (error) throw error;
+      return { success: true };
+    }),
+
+  // Rubric criteria
+  getRubricCriteria: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from("rubric_criteria")
+      .select("*")
+      .eq("user_id", ctx.user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data as Database["public"]["Tables"]["rubric_criteria"]["Row"][];
+  }),
+
+  createRubricCriterion: protectedProcedure
+    .input(rubricCriterionInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { count, error: countError } = await ctx.supabase
+        .from("rubric_criteria")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", ctx.user.id);
+
+      if (countError) throw countError;
+      if ((count || 0) >= MAX_RUBRIC_CRITERIA) {
+        throw new Error(`A workspace can have at most ${MAX_RUBRIC_CRITERIA} rubric criteria`);
+      }
+      await assertOwnSearchTerm(ctx.supabase, ctx.user.id, input.searchTermId);
+
+      const { data, error } = await ctx.supabase
+        .from("rubric_criteria")
+        .insert({
+          user_id: ctx.user.id,
+          search_term_id: input.searchTermId,
+          name: input.name,
+          description: input.description,
+          scale_min: input.scaleMin,
+          scale_max: input.scaleMax,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return data;
+    }),
+
+  // Past analyses keep the name and scale they were scored with; the change applies from the next analysis
+  updateRubricCriterion: protectedProcedure
+    .input(z.object({ id: z.string(), criterion: rubricCriterionInputSchema }))
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnSearchTerm(ctx.supabase, ctx.user.id, input.criterion.searchTermId);
+
+      const { data, error } = await ctx.supabase
+        .from("rubric_criteria")
+        .update({
+          search_term_id: input.criterion.searchTermId,
+          name: input.criterion.name,
+          description: input.criterion.description,
+          scale_min: input.criterion.scaleMin,
+          scale_max: input.criterion.scaleMax,
+        })
+        .eq("id", input.id)
+        .eq("user_id", ctx.user.id)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return data;
+    }),
+
+  deleteRubricCriterion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from("rubric_criteria")
+        .delete()
+        .eq("id", input.id)
+        .eq("user_id", ctx.user.id);
+
+      if (error) throw error;
+      return { success: true };
+    }),
+
+  // Stored media of the user's videos; a video shared with other workspaces counts for each
+  getStorageUsage: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from("tiktok_videos")
+      .select(`
+        id,
+        r2_key,
+        r2_size,
+        filmstrip,
+        media_deleted_at,
+        search_term_videos!inner (
+          search_terms!inner (
+            user_id
+          )
+        )
+      `)
+      .eq("search_term_videos.search_terms.user_id", ctx.user.id);
+
+    if (error) throw error;
+
+    const stored = data.filter(video => video.r2_key);
+    const deleted = data.filter(video => !video.r2_key && video.media_deleted_at);
+
+    return {
+      storedVideos: stored.length,
+      storedBytes: stored.reduce((sum, video) => sum + (video.r2_size || 0), 0),
+      filmstrips: data.filter(video => Array.isArray(video.filmstrip) && video.filmstrip.length > 0).length,
+      deletedVideos: deleted.length,
+      reclaimedBytes: deleted.reduce((sum, video) => sum + (video.r2_size || 0), 0),
+    };
+  }),
+
   // Retry failed jobs
   retryVideoSearch: protectedProcedure
     .input(z.object({ searchTermId: z.string() }))
@@ -408,6 +798,10 @@ export const tiktokRouter = createTRPCRouter({
 
       if (error) throw error;
 
+      if (searchTerm.kind !== "search") {
+        throw new Error("Only keyword search terms can be searched again");
+      }
+
       // Queue video search job
       await inngestClient.send({
         name: "tiktok/search-videos",
@@ -415,6 +809,8 @@ export const tiktokRouter = createTRPCRouter({
           searchTermId: searchTerm.id,
           searchTerm: searchTerm.term,
           userId: ctx.user.id,
+          searchOptions: searchOptionsFromRow(searchTerm),
+          trigger: "manual",
         },
       });
 
@@ -429,18 +825,22 @@ export const tiktokRouter = createTRPCRouter({
         .from("tiktok_videos")
         .select(`
           *,
-          search_terms!inner (
-            user_id
+          search_term_videos!inner (
+            search_terms!inner (
+              user_id
+            )
           )
         `)
         .eq("id", input.videoId)
-        .eq("search_terms.user_id", ctx.user.id)
+        .eq("search_term_videos.search_terms.user_id", ctx.user.id)
         .single();
 
       if (error) throw error;
 
-      if (!video.r2_key || !video.r2_url) {
-        throw new Error("Video not yet downloaded to R2");
+      if (!video.r2_key) {
+        throw new Error(video.media_deleted_at
+          ? "The stored video was deleted by your retention policy"
+          : "Video not yet downloaded to storage");
       }
 
       // Queue analysis job
@@ -449,23 +849,562 @@ export const tiktokRouter = createTRPCRouter({
         data: {
           videoId: video.id,
           r2Key: video.r2_key,
-          r2Url: video.r2_url,
         },
       });
 
       return { success: true };
     }),
 
+  // Prompt versions
+  getPromptVersions: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from("hook_prompt_versions")
+      .select("version, description, is_active, created_at")
+      .order("version", { ascending: false });
+
+    if (error) throw error;
+    return data as Omit<HookPromptVersion, "template">[];
+  }),
+
+  // Queue analyses of already-analyzed videos with another prompt version, for comparison
+  reanalyzeVideos: protectedProcedure
+    .input(z.object({
+      promptVersion: z.number().int().positive(),
+      searchTermId: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getPromptVersion(ctx.supabase, input.promptVersion);
+
+      // Analyzed videos without an analysis from this version yet, newest first. Filtering in the
+      // query rather than after the limit means each run picks up where the last one stopped.
+      let query = ctx.supabase
+        .from("tiktok_videos")
+        .select(`
+          id,
+          r2_key,
+          analyzed:hook_analysis!inner (
+            id
+          ),
+          same_version:hook_analysis (
+            id
+          ),
+          search_term_videos!inner (
+            search_term_id,
+            search_terms!inner (
+              user_id
+            )
+          )
+        `, { count: "exact" })
+        .eq("search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("is_draft", false)
+        .eq("same_version.prompt_version", input.promptVersion)
+        .is("same_version", null)
+        // Videos removed by the retention policy can't be analyzed again
+        .not("r2_key", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(MAX_REANALYSIS_VIDEOS);
+
+      if (input.searchTermId) {
+        query = query.eq("search_term_videos.search_term_id", input.searchTermId);
+      }
+
+      const { data: videos, count, error } = await query;
+      if (error) throw error;
+
+      if (videos.length > 0) {
+        // Event ids make a repeated run a no-op for videos whose analysis is still in flight
+        await inngestClient.send(videos.map((video: { id: string; r2_key: string | null }) => ({
+          id: `reanalyze-${video.id}-v${input.promptVersion}`,
+          name: "tiktok/analyze-hook" as const,
+          data: {
+            videoId: video.id,
+            r2Key: video.r2_key!,
+            promptVersion: input.promptVersion,
+          },
+        })));
+      }
+
+      return {
+        queued: videos.length,
+        remaining: Math.max(0, (count ?? videos.length) - videos.length),
+      };
+    }),
+
+  // Each prompt version's latest analysis of a video, compared with the active version's
+  getAnalysisVersions: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const activePrompt = await getActivePromptVersion(ctx.supabase);
+
+      const { data, error } = await ctx.supabase
+        .from("hook_analysis")
+        .select(`
+          id,
+          analysis_result,
+          processed_at,
+          prompt_version,
+          model,
+          tiktok_videos!inner (
+            search_term_videos!inner (
+              search_terms!inner (
+                user_id
+              )
+            )
+          )
+        `)
+        .eq("video_id", input.videoId)
+        .eq("tiktok_videos.search_term_videos.search_terms.user_id", ctx.user.id)
+        .order("processed_at", { ascending: false });
+
+      if (error) throw error;
+
+      const latestByVersion = new Map<number, (typeof data)[number]>();
+      for (const analysis of data) {
+        if (!latestByVersion.has(analysis.prompt_version)) latestByVersion.set(analysis.prompt_version, analysis);
+      }
+
+      const analyses = Array.from(latestByVersion.values()).sort((a, b) => b.prompt_version - a.prompt_version);
+      // Without an active-version analysis, compare against the newest one
+      const baseline = latestByVersion.get(activePrompt.version) ?? data[0];
+
+      return {
+        activeVersion: activePrompt.version,
+        baselineVersion: baseline?.prompt_version ?? null,
+        versions: analyses.map(analysis => {
+          const result = analysis.analysis_result as unknown as HookAnalysisResult;
+          return {
+            id: analysis.id,
+            promptVersion: analysis.prompt_version as number,
+            model: analysis.model as string | null,
+            processedAt: analysis.processed_at as string,
+            overallScore: result.overallScore,
+            effectiveness: result.openingLines?.effectiveness,
+            hookType: result.engagementTactics?.hook_type,
+            emotionalImpact: result.openingLines?.emotional_impact,
+            changes: baseline && analysis.id !== baseline.id
+              ? compareAnalyses(baseline.analysis_result as unknown as HookAnalysisResult, result)
+              : null,
+          };
+        }),
+      };
+    }),
+
+  retryVideoDownload: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { data: video, error } = await ctx.supabase
+        .from("tiktok_videos")
+        .select(`
+          *,
+          search_term_videos!inner (
+            search_term_id,
+            search_terms!inner (
+              user_id
+            )
+          )
+        `)
+        .eq("id", input.videoId)
+        .eq("search_term_videos.search_terms.user_id", ctx.user.id)
+        .single();
+
+      if (error) throw error;
+
+      const reason = video.download_failure_reason as DownloadFailureReason | null;
+      if (!reason) {
+        throw new Error("Video download has not failed");
+      }
+      if (!isRetryableDownloadFailure(reason)) {
+        throw new Error("This video can't be downloaded");
+      }
+
+      // No direct URL: the one captured at search time is what expired
+      await inngestClient.send({
+        name: "tiktok/download-video",
+        data: {
+          videoId: video.id,
+          searchTermId: video.search_term_videos[0].search_term_id,
+          videoUrl: video.video_url,
+          videoMetadata: {
+            title: video.title || "",
+            creator: video.creator || "",
+            creatorUsername: video.creator_username || "",
+            viewCount: video.view_count || 0,
+            likeCount: video.like_count || 0,
+            shareCount: video.share_count || 0,
+            commentCount: video.comment_count || 0,
+            duration: video.duration || 0,
+            thumbnailUrl: video.thumbnail_url || "",
+          },
+        },
+      });
+
+      return { success: true };
+    }),
+
+  // Drafts
+  createDraftUpload: protectedProcedure
+    .input(draftUploadSchema)
+    .mutation(async ({ ctx, input }) => {
+      // The browser PUTs the file straight to storage with this URL
+      const key = createBlobKey(input.fileName, draftStoragePrefix(ctx.user.id));
+      const signedUrl = await blobStore.signedUrl(key, { method: "PUT", contentType: input.contentType });
+      return { key, signedUrl };
+    }),
+
+  analyzeDraft: protectedProcedure
+    .input(z.object({
+      storageKey: z.string().min(1),
+      title: z.string().min(1).max(150),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!input.storageKey.startsWith(`${draftStoragePrefix(ctx.user.id)}/`)) {
+        throw new Error("Draft upload not found");
+      }
+
+      // The upload URL was issued for the size the browser reported; check what was actually stored
+      const stored = await blobStore.head(input.storageKey);
+      if (!stored) {
+        throw new Error("Draft upload not found");
+      }
+      if (stored.size > MAX_DRAFT_SIZE_BYTES) {
+        await blobStore.delete([input.storageKey]);
+        throw new Error(DRAFT_TOO_LARGE_MESSAGE);
+      }
+
+      const collectionId = await getCollectionId(ctx.supabase, ctx.user.id, "drafts", DRAFTS_TERM);
+
+      await inngestClient.send({
+        name: "tiktok/analyze-draft",
+        data: {
+          searchTermId: collectionId,
+          userId: ctx.user.id,
+          storageKey: input.storageKey,
+          title: input.title,
+        },
+      });
+
+      return { success: true };
+    }),
+
+  getDrafts: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from("tiktok_videos")
+      .select(`
+        id,
+        title,
+        duration,
+        r2_key,
+        analysis_error,
+        analysis_window,
+        created_at,
+        search_term_videos!inner (
+          search_terms!inner (
+            user_id
+          )
+        ),
+        hook_analysis (
+          id,
+          analysis_result,
+          processed_at
+        )
+      `)
+      .eq("search_term_videos.search_terms.user_id", ctx.user.id)
+      .eq("is_draft", true)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data;
+  }),
+
+  compareDraftToNiche: protectedProcedure
+    .input(z.object({
+      videoId: z.string(),
+      searchTermId: z.string().optional(),
+      metricsMode: metricsModeSchema.default("first_seen")
+    }))
+    .query(async ({ ctx, input }) => {
+      const { data: analysis, error } = await ctx.supabase
+        .from("hook_analysis")
+        .select(`
+          analysis_result,
+          hook_criterion_scores (
+            criterion_id,
+            name,
+            scale_min,
+            scale_max,
+            score,
+            rationale
+          ),
+          tiktok_videos!inner (
+            is_draft,
+            media_signals,
+            search_term_videos!inner (
+              search_terms!inner (
+                user_id
+              )
+            )
+          )
+        `)
+        .eq("video_id", input.videoId)
+        .eq("tiktok_videos.is_draft", true)
+        .eq("tiktok_videos.search_term_videos.search_terms.user_id", ctx.user.id)
+        .eq("hook_criterion_scores.user_id", ctx.user.id)
+        .order("processed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!analysis) {
+        throw new Error("This draft has not been analyzed yet");
+      }
+
+      const clusteringService = new ClusteringService(ctx.supabase as any);
+      return await clusteringService.compareToNiche(
+        ctx.user.id,
+        withCriterionScores(analysis.analysis_result, analysis.hook_criterion_scores),
+        input.searchTermId,
+        input.metricsMode,
+        undefined,
+        analysis.tiktok_videos.media_signals as unknown as MediaSignals | null
+      );
+    }),
+
+  // Score a hook script before any footage exists
+  scoreHookScript: protectedProcedure
+    .input(z.object({
+      script: z.string().trim().min(1).max(500),
+      onScreenText: z.string().trim().max(300).optional(),
+      visualNotes: z.string().trim().max(500).optional(),
+      searchTermId: z.string().optional(),
+      metricsMode: metricsModeSchema.default("first_seen")
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const analysis = await analysisModel.analyzeHookScript({
+        script: input.script,
+        onScreenText: input.onScreenText || undefined,
+        visualNotes: input.visualNotes || undefined,
+      });
+
+      // Keep the analysis even if the niche is too small to compare against
+      const clusteringService = new ClusteringService(ctx.supabase as any);
+      try {
+        const comparison = await clusteringService.compareScriptToNiche(
+          ctx.user.id,
+          analysis,
+          input.searchTermId,
+          input.metricsMode
+        );
+        return { analysis, comparison, comparisonError: null };
+      } catch (error) {
+        return {
+          analysis,
+          comparison: null,
+          comparisonError: error instanceof Error ? error.message : "Failed to compare to niche",
+        };
+      }
+    }),
+
+  // Rewrite an analyzed hook toward the niche's best-performing cluster
+  rewriteHook: protectedProcedure
+    .input(z.object({
+      analysisId: z.string(),
+      searchTermId: z.string().optional(),
+      count: z.number().min(1).max(5).default(3),
+      metricsMode: metricsModeSchema.default("first_seen")
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { data: hookAnalysis, error } = await ctx.supabase
+        .from("hook_analysis")
+        .select(`
+          analysis_result,
+          tiktok_videos!inner (
+            search_term_videos!inner (
+              search_terms!inner (
+                user_id
+              )
+            )
+          )
+        `)
+        .eq("id", input.analysisId)
+        .eq("tiktok_videos.search_term_videos.search_terms.user_id", ctx.user.id)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!hookAnalysis) {
+        throw new Error("Hook analysis not found");
+      }
+
+      const transcript = (hookAnalysis.analysis_result as unknown as HookAnalysisResult).openingLines?.transcript;
+      if (!transcript) {
+        throw new Error("This hook has no transcript to rewrite");
+      }
+
+      const clusteringService = new ClusteringService(ctx.supabase as any);
+      const winningCluster = await clusteringService.findWinningCluster(
+        ctx.user.id,
+        input.searchTermId,
+        input.metricsMode
+      );
+
+      // Only text features can be acted on by a rewrite; centroid values are z-scores
+      const featureNotes = winningCluster.dominantFeatures
+        .filter(f => !ENGAGEMENT_FEATURE_NAMES.includes(f.feature) && !FOOTAGE_FEATURE_NAMES.includes(f.feature))
+        .map(f => `${f.feature} is ${f.value >= 0 ? "above" : "below"} the niche average`);
+
+      const rewrites = await analysisModel.rewriteHook(transcript, {
+        hookTypes: winningCluster.topHookTypes.slice(0, 3).map(h => h.type),
+        techniques: winningCluster.commonTechniques.slice(0, 5).map(t => t.technique),
+        featureNotes,
+      }, input.count);
+
+      // Score the original with the same text-only prompt so the comparison is like for like
+      const [original, ...scored] = await Promise.all([
+        analysisModel.analyzeHookScript({ script: transcript }),
+        ...rewrites.map(rewrite => analysisModel.analyzeHookScript({ script: rewrite.transcript })),
+      ]);
+
+      return {
+        cluster: {
+          size: winningCluster.size,
+          avgViewCount: winningCluster.avgViewCount,
+          topHookTypes: winningCluster.topHookTypes,
+          commonTechniques: winningCluster.commonTechniques,
+        },
+        original: { transcript, analysis: original! },
+        variants: rewrites.map((rewrite, idx) => ({
+          transcript: rewrite.transcript,
+          rationale: rewrite.rationale,
+          analysis: scored[idx]!,
+          changedFeatures: clusteringService.diffScriptFeatures(original!, scored[idx]!),
+        })),
+        metricsMode: input.metricsMode,
+      };
+    }),
+
+  // Hook Suggestions
+  getHookSuggestionSets: protectedProcedure
+    .input(z.object({ searchTermId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { data, error } = await ctx.supabase
+        .from("hook_suggestion_sets")
+        .select("*")
+        .eq("search_term_id", input.searchTermId)
+        .eq("user_id", ctx.user.id)
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data;
+    }),
+
+  generateHookSuggestions: protectedProcedure
+    .input(z.object({
+      searchTermId: z.string(),
+      metricsMode: metricsModeSchema.default("first_seen")
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { data: searchTerm, error: termError } = await ctx.supabase
+        .from("search_terms")
+        .select("id, term")
+        .eq("id", input.searchTermId)
+        .eq("user_id", ctx.user.id)
+        .single();
+
+      if (termError) throw termError;
+
+      // Base suggestions on what the term's best performing videos do
+      const clusteringService = new ClusteringService(ctx.supabase as any);
+      const segmented = await clusteringService.performSegmentedClustering(
+        ctx.user.id,
+        input.searchTermId,
+        75,
+        25,
+        input.metricsMode
+      );
+      const sourceIds = segmented.topTierAnalysisIds.slice(0, MAX_SUGGESTION_SOURCES);
+
+      const { data: sources, error: sourcesError } = await ctx.supabase
+        .from("hook_analysis")
+        .select("id, analysis_result")
+        .in("id", sourceIds);
+
+      if (sourcesError) throw sourcesError;
+
+      const analysisResults = sourceIds
+        .map(id => sources.find(source => source.id === id)?.analysis_result)
+        .filter(Boolean) as unknown as HookAnalysisResult[];
+
+      const generated = await analysisModel.generateHookSuggestions(searchTerm.term, analysisResults);
+      const suggestions: HookSuggestion[] = generated.suggestions.map(text => ({ text, favorite: false }));
+
+      const { data, error } = await ctx.supabase
+        .from("hook_suggestion_sets")
+        .insert({
+          user_id: ctx.user.id,
+          search_term_id: input.searchTermId,
+          suggestions: suggestions as any,
+          examples: generated.examples,
+          rationale: generated.rationale,
+          source_analysis_ids: sourceIds,
+          metrics_mode: input.metricsMode,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }),
+
+  toggleHookSuggestionFavorite: protectedProcedure
+    .input(z.object({
+      setId: z.string(),
+      index: z.number().int().min(0),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { data: set, error: fetchError } = await ctx.supabase
+        .from("hook_suggestion_sets")
+        .select("suggestions")
+        .eq("id", input.setId)
+        .eq("user_id", ctx.user.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const suggestions = set.suggestions as unknown as HookSuggestion[];
+      const suggestion = suggestions[input.index];
+      if (!suggestion) {
+        throw new Error("Suggestion not found");
+      }
+      suggestion.favorite = !suggestion.favorite;
+
+      const { error } = await ctx.supabase
+        .from("hook_suggestion_sets")
+        .update({ suggestions: suggestions as any })
+        .eq("id", input.setId)
+        .eq("user_id", ctx.user.id);
+
+      if (error) throw error;
+      return { favorite: suggestion.favorite };
+    }),
 
   // Clustering
   getHookClusters: protectedProcedure
     .input(z.object({
       k: z.number().optional(),
-      searchTermId: z.string().optional()
+      searchTermId: z.string().optional(),
+      metricsMode: metricsModeSchema.default("first_seen"),
+      collapseDuplicates: z.boolean().default(false)
     }))
     .query(async ({ ctx, input }) => {
       const clusteringService = new ClusteringService(ctx.supabase as any);
-      return await clusteringService.performClustering(ctx.user.id, input.k, input.searchTermId);
+      return await clusteringService.performClustering(
+        ctx.user.id,
+        input.k,
+        input.searchTermId,
+        input.metricsMode,
+        input.collapseDuplicates
+      );
     }),
 
   // Segmented Clustering (Performance Tiers)
@@ -473,7 +1412,9 @@ export const tiktokRouter = createTRPCRouter({
     .input(z.object({
       searchTermId: z.string().optional(),
       topPercentile: z.number().min(50).max(95).default(75),
-      lowPercentile: z.number().min(5).max(50).default(25)
+      lowPercentile: z.number().min(5).max(50).default(25),
+      metricsMode: metricsModeSchema.default("first_seen"),
+      collapseDuplicates: z.boolean().default(false)
     }))
     .query(async ({ ctx, input }) => {
       const clusteringService = new ClusteringService(ctx.supabase as any);
@@ -481,7 +1422,9 @@ export const tiktokRouter = createTRPCRouter({
         ctx.user.id,
         input.searchTermId,
         input.topPercentile,
-        input.lowPercentile
+        input.lowPercentile,
+        input.metricsMode,
+        input.collapseDuplicates
       );
     }),
 });
\ No newline at end of file
@@ -1,8 +1,18 @@
 import { SupabaseClient } from "@supabase/supabase-js";
 import { Database } from "@shared-types/database.types";
-import { featureExtractor, FeatureVector } from "@/lib/clustering/feature-extractor";
+import {
+    CriterionDimension,
+    ENGAGEMENT_FEATURE_NAMES,
+    FOOTAGE_FEATURE_NAMES,
+    featureExtractor,
+    FeatureVector
+} from "@/lib/clustering/feature-extractor";
 import { KMeans, ClusterResult, ElbowPoint } from "@/lib/clustering/kmeans";
-import { HookAnalysisResult } from "@/lib/clients/gemini";
+import { HookAnalysisResult, HookScriptAnalysis } from "@/lib/clients/gemini";
+import { MetricsMode, resolveVideoMetrics } from "@/lib/video-metrics";
+import { MediaSignals } from "@/lib/media-signals";
+import { getActivePromptVersion } from "@/server/services/prompt-versions";
+import { withCriterionScores } from "@/server/services/rubric-criteria";
 
 // Define types for our service
 export interface ClusterStats {
@@ -69,6 +79,14 @@ export interface ClusteringResult {
     wcss: number;
     silhouetteScore: number;
     totalAnalyzed: number;
+    metricsMode: MetricsMode; // Which counts the view/like figures are based on
+
+    // Standardization applied before clustering; centroids are in this space
+    featureMeans: number[];
+    featureStdDevs: number[];
+
+    // Rubric criteria clustered as features, after the fixed ones
+    criteria: CriterionDimension[];
 }
 
 export type PerformanceTier = 'top' | 'middle' | 'low';
@@ -92,6 +110,37 @@ export interface SegmentedClusteringResult {
         avgMiddleViews: number;
         avgLowViews: number;
     };
+    topTierAnalysisIds: string[]; // hook_analysis ids of the top tier, most viewed first
+}
+
+export interface FeatureDifference {
+    feature: string;
+    value: number; // The compared hook's value, in raw feature units (0-1)
+    topTierValue: number;
+    difference: number; // value minus topTierValue
+}
+
+// Where an unpublished hook (draft video or script) sits relative to a niche
+export interface NicheComparison {
+    nearestCluster: ClusterStats;
+    distanceToCluster: number; // Over the compared features only, in the niche's standardized space
+    // Null when the niche doesn't have enough analyses to form a top tier
+    topTierDifferences: FeatureDifference[] | null;
+    // Highest-scoring representative hooks of the top tier
+    topTierExamples: { text: string; score: number; views: number }[];
+    totalAnalyzed: number;
+    metricsMode: MetricsMode;
+}
+
+// Scripts have no footage, so visuals are left empty and the overall score at 0
+function scriptToAnalysis(script: HookScriptAnalysis): HookAnalysisResult {
+    return {
+        ...script,
+        visualElements: { opening_shot: "", visual_hooks: [], color_palette: [], text_overlays: [], transitions: [] },
+        overallScore: 0,
+        recommendations: [],
+        summary: ""
+    };
 }
 
 export class ClusteringService {
@@ -104,41 +153,92 @@ export class ClusteringService {
     /**
      * Fetch all hook analyses and perform K-Means clustering
      */
-    async performClustering(userId: string, k?: number, searchTermId?: string): Promise<ClusteringResult> {
+    async performClustering(
+        userId: string,
+        k?: number,
+        searchTermId?: string,
+        metricsMode: MetricsMode = "first_seen",
+        collapseDuplicates: boolean = false
+    ): Promise<ClusteringResult> {
         // 1. Fetch all hook analyses for the user
+        // Analyses from different prompt versions aren't comparable; only the active one is clustered
+        const activePrompt = await getActivePromptVersion(this.supabase);
         let query = this.supabase
             .from("hook_analysis")
             .select(`
         *,
+        hook_criterion_scores (
+          criterion_id,
+          name,
+          scale_min,
+          scale_max,
+          score,
+          rationale
+        ),
         tiktok_videos!inner (
           id,
           view_count,
           like_count,
           share_count,
           comment_count,
-          search_term_id,
-          search_terms!inner (
-            user_id
+          latest_view_count,
+          latest_like_count,
+          latest_share_count,
+          latest_comment_count,
+          published_at,
+          metrics_refreshed_at,
+          media_signals,
+          search_term_videos!inner (
+            search_term_id,
+            search_terms!inner (
+              user_id
+            )
+          ),
+          video_duplicates!video_duplicates_video_id_fkey (
+            duplicate_of
           )
         )
       `)
-            .eq("tiktok_videos.search_terms.user_id", userId)
+            .eq("tiktok_videos.search_term_videos.search_terms.user_id", userId)
+            .eq("tiktok_videos.video_duplicates.user_id", userId)
+            .eq("hook_criterion_scores.user_id", userId)
+            .eq("tiktok_videos.is_draft", false)
+            .eq("prompt_version", activePrompt.version)
             .not("analysis_result", "is", null);
 
         // Filter by search term if provided
         if (searchTermId) {
-            query = query.eq("tiktok_videos.search_term_id", searchTermId);
+            query = query.eq("tiktok_videos.search_term_videos.search_term_id", searchTermId);
         }
 
-        const { data: analyses, error } = await query;
+        // Count each repost once, as its earliest copy
+        if (collapseDuplicates) {
+            query = query.is("tiktok_videos.video_duplicates", null);
+        }
+
+        const { data: rows, error } = await query;
 
         if (error) throw error;
+
+        // Only the user's own rubric scores become criterion features
+        const analyses = rows?.map(analysis => ({
+            ...analysis,
+            analysis_result: withCriterionScores(analysis.analysis_result, analysis.hook_criterion_scores),
+        }));
+
+        // View/like figures used for stats and tiering, per the requested metrics mode
+        const metricsOf = (analysis: NonNullable<typeof analyses>[number]) =>
+            resolveVideoMetrics(analysis.tiktok_videos, metricsMode);
+
         const termMsg = searchTermId ? " for this search term" : "";
         if (!analyses || analyses.length < 5) {
             throw new Error(`Not enough data to perform clustering${termMsg} (minimum 5 analyses required)`);
         }
 
         // 2. Extract features
+        const criteria = featureExtractor.getCriterionDimensions(
+            analyses.map(a => a.analysis_result as unknown as HookAnalysisResult)
+        );
         const vectors: FeatureVector[] = [];
         const validAnalyses: typeof analyses = [];
 
@@ -149,12 +249,12 @@ export class ClusteringService {
             // Skip if critical data is missing
             if (!result.openingLines || !result.engagementTactics) continue;
 
-            const vector = featureExtractor.extractFeatureVector(result, {
-                viewCount: video.view_count || 0,
-                likeCount: video.like_count || 0,
-                shareCount: video.share_count || 0,
-                commentCount: video.comment_count || 0,
-            });
+            const vector = featureExtractor.extractFeatureVector(
+                result,
+                resolveVideoMetrics(video, metricsMode),
+                video.media_signals as unknown as MediaSignals | null,
+                criteria
+            );
 
             vectors.push(vector);
             validAnalyses.push(analysis);
@@ -230,20 +330,20 @@ export class ClusteringService {
 
             // === PERFORMANCE METRICS ===
             // Views
-            const viewCounts = clusterAnalyses.map(a => a?.tiktok_videos?.view_count || 0);
+            const viewCounts = clusterAnalyses.map(a => metricsOf(a).viewCount);
             const avgViewCount = viewCounts.reduce((sum, v) => sum + v, 0) / viewCounts.length;
             const stdDevViewCount = calculateStdDev(viewCounts, avgViewCount);
             const viewCountCI = calculate95CI(avgViewCount, stdDevViewCount, viewCounts.length);
 
             // Likes
-            const likeCounts = clusterAnalyses.map(a => a?.tiktok_videos?.like_count || 0);
+            const likeCounts = clusterAnalyses.map(a => metricsOf(a).likeCount);
             const avgLikeCount = likeCounts.reduce((sum, v) => sum + v, 0) / likeCounts.length;
             const stdDevLikeCount = calculateStdDev(likeCounts, avgLikeCount);
 
             // Engagement Rate
             const engagementRates = clusterAnalyses.map(a => {
-                const views = a?.tiktok_videos?.view_count || 0;
-                const likes = a?.tiktok_videos?.like_count || 0;
+                const views = metricsOf(a).viewCount;
+                const likes = metricsOf(a).likeCount;
                 return views > 0 ? (likes / views) * 100 : 0;
             });
             const avgEngagementRate = engagementRates.reduce((sum, v) => sum + v, 0) / engagementRates.length;
@@ -348,8 +448,8 @@ export class ClusteringService {
             const representativeHooks = clusterAnalyses
                 .map((a, idx) => {
                     const analysis = a.analysis_result as unknown as HookAnalysisResult;
-                    const views = a?.tiktok_videos?.view_count || 0;
-                    const likes = a?.tiktok_videos?.like_count || 0;
+                    const views = metricsOf(a).viewCount;
+                    const likes = metricsOf(a).likeCount;
                     const distance = distances[idx] || 0;
                     return {
                         id: a.id,
@@ -414,6 +514,10 @@ export class ClusteringService {
             wcss: clusterResult.wcss,
             silhouetteScore,
             totalAnalyzed: vectors.length,
+            metricsMode,
+            featureMeans: means,
+            featureStdDevs: stdDevs,
+            criteria,
         };
     }
 
@@ -426,35 +530,78 @@ export class ClusteringService {
         userId: string,
         searchTermId?: string,
         topPercentile: number = 75,
-        lowPercentile: number = 25
+        lowPercentile: number = 25,
+        metricsMode: MetricsMode = "first_seen",
+        collapseDuplicates: boolean = false
     ): Promise<SegmentedClusteringResult> {
         // 1. Fetch all hook analyses (same as performClustering)
+        // Analyses from different prompt versions aren't comparable; only the active one is clustered
+        const activePrompt = await getActivePromptVersion(this.supabase);
         let query = this.supabase
             .from("hook_analysis")
             .select(`
         *,
+        hook_criterion_scores (
+          criterion_id,
+          name,
+          scale_min,
+          scale_max,
+          score,
+          rationale
+        ),
         tiktok_videos!inner (
           id,
           view_count,
           like_count,
           share_count,
           comment_count,
-          search_term_id,
-          search_terms!inner (
-            user_id
+          latest_view_count,
+          latest_like_count,
+          latest_share_count,
+          latest_comment_count,
+          published_at,
+          metrics_refreshed_at,
+          media_signals,
+          search_term_videos!inner (
+            search_term_id,
+            search_terms!inner (
+              user_id
+            )
+          ),
+          video_duplicates!video_duplicates_video_id_fkey (
+            duplicate_of
           )
         )
       `)
-            .eq("tiktok_videos.search_terms.user_id", userId)
+            .eq("tiktok_videos.search_term_videos.search_terms.user_id", userId)
+            .eq("tiktok_videos.video_duplicates.user_id", userId)
+            .eq("hook_criterion_scores.user_id", userId)
+            .eq("tiktok_videos.is_draft", false)
+            .eq("prompt_version", activePrompt.version)
             .not("analysis_result", "is", null);
 
         if (searchTermId) {
-            query = query.eq("tiktok_videos.search_term_id", searchTermId);
+            query = query.eq("tiktok_videos.search_term_videos.search_term_id", searchTermId);
+        }
+
+        if (collapseDuplicates) {
+            query = query.is("tiktok_videos.video_duplicates", null);
         }
 
-        const { data: analyses, error } = await query;
+        const { data: rows, error } = await query;
 
         if (error) throw error;
+
+        // Only the user's own rubric scores become criterion features
+        const analyses = rows?.map(analysis => ({
+            ...analysis,
+            analysis_result: withCriterionScores(analysis.analysis_result, analysis.hook_criterion_scores),
+        }));
+
+        // View/like figures used for stats and tiering, per the requested metrics mode
+        const metricsOf = (analysis: NonNullable<typeof analyses>[number]) =>
+            resolveVideoMetrics(analysis.tiktok_videos, metricsMode);
+
         const termMsg = searchTermId ? " for this search term" : "";
         if (!analyses || analyses.length < 10) {
             throw new Error(`Not enough data for segmented clustering${termMsg} (minimum 10 analyses required)`);
@@ -462,7 +609,7 @@ export class ClusteringService {
 
         // 2. Calculate percentile thresholds based on view counts
         const viewCounts = analyses
-            .map(a => a.tiktok_videos?.view_count || 0)
+            .map(a => metricsOf(a).viewCount)
             .sort((a, b) => a - b);
 
         const topIndex = Math.floor((topPercentile / 100) * viewCounts.length);
@@ -472,13 +619,18 @@ export class ClusteringService {
         const lowThreshold = viewCounts[lowIndex] || 0;
 
         // 3. Segment analyses into tiers
-        const topTierAnalyses = analyses.filter(a => (a.tiktok_videos?.view_count || 0) >= topThreshold);
-        const lowTierAnalyses = analyses.filter(a => (a.tiktok_videos?.view_count || 0) < lowThreshold);
+        const topTierAnalyses = analyses.filter(a => metricsOf(a).viewCount >= topThreshold);
+        const lowTierAnalyses = analyses.filter(a => metricsOf(a).viewCount < lowThreshold);
         const middleTierAnalyses = analyses.filter(a => {
-            const views = a.tiktok_videos?.view_count || 0;
+            const views = metricsOf(a).viewCount;
             return views >= lowThreshold && views < topThreshold;
         });
 
+        // Every tier uses the criteria of all analyses, so tier vectors line up with each other
+        const criteria = featureExtractor.getCriterionDimensions(
+            analyses.map(a => a.analysis_result as unknown as HookAnalysisResult)
+        );
+
         // 4. Helper function to perform clustering on a tier
         const clusterTier = async (tierAnalyses: typeof analyses): Promise<ClusteringResult | null> => {
             if (tierAnalyses.length < 5) {
@@ -494,12 +646,12 @@ export class ClusteringService {
 
                 if (!result.openingLines || !result.engagementTactics) continue;
 
-                const vector = featureExtractor.extractFeatureVector(result, {
-                    viewCount: video.view_count || 0,
-                    likeCount: video.like_count || 0,
-                    shareCount: video.share_count || 0,
-                    commentCount: video.comment_count || 0,
-                });
+                const vector = featureExtractor.extractFeatureVector(
+                    result,
+                    resolveVideoMetrics(video, metricsMode),
+                    video.media_signals as unknown as MediaSignals | null,
+                    criteria
+                );
 
                 vectors.push(vector);
                 validAnalyses.push(analysis);
@@ -509,7 +661,7 @@ export class ClusteringService {
 
             // Standardize features
             const rawFeatures = vectors.map(v => v.features);
-            const { standardized } = featureExtractor.standardizeFeatures(rawFeatures);
+            const { standardized, means, stdDevs } = featureExtractor.standardizeFeatures(rawFeatures);
 
             // Determine optimal K for this tier
             const maxK = Math.min(5, Math.floor(vectors.length / 2));
@@ -558,18 +710,18 @@ export class ClusteringService {
                 if (!centroid) continue;
 
                 // Calculate metrics
-                const viewCounts = clusterAnalyses.map(a => a?.tiktok_videos?.view_count || 0);
+                const viewCounts = clusterAnalyses.map(a => metricsOf(a).viewCount);
                 const avgViewCount = viewCounts.reduce((sum, v) => sum + v, 0) / viewCounts.length;
                 const stdDevViewCount = calculateStdDev(viewCounts, avgViewCount);
                 const viewCountCI = calculate95CI(avgViewCount, stdDevViewCount, viewCounts.length);
 
-                const likeCounts = clusterAnalyses.map(a => a?.tiktok_videos?.like_count || 0);
+                const likeCounts = clusterAnalyses.map(a => metricsOf(a).likeCount);
                 const avgLikeCount = likeCounts.reduce((sum, v) => sum + v, 0) / likeCounts.length;
                 const stdDevLikeCount = calculateStdDev(likeCounts, avgLikeCount);
 
                 const engagementRates = clusterAnalyses.map(a => {
-                    const views = a?.tiktok_videos?.view_count || 0;
-                    const likes = a?.tiktok_videos?.like_count || 0;
+                    const views = metricsOf(a).viewCount;
+                    const likes = metricsOf(a).likeCount;
                     return views > 0 ? (likes / views) * 100 : 0;
                 });
                 const avgEngagementRate = engagementRates.reduce((sum, v) => sum + v, 0) / engagementRates.length;
@@ -648,8 +800,8 @@ export class ClusteringService {
                 const representativeHooks = clusterAnalyses
                     .map((a, idx) => {
                         const analysis = a.analysis_result as unknown as HookAnalysisResult;
-                        const views = a?.tiktok_videos?.view_count || 0;
-                        const likes = a?.tiktok_videos?.like_count || 0;
+                        const views = metricsOf(a).viewCount;
+                        const likes = metricsOf(a).likeCount;
                         const distance = distances[idx] || 0;
                         return {
                             id: a.id,
@@ -705,7 +857,11 @@ export class ClusteringService {
                 k: optimalK,
                 wcss: clusterResult.wcss,
                 silhouetteScore,
-                totalAnalyzed: vectors.length
+                totalAnalyzed: vectors.length,
+                metricsMode,
+                featureMeans: means,
+                featureStdDevs: stdDevs,
+                criteria
             };
         };
 
@@ -722,13 +878,17 @@ export class ClusteringService {
             k: 0,
             wcss: 0,
             silhouetteScore: 0,
-            totalAnalyzed: 0
+            totalAnalyzed: 0,
+            metricsMode,
+            featureMeans: [],
+            featureStdDevs: [],
+            criteria: []
         };
 
         // 6. Calculate overall stats
         const calcAvgViews = (tierAnalyses: typeof analyses) => {
             if (tierAnalyses.length === 0) return 0;
-            return tierAnalyses.reduce((sum, a) => sum + (a.tiktok_videos?.view_count || 0), 0) / tierAnalyses.length;
+            return tierAnalyses.reduce((sum, a) => sum + metricsOf(a).viewCount, 0) / tierAnalyses.length;
         };
 
         return {
@@ -749,7 +909,140 @@ export class ClusteringService {
                 avgTopViews: calcAvgViews(topTierAnalyses),
                 avgMiddleViews: calcAvgViews(middleTierAnalyses),
                 avgLowViews: calcAvgViews(lowTierAnalyses)
+            },
+            topTierAnalysisIds: [...topTierAnalyses]
+                .sort((a, b) => metricsOf(b).viewCount - metricsOf(a).viewCount)
+                .map(a => a.id)
+        };
+    }
+
+    /**
+     * The niche's best-performing cluster: highest average views in the given metrics mode
+     */
+    async findWinningCluster(
+        userId: string,
+        searchTermId?: string,
+        metricsMode: MetricsMode = "first_seen"
+    ): Promise<ClusterStats> {
+        const clustering = await this.performClustering(userId, undefined, searchTermId, metricsMode);
+        const [winner] = [...clustering.clusters].sort((a, b) => b.avgViewCount - a.avgViewCount);
+
+        if (!winner) {
+            throw new Error("No clusters found for this niche");
+        }
+        return winner;
+    }
+
+    /**
+     * Place an unpublished hook in the niche: find the nearest cluster and compare
+     * its features to the centroid of the niche's top performers. Engagement
+     * features are always ignored since unpublished hooks have no public metrics.
+     */
+    async compareToNiche(
+        userId: string,
+        analysis: HookAnalysisResult,
+        searchTermId?: string,
+        metricsMode: MetricsMode = "first_seen",
+        excludedFeatures: readonly string[] = ENGAGEMENT_FEATURE_NAMES,
+        mediaSignals: MediaSignals | null = null
+    ): Promise<NicheComparison> {
+        // 1. Nearest cluster, measured in the clustering's standardized space
+        const clustering = await this.performClustering(userId, undefined, searchTermId, metricsMode);
+
+        const noMetrics = { viewCount: 0, likeCount: 0, shareCount: 0, commentCount: 0 };
+        const hookVector = featureExtractor.extractFeatureVector(analysis, noMetrics, mediaSignals, clustering.criteria);
+        // Features the hook has no value for (e.g. media signals that were never measured,
+        // or rubric criteria it wasn't scored against) are skipped
+        const comparedIndices = hookVector.featureNames
+            .map((name, idx) => (excludedFeatures.includes(name) || Number.isNaN(hookVector.features[idx]) ? -1 : idx))
+            .filter(idx => idx !== -1);
+        const [hookStandardized] = featureExtractor.applyStandardization(
+            [hookVector.features],
+            clustering.featureMeans,
+            clustering.featureStdDevs
+        );
+
+        const hookDistance = (centroid: number[]): number =>
+            Math.sqrt(comparedIndices.reduce((sum, idx) => sum + Math.pow((hookStandardized![idx] || 0) - (centroid[idx] || 0), 2), 0));
+
+        const ranked = clustering.clusters
+            .map(cluster => ({ cluster, distance: hookDistance(cluster.centroid) }))
+            .sort((a, b) => a.distance - b.distance);
+
+        const nearest = ranked[0];
+        if (!nearest) {
+            throw new Error("No clusters found for this niche");
+        }
+
+        // 2. Top-tier centroid: size-weighted mean of the tier's cluster centroids,
+        // mapped back from standardized to raw feature units
+        let topTierDifferences: FeatureDifference[] | null = null;
+        let topTierExamples: NicheComparison["topTierExamples"] = [];
+        try {
+            const segmented = await this.performSegmentedClustering(userId, searchTermId, 75, 25, metricsMode);
+            const { clusters, featureMeans, featureStdDevs } = segmented.topTier;
+            const tierSize = clusters.reduce((sum, c) => sum + c.size, 0);
+
+            if (tierSize > 0) {
+                topTierDifferences = comparedIndices
+                    .map(idx => {
+                        const standardizedValue = clusters.reduce((sum, c) => sum + (c.centroid[idx] || 0) * c.size, 0) / tierSize;
+                        const topTierValue = standardizedValue * (featureStdDevs[idx] ?? 1) + (featureMeans[idx] ?? 0);
+                        const value = hookVector.features[idx] || 0;
+                        return {
+                            feature: hookVector.featureNames[idx] || 'unknown',
+                            value,
+                            topTierValue,
+                            difference: value - topTierValue
+                        };
+                    })
+                    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+                topTierExamples = clusters
+                    .flatMap(c => c.representativeHooks)
+                    .filter(hook => hook.text)
+                    .sort((a, b) => b.score - a.score)
+                    .slice(0, 3)
+                    .map(({ text, score, views }) => ({ text, score, views }));
             }
+        } catch (error) {
+            // Too few analyses for performance tiers; the nearest cluster is still useful
+            console.warn('Skipping top-tier comparison:', error instanceof Error ? error.message : error);
+        }
+
+        return {
+            nearestCluster: nearest.cluster,
+            distanceToCluster: nearest.distance,
+            topTierDifferences,
+            topTierExamples,
+            totalAnalyzed: clustering.totalAnalyzed,
+            metricsMode
         };
     }
+
+    /**
+     * Place a text-only hook script in the niche. Scripts have no footage, so
+     * visual features and the overall score are left out of the comparison.
+     */
+    async compareScriptToNiche(
+        userId: string,
+        script: HookScriptAnalysis,
+        searchTermId?: string,
+        metricsMode: MetricsMode = "first_seen"
+    ): Promise<NicheComparison> {
+        return this.compareToNiche(userId, scriptToAnalysis(script), searchTermId, metricsMode, [
+            ...ENGAGEMENT_FEATURE_NAMES,
+            ...FOOTAGE_FEATURE_NAMES
+        ]);
+    }
+
+    /**
+     * Features that changed between two text-only analyses, e.g. a hook and its rewrite
+     */
+    diffScriptFeatures(before: HookScriptAnalysis, after: HookScriptAnalysis) {
+        return featureExtractor.diffFeatures(scriptToAnalysis(before), scriptToAnalysis(after), [
+            ...ENGAGEMENT_FEATURE_NAMES,
+            ...FOOTAGE_FEATURE_NAMES
+        ]);
+    }
 }
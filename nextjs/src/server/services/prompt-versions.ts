@@ -0,0 +1,32 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@shared-types/database.types";
+
+export type HookPromptVersion = Database["public"]["Tables"]["hook_prompt_versions"]["Row"];
+
+// Jobs pass the service-role client and the router its request-scoped one; only queries are needed
+type PromptVersionClient = Pick<SupabaseClient<Database>, "from">;
+
+// The version new videos are analyzed with, and the only one clustering, trends and the analysis list read
+export async function getActivePromptVersion(supabase: PromptVersionClient): Promise<HookPromptVersion> {
+  const { data, error } = await supabase
+    .from("hook_prompt_versions")
+    .select("*")
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("No active hook prompt version; mark one as active in hook_prompt_versions");
+  return data;
+}
+
+export async function getPromptVersion(supabase: PromptVersionClient, version: number): Promise<HookPromptVersion> {
+  const { data, error } = await supabase
+    .from("hook_prompt_versions")
+    .select("*")
+    .eq("version", version)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error(`Hook prompt version ${version} does not exist`);
+  return data;
+}
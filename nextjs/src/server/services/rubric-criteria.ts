@@ -0,0 +1,90 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@shared-types/database.types";
+import { HookAnalysisResult } from "@/lib/clients/gemini";
+import {
+  CustomCriterionScore,
+  RubricCriterion,
+  customCriterionScoreFromRow,
+  rubricCriterionFromRow,
+} from "@/lib/rubric-criteria";
+
+export type CriterionScoreRow = Pick<
+  Database["public"]["Tables"]["hook_criterion_scores"]["Row"],
+  "criterion_id" | "name" | "scale_min" | "scale_max" | "score" | "rationale"
+>;
+
+/**
+ * The rubric criteria a video is scored against: the workspace-wide criteria of
+ * every workspace whose search terms found it, plus those attached to the terms
+ * themselves. Oldest first, so the prompt lists them in a stable order.
+ */
+export async function getRubricCriteriaForVideo(
+  supabase: SupabaseClient<Database>,
+  videoId: string
+): Promise<RubricCriterion[]> {
+  const { data: links, error: linksError } = await supabase
+    .from("search_term_videos")
+    .select("search_term_id, search_terms!inner(user_id)")
+    .eq("video_id", videoId);
+
+  if (linksError) throw linksError;
+  if (!links || links.length === 0) return [];
+
+  const termIds = new Set(links.map(link => link.search_term_id));
+  const ownerIds = Array.from(new Set(links.map(link => link.search_terms.user_id)));
+
+  const { data: criteria, error } = await supabase
+    .from("rubric_criteria")
+    .select("*")
+    .in("user_id", ownerIds)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (criteria || [])
+    .filter(criterion => criterion.search_term_id === null || termIds.has(criterion.search_term_id))
+    .map(rubricCriterionFromRow);
+}
+
+/**
+ * Store an analysis's rubric scores, each under the user who owns the criterion,
+ * so every workspace only ever reads its own. Safe to repeat for the same analysis.
+ */
+export async function saveCriterionScores(
+  supabase: SupabaseClient<Database>,
+  hookAnalysisId: string,
+  criteria: RubricCriterion[],
+  scores: CustomCriterionScore[]
+): Promise<void> {
+  const owners = new Map(criteria.map(criterion => [criterion.id, criterion.userId]));
+  const rows = scores
+    .filter(score => owners.has(score.criterionId))
+    .map(score => ({
+      hook_analysis_id: hookAnalysisId,
+      user_id: owners.get(score.criterionId)!,
+      criterion_id: score.criterionId,
+      name: score.name,
+      scale_min: score.scaleMin,
+      scale_max: score.scaleMax,
+      score: score.score,
+      rationale: score.rationale,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from("hook_criterion_scores")
+    .upsert(rows, { onConflict: "hook_analysis_id,criterion_id" });
+
+  if (error) throw error;
+}
+
+// A stored analysis with the viewer's rubric scores, read with the analysis and filtered to the viewer
+export function withCriterionScores(
+  analysisResult: unknown,
+  scores: CriterionScoreRow[] | null | undefined
+): HookAnalysisResult {
+  const result = analysisResult as HookAnalysisResult;
+  if (!scores || scores.length === 0) return result;
+  return { ...result, customCriteria: scores.map(customCriterionScoreFromRow) };
+}
@@ -0,0 +1,83 @@
+import { Json } from "@shared-types/database.types";
+import { blobStore } from "@/lib/clients/storage";
+import { FilmstripFrame } from "@/lib/filmstrip";
+import { MirroredImage } from "@/lib/mirrored-images";
+
+// The bucket is private: videos and images are served through signed URLs, created
+// only after the caller's RLS-scoped query has returned the row.
+
+// Playback links are handed out one video at a time, so they can be short-lived
+export const PLAYBACK_URL_TTL_SECONDS = 15 * 60;
+
+// Images appear on list pages that stay open longer
+export const IMAGE_URL_TTL_SECONDS = 60 * 60;
+
+// The stored-media columns of tiktok_videos; any of them may be left out of a select
+export interface StoredVideoMedia {
+  r2_key?: string | null;
+  filmstrip?: Json | null;
+  thumbnail_mirror?: Json | null;
+  creator_avatar_mirror?: Json | null;
+}
+
+function mirrorKeys(mirror: Json | null | undefined): string[] {
+  const variants = (mirror as unknown as MirroredImage | null)?.variants;
+  return variants ? Object.values(variants).map(variant => variant.key) : [];
+}
+
+function filmstripKeys(filmstrip: Json | null | undefined): string[] {
+  return Array.isArray(filmstrip) ? (filmstrip as unknown as FilmstripFrame[]).map(frame => frame.key) : [];
+}
+
+// A mirror with any variant that couldn't be signed is dropped, so the UI falls back to the TikTok URL
+function signMirror(mirror: Json | null | undefined, urls: Map<string, string>): Json | null | undefined {
+  const image = mirror as unknown as MirroredImage | null | undefined;
+  if (!image?.variants) return mirror;
+
+  const entries = Object.entries(image.variants).map(([variant, stored]) => [variant, { ...stored, url: urls.get(stored.key) }] as const);
+  if (entries.some(([, signed]) => !signed.url)) return null;
+
+  return { ...image, variants: Object.fromEntries(entries) } as unknown as Json;
+}
+
+function signFilmstrip(filmstrip: Json | null | undefined, urls: Map<string, string>): Json | null | undefined {
+  if (!Array.isArray(filmstrip)) return filmstrip;
+
+  const frames = (filmstrip as unknown as FilmstripFrame[])
+    .filter(frame => urls.has(frame.key))
+    .map(frame => ({ ...frame, url: urls.get(frame.key)! }));
+  return frames as unknown as Json;
+}
+
+/**
+ * Replace the stored URLs of each video's mirrored images and filmstrip with
+ * signed ones, using one signing request for the whole list.
+ */
+export async function signVideoImages<T extends StoredVideoMedia>(videos: T[]): Promise<T[]> {
+  const keys = videos.flatMap(video => [
+    ...mirrorKeys(video.thumbnail_mirror),
+    ...mirrorKeys(video.creator_avatar_mirror),
+    ...filmstripKeys(video.filmstrip),
+  ]);
+  if (keys.length === 0) return videos;
+
+  const urls = await blobStore.signedUrls(keys, IMAGE_URL_TTL_SECONDS);
+
+  return videos.map(video => {
+    const signed = { ...video };
+    if ("thumbnail_mirror" in video) signed.thumbnail_mirror = signMirror(video.thumbnail_mirror, urls);
+    if ("creator_avatar_mirror" in video) signed.creator_avatar_mirror = signMirror(video.creator_avatar_mirror, urls);
+    if ("filmstrip" in video) signed.filmstrip = signFilmstrip(video.filmstrip, urls);
+    return signed;
+  });
+}
+
+// Sign a single video's images and add a short-lived playback_url for its stored copy
+export async function signVideoMedia<T extends StoredVideoMedia>(video: T): Promise<T & { playback_url: string | null }> {
+  const [signed] = await signVideoImages([video]);
+  const playbackUrl = video.r2_key
+    ? await blobStore.signedUrl(video.r2_key, { expiresIn: PLAYBACK_URL_TTL_SECONDS })
+    : null;
+
+  return { ...signed!, playback_url: playbackUrl };
+}
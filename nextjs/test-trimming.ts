@@ -1,4 +1,5 @@
 import { VideoProcessor } from './src/lib/video-processing';
+import { describeAnalysisWindow } from './src/lib/analysis-window';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { unlink, stat } from 'fs/promises';
@@ -43,15 +44,29 @@ async function testSmartTrim() {
         console.log(`Original Size: ${(result.originalSize / 1024 / 1024).toFixed(2)} MB`);
         console.log(`Processed Size: ${(result.processedSize / 1024 / 1024).toFixed(2)} MB`);
         console.log(`Trimmed: ${result.trimmed}`);
+        console.log(`Analysis window: ${describeAnalysisWindow(result.analysisWindow)}`);
+        console.log('Media signals:', result.mediaSignals);
 
         if (result.processedSize > 20 * 1024 * 1024) {
             throw new Error('Processed video is still larger than 20MB');
         }
 
-        if (!result.trimmed) {
-            throw new Error('Video was not trimmed');
+        // 30s source: first 8s at full frame rate, the rest at 1 fps
+        if (result.analysisWindow.hookEnd !== 8 || result.analysisWindow.remainderFps !== 1) {
+            throw new Error('Hook window was not applied');
         }
 
+        // testsrc is a single continuous shot with no audio track
+        if (!result.mediaSignals || result.mediaSignals.sceneCuts.length !== 0 || result.mediaSignals.integratedLoudnessLufs !== null) {
+            throw new Error('Unexpected media signals for the generated test video');
+        }
+
+        const processedInfo = await processor.getVideoInfo(result.tempFilePath);
+        if (Math.abs(processedInfo.duration - result.analysisWindow.end) > 0.5) {
+            throw new Error(`Processed duration ${processedInfo.duration}s does not match window end ${result.analysisWindow.end}s`);
+        }
+        await processor.cleanup(result.tempFilePath);
+
         console.log('Test PASSED');
 
     } catch (error) {
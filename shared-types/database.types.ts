@@ -40,7 +40,9 @@ export type Database = {
           created_at: string
           gemini_response: string | null
           id: string
+          model: string | null
           processed_at: string
+          prompt_version: number
           video_id: string
         }
         Insert: {
@@ -48,7 +50,9 @@ export type Database = {
           created_at?: string
           gemini_response?: string | null
           id?: string
+          model?: string | null
           processed_at?: string
+          prompt_version: number
           video_id: string
         }
         Update: {
@@ -56,10 +60,19 @@ export type Database = {
           created_at?: string
           gemini_response?: string | null
           id?: string
+          model?: string | null
           processed_at?: string
+          prompt_version?: number
           video_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "hook_analysis_prompt_version_fkey"
+            columns: ["prompt_version"]
+            isOneToOne: false
+            referencedRelation: "hook_prompt_versions"
+            referencedColumns: ["version"]
+          },
           {
             foreignKeyName: "hook_analysis_video_id_fkey"
             columns: ["video_id"]
@@ -69,103 +82,490 @@ export type Database = {
           },
         ]
       }
+      hook_criterion_scores: {
+        Row: {
+          created_at: string
+          criterion_id: string
+          hook_analysis_id: string
+          id: string
+          name: string
+          rationale: string
+          scale_max: number
+          scale_min: number
+          score: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          criterion_id: string
+          hook_analysis_id: string
+          id?: string
+          name: string
+          rationale?: string
+          scale_max: number
+          scale_min: number
+          score: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          criterion_id?: string
+          hook_analysis_id?: string
+          id?: string
+          name?: string
+          rationale?: string
+          scale_max?: number
+          scale_min?: number
+          score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hook_criterion_scores_hook_analysis_id_fkey"
+            columns: ["hook_analysis_id"]
+            isOneToOne: false
+            referencedRelation: "hook_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hook_prompt_versions: {
+        Row: {
+          created_at: string
+          description: string | null
+          is_active: boolean
+          template: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          is_active?: boolean
+          template: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          is_active?: boolean
+          template?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      hook_suggestion_sets: {
+        Row: {
+          created_at: string
+          examples: Json
+          id: string
+          metrics_mode: string
+          rationale: string | null
+          search_term_id: string
+          source_analysis_ids: string[]
+          suggestions: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          examples?: Json
+          id?: string
+          metrics_mode?: string
+          rationale?: string | null
+          search_term_id: string
+          source_analysis_ids?: string[]
+          suggestions: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          examples?: Json
+          id?: string
+          metrics_mode?: string
+          rationale?: string | null
+          search_term_id?: string
+          source_analysis_ids?: string[]
+          suggestions?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hook_suggestion_sets_search_term_id_fkey"
+            columns: ["search_term_id"]
+            isOneToOne: false
+            referencedRelation: "search_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubric_criteria: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          name: string
+          scale_max: number
+          scale_min: number
+          search_term_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id?: string
+          name: string
+          scale_max?: number
+          scale_min?: number
+          search_term_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          name?: string
+          scale_max?: number
+          scale_min?: number
+          search_term_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubric_criteria_search_term_id_fkey"
+            columns: ["search_term_id"]
+            isOneToOne: false
+            referencedRelation: "search_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          inngest_run_id: string | null
+          new_videos: number
+          search_term_id: string
+          started_at: string
+          status: string
+          trigger: string
+          videos_found: number
+          videos_queued: number
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          inngest_run_id?: string | null
+          new_videos?: number
+          search_term_id: string
+          started_at?: string
+          status?: string
+          trigger?: string
+          videos_found?: number
+          videos_queued?: number
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          inngest_run_id?: string | null
+          new_videos?: number
+          search_term_id?: string
+          started_at?: string
+          status?: string
+          trigger?: string
+          videos_found?: number
+          videos_queued?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_runs_search_term_id_fkey"
+            columns: ["search_term_id"]
+            isOneToOne: false
+            referencedRelation: "search_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_term_videos: {
+        Row: {
+          first_seen_at: string
+          last_seen_at: string
+          rank_position: number | null
+          search_run_id: string | null
+          search_term_id: string
+          video_id: string
+        }
+        Insert: {
+          first_seen_at?: string
+          last_seen_at?: string
+          rank_position?: number | null
+          search_run_id?: string | null
+          search_term_id: string
+          video_id: string
+        }
+        Update: {
+          first_seen_at?: string
+          last_seen_at?: string
+          rank_position?: number | null
+          search_run_id?: string | null
+          search_term_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_term_videos_search_run_id_fkey"
+            columns: ["search_run_id"]
+            isOneToOne: false
+            referencedRelation: "search_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "search_term_videos_search_term_id_fkey"
+            columns: ["search_term_id"]
+            isOneToOne: false
+            referencedRelation: "search_terms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "search_term_videos_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "tiktok_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       search_terms: {
         Row: {
+          crawl_schedule: string
           created_at: string
           id: string
+          kind: string
+          last_crawled_at: string | null
+          max_pages: number
+          publish_time: number
+          region: string
+          sort_type: number
           status: string
+          target_video_count: number
           term: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          crawl_schedule?: string
           created_at?: string
           id?: string
+          kind?: string
+          last_crawled_at?: string | null
+          max_pages?: number
+          publish_time?: number
+          region?: string
+          sort_type?: number
           status?: string
+          target_video_count?: number
           term: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          crawl_schedule?: string
           created_at?: string
           id?: string
+          kind?: string
+          last_crawled_at?: string | null
+          max_pages?: number
+          publish_time?: number
+          region?: string
+          sort_type?: number
           status?: string
+          target_video_count?: number
           term?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      tiktok_video_metrics: {
+        Row: {
+          captured_at: string
+          collect_count: number
+          comment_count: number
+          id: string
+          like_count: number
+          share_count: number
+          source: string
+          video_id: string
+          view_count: number
+        }
+        Insert: {
+          captured_at?: string
+          collect_count?: number
+          comment_count?: number
+          id?: string
+          like_count?: number
+          share_count?: number
+          source?: string
+          video_id: string
+          view_count?: number
+        }
+        Update: {
+          captured_at?: string
+          collect_count?: number
+          comment_count?: number
+          id?: string
+          like_count?: number
+          share_count?: number
+          source?: string
+          video_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tiktok_video_metrics_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "tiktok_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tiktok_videos: {
         Row: {
+          analysis_error: string | null
+          analysis_window: Json | null
           comment_count: number | null
+          content_hash: string | null
           created_at: string
           creator: string | null
+          creator_avatar_mirror: Json | null
           creator_username: string | null
+          download_error: string | null
+          download_failure_reason: string | null
           duration: number | null
+          filmstrip: Json | null
           id: string
+          image_mirror_attempted_at: string | null
+          is_draft: boolean
+          latest_comment_count: number | null
+          latest_like_count: number | null
+          latest_share_count: number | null
+          latest_view_count: number | null
           like_count: number | null
+          media_deleted_at: string | null
+          media_signals: Json | null
+          metrics_refreshed_at: string | null
+          perceptual_hash: Json | null
+          published_at: string | null
           r2_key: string | null
-          r2_url: string | null
+          r2_size: number | null
           raw_payload: Json | null
-          search_term_id: string
           share_count: number | null
+          thumbnail_mirror: Json | null
           thumbnail_url: string | null
           title: string | null
           updated_at: string
           video_id: string
           video_url: string
           view_count: number | null
+          view_growth_24h: number | null
+          view_growth_7d: number | null
+          views_per_hour: number | null
         }
         Insert: {
+          analysis_error?: string | null
+          analysis_window?: Json | null
           comment_count?: number | null
+          content_hash?: string | null
           created_at?: string
           creator?: string | null
+          creator_avatar_mirror?: Json | null
           creator_username?: string | null
+          download_error?: string | null
+          download_failure_reason?: string | null
           duration?: number | null
+          filmstrip?: Json | null
           id?: string
+          image_mirror_attempted_at?: string | null
+          is_draft?: boolean
+          latest_comment_count?: number | null
+          latest_like_count?: number | null
+          latest_share_count?: number | null
+          latest_view_count?: number | null
           like_count?: number | null
+          media_deleted_at?: string | null
+          media_signals?: Json | null
+          metrics_refreshed_at?: string | null
+          perceptual_hash?: Json | null
+          published_at?: string | null
           r2_key?: string | null
-          r2_url?: string | null
+          r2_size?: number | null
           raw_payload?: Json | null
-          search_term_id: string
           share_count?: number | null
+          thumbnail_mirror?: Json | null
           thumbnail_url?: string | null
           title?: string | null
           updated_at?: string
           video_id: string
           video_url: string
           view_count?: number | null
+          view_growth_24h?: number | null
+          view_growth_7d?: number | null
+          views_per_hour?: number | null
         }
         Update: {
+          analysis_error?: string | null
+          analysis_window?: Json | null
           comment_count?: number | null
+          content_hash?: string | null
           created_at?: string
           creator?: string | null
+          creator_avatar_mirror?: Json | null
           creator_username?: string | null
+          download_error?: string | null
+          download_failure_reason?: string | null
           duration?: number | null
+          filmstrip?: Json | null
           id?: string
+          image_mirror_attempted_at?: string | null
+          is_draft?: boolean
+          latest_comment_count?: number | null
+          latest_like_count?: number | null
+          latest_share_count?: number | null
+          latest_view_count?: number | null
           like_count?: number | null
+          media_deleted_at?: string | null
+          media_signals?: Json | null
+          metrics_refreshed_at?: string | null
+          perceptual_hash?: Json | null
+          published_at?: string | null
           r2_key?: string | null
-          r2_url?: string | null
+          r2_size?: number | null
           raw_payload?: Json | null
-          search_term_id?: string
           share_count?: number | null
+          thumbnail_mirror?: Json | null
           thumbnail_url?: string | null
           title?: string | null
           updated_at?: string
           video_id?: string
           video_url?: string
           view_count?: number | null
+          view_growth_24h?: number | null
+          view_growth_7d?: number | null
+          views_per_hour?: number | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "tiktok_videos_search_term_id_fkey"
-            columns: ["search_term_id"]
-            isOneToOne: false
-            referencedRelation: "search_terms"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       trend_analysis: {
         Row: {
@@ -292,6 +692,66 @@ export type Database = {
         }
         Relationships: []
       }
+      video_duplicates: {
+        Row: {
+          created_at: string
+          duplicate_of: string
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          duplicate_of: string
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          duplicate_of?: string
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_duplicates_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "tiktok_videos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_duplicates_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "tiktok_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_settings: {
+        Row: {
+          created_at: string
+          media_retention: string
+          media_retention_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          media_retention?: string
+          media_retention_days?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          media_retention?: string
+          media_retention_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
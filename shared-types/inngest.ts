@@ -12,16 +12,33 @@ type HelloWorld = {
 TIKTOK HOOK ANALYZER
 */
 
+type TikTokSearchOptions = {
+    region: string;
+    publishTime: number;
+    sortType: number;
+    maxPages: number;
+    targetVideoCount: number;
+};
+
 type TikTokSearchVideos = {
     searchTermId: string;
     searchTerm: string;
     userId: string;
+    searchOptions: TikTokSearchOptions;
+    trigger?: "initial" | "manual" | "scheduled";
+};
+
+type TikTokImportVideos = {
+    searchTermId: string; // the user's "Manual imports" collection
+    userId: string;
+    urls: string[];
 };
 
 type TikTokDownloadVideo = {
     videoId: string;
     searchTermId: string;
     videoUrl: string;
+    directDownloadUrl?: string; // play URL captured at search time; may have expired
     videoMetadata: {
         title: string;
         creator: string;
@@ -35,10 +52,26 @@ type TikTokDownloadVideo = {
     };
 };
 
+type TikTokMirrorImages = {
+    videoId: string;
+};
+
 type TikTokAnalyzeHook = {
     videoId: string;
     r2Key: string;
-    r2Url: string;
+    promptVersion?: number; // defaults to the active hook prompt version
+};
+
+type TikTokAnalyzeDraft = {
+    searchTermId: string; // the user's "Drafts" collection
+    userId: string;
+    storageKey: string;
+    title: string;
+};
+
+type TikTokRefreshVideoMetrics = {
+    videoId: string;
+    videoUrl: string;
 };
 
 type TikTokGenerateTrends = {
@@ -54,7 +87,11 @@ export type InngestEvents = {
     TIKTOK HOOK ANALYZER
     */
     "tiktok/search-videos": TikTokSearchVideos;
+    "tiktok/import-videos": TikTokImportVideos;
     "tiktok/download-video": TikTokDownloadVideo;
+    "tiktok/mirror-images": TikTokMirrorImages;
     "tiktok/analyze-hook": TikTokAnalyzeHook;
+    "tiktok/analyze-draft": TikTokAnalyzeDraft;
+    "tiktok/refresh-video-metrics": TikTokRefreshVideoMetrics;
     "tiktok/generate-trends": TikTokGenerateTrends;
 };
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Per-search-term TikTok search parameters
+-- ============================================================================
+
+ALTER TABLE public.search_terms
+  ADD COLUMN IF NOT EXISTS region TEXT NOT NULL DEFAULT 'us',
+  ADD COLUMN IF NOT EXISTS publish_time INTEGER NOT NULL DEFAULT 0
+    CHECK (publish_time IN (0, 1, 7, 30, 90, 180)), -- days, 0 = all time
+  ADD COLUMN IF NOT EXISTS sort_type INTEGER NOT NULL DEFAULT 0
+    CHECK (sort_type IN (0, 1, 3)), -- 0 = relevance, 1 = most liked, 3 = most recent
+  ADD COLUMN IF NOT EXISTS max_pages INTEGER NOT NULL DEFAULT 10
+    CHECK (max_pages BETWEEN 1 AND 30),
+  ADD COLUMN IF NOT EXISTS target_video_count INTEGER NOT NULL DEFAULT 100
+    CHECK (target_video_count BETWEEN 1 AND 500);
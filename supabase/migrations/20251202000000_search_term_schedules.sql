@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Scheduled re-crawls of search terms and search run history
+-- ============================================================================
+
+ALTER TABLE public.search_terms
+  ADD COLUMN IF NOT EXISTS crawl_schedule TEXT NOT NULL DEFAULT 'off'
+    CHECK (crawl_schedule IN ('off', 'daily', 'weekly')),
+  ADD COLUMN IF NOT EXISTS last_crawled_at TIMESTAMPTZ;
+
+-- One row per execution of the search job for a term
+CREATE TABLE IF NOT EXISTS public.search_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  search_term_id UUID NOT NULL REFERENCES public.search_terms(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('initial', 'manual', 'scheduled')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  videos_found INTEGER NOT NULL DEFAULT 0, -- videos kept after filtering
+  new_videos INTEGER NOT NULL DEFAULT 0, -- video_ids not seen for this term before
+  videos_queued INTEGER NOT NULL DEFAULT 0, -- download jobs queued
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_terms_crawl_schedule ON public.search_terms (crawl_schedule)
+  WHERE crawl_schedule <> 'off';
+CREATE INDEX IF NOT EXISTS idx_search_runs_search_term_started_at ON public.search_runs (search_term_id, started_at DESC);
+
+ALTER TABLE public.search_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view runs of their search terms" ON public.search_runs
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.search_terms st
+      WHERE st.id = search_runs.search_term_id
+      AND st.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage search runs" ON public.search_runs
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
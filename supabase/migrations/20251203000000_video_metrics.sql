@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Video metrics snapshots and view-velocity tracking
+-- ============================================================================
+
+-- view_count / like_count / share_count / comment_count keep the first-seen values.
+-- The latest_* and derived columns are maintained by the metrics refresh job.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS latest_view_count BIGINT,
+  ADD COLUMN IF NOT EXISTS latest_like_count BIGINT,
+  ADD COLUMN IF NOT EXISTS latest_share_count BIGINT,
+  ADD COLUMN IF NOT EXISTS latest_comment_count BIGINT,
+  ADD COLUMN IF NOT EXISTS views_per_hour DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS view_growth_24h BIGINT,
+  ADD COLUMN IF NOT EXISTS view_growth_7d BIGINT,
+  ADD COLUMN IF NOT EXISTS metrics_refreshed_at TIMESTAMPTZ;
+
+-- Backfill publish time from the stored search payload (createTime is unix seconds)
+UPDATE public.tiktok_videos
+SET published_at = to_timestamp((raw_payload->>'createTime')::BIGINT)
+WHERE published_at IS NULL
+  AND raw_payload ? 'createTime'
+  AND (raw_payload->>'createTime') ~ '^[0-9]+$';
+
+-- Time series of engagement counts, one row per observation
+CREATE TABLE IF NOT EXISTS public.tiktok_video_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.tiktok_videos(id) ON DELETE CASCADE,
+  view_count BIGINT NOT NULL DEFAULT 0,
+  like_count BIGINT NOT NULL DEFAULT 0,
+  share_count BIGINT NOT NULL DEFAULT 0,
+  comment_count BIGINT NOT NULL DEFAULT 0,
+  collect_count BIGINT NOT NULL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'refresh' CHECK (source IN ('search', 'refresh')),
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Seed the series with the first-seen counts
+INSERT INTO public.tiktok_video_metrics (video_id, view_count, like_count, share_count, comment_count, source, captured_at)
+SELECT id, COALESCE(view_count, 0), COALESCE(like_count, 0), COALESCE(share_count, 0), COALESCE(comment_count, 0), 'search', created_at
+FROM public.tiktok_videos;
+
+CREATE INDEX IF NOT EXISTS idx_tiktok_video_metrics_video_captured_at ON public.tiktok_video_metrics (video_id, captured_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tiktok_videos_metrics_refreshed_at ON public.tiktok_videos (metrics_refreshed_at NULLS FIRST);
+
+ALTER TABLE public.tiktok_video_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view metrics of their videos" ON public.tiktok_video_metrics
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.tiktok_videos tv
+      JOIN public.search_terms st ON st.id = tv.search_term_id
+      WHERE tv.id = tiktok_video_metrics.video_id
+      AND st.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage video metrics" ON public.tiktok_video_metrics
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
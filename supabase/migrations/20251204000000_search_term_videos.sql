@@ -0,0 +1,105 @@
+-- ============================================================================
+-- Many-to-many relationship between videos and search terms
+-- ============================================================================
+-- tiktok_videos.video_id is globally unique, so a video surfaced by several
+-- search terms (of one or several users) used to be reassigned to whichever
+-- term saved it last. Links now live in search_term_videos.
+
+CREATE TABLE IF NOT EXISTS public.search_term_videos (
+  search_term_id UUID NOT NULL REFERENCES public.search_terms(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.tiktok_videos(id) ON DELETE CASCADE,
+  search_run_id UUID REFERENCES public.search_runs(id) ON DELETE SET NULL, -- run that last found the video
+  rank_position INTEGER, -- 1-based position in that run's search results
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (search_term_id, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_term_videos_video_id ON public.search_term_videos (video_id);
+CREATE INDEX IF NOT EXISTS idx_search_term_videos_search_run_id ON public.search_term_videos (search_run_id);
+
+-- Migrate existing links (search position was not recorded)
+INSERT INTO public.search_term_videos (search_term_id, video_id, first_seen_at, last_seen_at)
+SELECT search_term_id, id, created_at, updated_at
+FROM public.tiktok_videos
+ON CONFLICT (search_term_id, video_id) DO NOTHING;
+
+-- Videos are shared now, so remove one only once no search term links to it anymore
+CREATE OR REPLACE FUNCTION public.delete_unlinked_tiktok_video()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.tiktok_videos tv
+  WHERE tv.id = OLD.video_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.search_term_videos stv WHERE stv.video_id = OLD.video_id
+    );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_unlinked_tiktok_video
+  AFTER DELETE ON public.search_term_videos
+  FOR EACH ROW EXECUTE FUNCTION public.delete_unlinked_tiktok_video();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.search_term_videos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view links of their search terms" ON public.search_term_videos
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.search_terms st
+      WHERE st.id = search_term_videos.search_term_id
+      AND st.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage search term videos" ON public.search_term_videos
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Rewrite policies that went through tiktok_videos.search_term_id
+DROP POLICY IF EXISTS "Users can view videos from their search terms" ON public.tiktok_videos;
+DROP POLICY IF EXISTS "Users can manage videos from their search terms" ON public.tiktok_videos;
+DROP POLICY IF EXISTS "Users can view analysis for their videos" ON public.hook_analysis;
+DROP POLICY IF EXISTS "Users can manage analysis for their videos" ON public.hook_analysis;
+DROP POLICY IF EXISTS "Users can view metrics of their videos" ON public.tiktok_video_metrics;
+
+CREATE POLICY "Users can view videos from their search terms" ON public.tiktok_videos
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.search_term_videos stv
+      JOIN public.search_terms st ON st.id = stv.search_term_id
+      WHERE stv.video_id = tiktok_videos.id
+      AND st.user_id = auth.uid()
+    )
+  );
+
+-- Shared videos can be read by every linked user, but not modified by them
+CREATE POLICY "Users can view analysis for their videos" ON public.hook_analysis
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.search_term_videos stv
+      JOIN public.search_terms st ON st.id = stv.search_term_id
+      WHERE stv.video_id = hook_analysis.video_id
+      AND st.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view metrics of their videos" ON public.tiktok_video_metrics
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.search_term_videos stv
+      JOIN public.search_terms st ON st.id = stv.search_term_id
+      WHERE stv.video_id = tiktok_video_metrics.video_id
+      AND st.user_id = auth.uid()
+    )
+  );
+
+DROP INDEX IF EXISTS public.idx_tiktok_videos_search_term_id;
+ALTER TABLE public.tiktok_videos DROP COLUMN IF EXISTS search_term_id;
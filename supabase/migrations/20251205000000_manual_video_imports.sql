@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Manual imports of specific TikTok URLs
+-- ============================================================================
+
+-- A "manual" search term is a collection of videos imported by URL rather than
+-- found by a keyword search. Each user has at most one.
+ALTER TABLE public.search_terms
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'search'
+    CHECK (kind IN ('search', 'manual'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_terms_manual_per_user ON public.search_terms (user_id)
+  WHERE kind = 'manual';
+
+ALTER TABLE public.tiktok_video_metrics DROP CONSTRAINT IF EXISTS tiktok_video_metrics_source_check;
+ALTER TABLE public.tiktok_video_metrics
+  ADD CONSTRAINT tiktok_video_metrics_source_check CHECK (source IN ('search', 'import', 'refresh'));
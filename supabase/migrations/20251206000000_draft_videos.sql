@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Draft videos uploaded by the user for pre-publish hook scoring
+-- ============================================================================
+
+-- Drafts are stored in tiktok_videos so they reuse hook_analysis, but they have
+-- no public metrics and are excluded from clustering, trends and refreshes.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS is_draft BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS analysis_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tiktok_videos_is_draft ON public.tiktok_videos (is_draft)
+  WHERE is_draft;
+
+-- Each user's drafts are linked to a single "drafts" search term, which is how
+-- ownership is resolved for every video.
+ALTER TABLE public.search_terms DROP CONSTRAINT IF EXISTS search_terms_kind_check;
+ALTER TABLE public.search_terms
+  ADD CONSTRAINT search_terms_kind_check CHECK (kind IN ('search', 'manual', 'drafts'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_terms_drafts_per_user ON public.search_terms (user_id)
+  WHERE kind = 'drafts';
+
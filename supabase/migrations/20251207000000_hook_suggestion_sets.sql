@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Generated hook suggestions
+-- ============================================================================
+
+-- Each row is one run of hook suggestion generation for a search term, based on
+-- the hook analyses of that term's top-performing videos.
+CREATE TABLE IF NOT EXISTS public.hook_suggestion_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  search_term_id UUID NOT NULL REFERENCES public.search_terms(id) ON DELETE CASCADE,
+  suggestions JSONB NOT NULL, -- [{ text, favorite }]
+  examples JSONB NOT NULL DEFAULT '[]'::jsonb, -- example opening lines
+  rationale TEXT,
+  source_analysis_ids UUID[] NOT NULL DEFAULT '{}', -- hook_analysis rows given to Gemini
+  metrics_mode TEXT NOT NULL DEFAULT 'first_seen',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hook_suggestion_sets_search_term ON public.hook_suggestion_sets (search_term_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hook_suggestion_sets_user_id ON public.hook_suggestion_sets (user_id);
+
+ALTER TABLE public.hook_suggestion_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own hook suggestions" ON public.hook_suggestion_sets
+  FOR ALL TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage hook suggestions" ON public.hook_suggestion_sets
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_hook_suggestion_sets_updated_at
+  BEFORE UPDATE ON public.hook_suggestion_sets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Time range of each video that was sent for hook analysis
+-- ============================================================================
+
+-- {start, end, hookEnd, remainderFps, sourceDuration} in seconds: the stored clip
+-- covers start-end, at full frame rate up to hookEnd and remainderFps after it.
+-- NULL for videos processed before analysis windows existed.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS analysis_window JSONB;
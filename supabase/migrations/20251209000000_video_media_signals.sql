@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Hook signals measured locally with ffmpeg
+-- ============================================================================
+
+-- {windowSeconds, sceneCuts, firstSpeechSeconds, integratedLoudnessLufs,
+--  motionIntensity, width, height, aspectRatio} over the first seconds of the
+-- video. Used as clustering features alongside Gemini's analysis; NULL for
+-- videos processed before signals were measured (clustering treats them as average).
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS media_signals JSONB;
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Filmstrip of each video's hook
+-- ============================================================================
+
+-- [{key, url, time}]: one JPEG every 0.5s over the hook window, stored in the
+-- tiktok-videos bucket under filmstrips/<video file name>/. NULL if the video was
+-- processed before filmstrips existed or extraction failed.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS filmstrip JSONB;
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Repost and duplicate detection
+-- ============================================================================
+
+-- sha256 of the downloaded file. Identical hashes are byte-for-byte copies, so
+-- the hook analysis of one can be reused for the other.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- ["<16 hex chars>", ...]: a 64-bit dHash per frame, sampled at 2 fps over the
+-- first 6 seconds. Close hashes mean the same footage, e.g. a re-upload.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS perceptual_hash JSONB;
+
+-- The earliest of the user's videos this one duplicates. NULL for originals,
+-- so filtering on duplicate_of IS NULL collapses duplicates.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.tiktok_videos(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tiktok_videos_content_hash ON public.tiktok_videos(content_hash);
+CREATE INDEX IF NOT EXISTS idx_tiktok_videos_duplicate_of ON public.tiktok_videos(duplicate_of);
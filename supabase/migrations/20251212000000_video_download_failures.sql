@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Why a video's download failed
+-- ============================================================================
+
+-- Set by the download job when every download strategy failed, cleared once a
+-- download succeeds. removed, geo_blocked and too_large are final; the rest are
+-- retried.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS download_failure_reason TEXT,
+  ADD COLUMN IF NOT EXISTS download_error TEXT;
+
+ALTER TABLE public.tiktok_videos DROP CONSTRAINT IF EXISTS tiktok_videos_download_failure_reason_check;
+ALTER TABLE public.tiktok_videos
+  ADD CONSTRAINT tiktok_videos_download_failure_reason_check CHECK (
+    download_failure_reason IN ('expired', 'geo_blocked', 'removed', 'too_large', 'url_not_allowed', 'network', 'unknown')
+  );
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Mirrored cover images and creator avatars
+-- ============================================================================
+
+-- TikTok's cover and avatar URLs expire within days. Both are copied into the
+-- tiktok-videos bucket as WebP, resized per variant:
+--   {sourceUrl, mirroredAt, variants: {card: {key, url, width}, detail: {...}}}
+-- Covers live under covers/<video id>/, avatars under avatars/<creator username>/.
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS thumbnail_mirror JSONB,
+  ADD COLUMN IF NOT EXISTS creator_avatar_mirror JSONB,
+  ADD COLUMN IF NOT EXISTS image_mirror_attempted_at TIMESTAMPTZ;
+
+-- Backfill scans for videos whose cover hasn't been mirrored yet
+CREATE INDEX IF NOT EXISTS idx_tiktok_videos_unmirrored ON public.tiktok_videos (image_mirror_attempted_at)
+  WHERE thumbnail_mirror IS NULL;
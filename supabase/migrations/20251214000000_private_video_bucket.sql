@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Private video bucket
+-- ============================================================================
+
+-- Stored videos, filmstrips and mirrored images were world-readable through
+-- permanent public URLs. The bucket becomes private and the API hands out
+-- short-lived signed URLs, only for rows the caller's RLS-scoped query returns.
+UPDATE storage.buckets SET public = false WHERE id = 'tiktok-videos';
+
+-- Objects are read with the service role (jobs) or through signed URLs; no
+-- user reads them directly, and any authenticated user could read every object
+DROP POLICY IF EXISTS "Allow public reads" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated reads" ON storage.objects;
+
+-- Likewise for writes: jobs upload with the service role and drafts through
+-- signed upload URLs. Otherwise any signed-in user could put objects at the
+-- predictable keys other users' signed URLs point to.
+DROP POLICY IF EXISTS "Allow authenticated uploads" ON storage.objects;
+
+-- r2_url held the public URL; the key is all that's needed to sign one.
+-- Rows stored before r2_key was always set get it back from the URL.
+UPDATE public.tiktok_videos
+SET r2_key = regexp_replace(r2_url, '^.*/storage/v1/object/public/tiktok-videos/', '')
+WHERE r2_key IS NULL
+  AND r2_url LIKE '%/storage/v1/object/public/tiktok-videos/%';
+
+-- Drafts used the public URL as their video_url too; they have no TikTok page
+UPDATE public.tiktok_videos
+SET video_url = r2_key
+WHERE is_draft
+  AND r2_key IS NOT NULL
+  AND video_url = r2_url;
+
+ALTER TABLE public.tiktok_videos DROP COLUMN IF EXISTS r2_url;
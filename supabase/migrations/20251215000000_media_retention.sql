@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Media retention
+-- ============================================================================
+
+-- Per-workspace settings. A workspace is one user's account: everything reached
+-- through their search terms. media_retention decides what happens to a video's
+-- stored copy once its hook has been analyzed:
+--   forever              keep the video and its filmstrip
+--   days_after_analysis  delete both media_retention_days after the analysis
+--   after_analysis       delete the video right away but keep the filmstrip
+CREATE TABLE IF NOT EXISTS public.workspace_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  media_retention TEXT NOT NULL DEFAULT 'forever'
+    CHECK (media_retention IN ('forever', 'days_after_analysis', 'after_analysis')),
+  media_retention_days INTEGER CHECK (media_retention_days > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (media_retention <> 'days_after_analysis' OR media_retention_days IS NOT NULL)
+);
+
+ALTER TABLE public.workspace_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own workspace settings" ON public.workspace_settings
+  FOR ALL TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage workspace settings" ON public.workspace_settings
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_workspace_settings_updated_at
+  BEFORE UPDATE ON public.workspace_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- r2_size is the stored video's size in bytes, kept after the video is deleted so
+-- the dashboard can show how much retention reclaimed. media_deleted_at is set
+-- when the storage lifecycle job removes the video (r2_key is cleared then).
+ALTER TABLE public.tiktok_videos
+  ADD COLUMN IF NOT EXISTS r2_size BIGINT,
+  ADD COLUMN IF NOT EXISTS media_deleted_at TIMESTAMPTZ;
+
+UPDATE public.tiktok_videos tv
+SET r2_size = (o.metadata->>'size')::BIGINT
+FROM storage.objects o
+WHERE o.bucket_id = 'tiktok-videos'
+  AND o.name = tv.r2_key
+  AND tv.r2_size IS NULL;
+
+-- The lifecycle job pages through videos that still have stored media
+CREATE INDEX IF NOT EXISTS idx_tiktok_videos_stored_media ON public.tiktok_videos (id)
+  WHERE r2_key IS NOT NULL OR filmstrip IS NOT NULL;
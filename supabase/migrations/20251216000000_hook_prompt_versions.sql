@@ -0,0 +1,89 @@
+-- ============================================================================
+-- Hook prompt versions
+-- ============================================================================
+
+-- The prompt used to analyze a video's hook, versioned so analyses made with
+-- different prompts aren't mixed. Exactly one version is active: new videos are
+-- analyzed with it and clustering, trends and the analysis list only use its
+-- analyses. Older versions stay available for side-by-side re-analysis. A new
+-- version is inserted inactive by one migration, the library is re-analyzed
+-- with it from the analysis page, and a later migration moves is_active to it,
+-- so the dashboards never switch to a version with no analyses.
+CREATE TABLE IF NOT EXISTS public.hook_prompt_versions (
+  version INTEGER PRIMARY KEY CHECK (version > 0),
+  template TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hook_prompt_versions_active ON public.hook_prompt_versions (is_active)
+  WHERE is_active;
+
+ALTER TABLE public.hook_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view hook prompt versions" ON public.hook_prompt_versions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Service role can manage hook prompt versions" ON public.hook_prompt_versions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Version 1 is the prompt every existing analysis was made with
+INSERT INTO public.hook_prompt_versions (version, template, description, is_active)
+VALUES (1, $prompt$You are an expert TikTok hook analyzer. Analyze the provided TikTok video and provide a comprehensive analysis of its hook effectiveness.
+
+Focus on the first 3-5 seconds of the video (the "hook") and analyze:
+
+1. **Opening Lines**: What are the spoken words/text? How effective are they at grabbing attention?
+2. **Visual Elements**: What visual techniques are used to capture attention?
+3. **Engagement Tactics**: What psychological triggers are used to make viewers want to continue watching?
+
+Provide your analysis in the following JSON format:
+
+{
+  "openingLines": {
+    "transcript": "exact words spoken or text shown in first 3-5 seconds",
+    "effectiveness": 8,
+    "techniques": ["question", "bold statement", "contradiction", etc.],
+    "emotional_impact": "curiosity/surprise/urgency/etc."
+  },
+  "visualElements": {
+    "opening_shot": "describe the very first visual",
+    "visual_hooks": ["fast cuts", "bright colors", "motion", "text overlay", etc.],
+    "color_palette": ["dominant colors used"],
+    "text_overlays": ["any text shown on screen"],
+    "transitions": ["types of transitions used"]
+  },
+  "engagementTactics": {
+    "hook_type": "question/statement/teaser/shock/etc.",
+    "curiosity_gaps": ["specific gaps that make viewers want to continue"],
+    "social_proof": ["follower counts", "likes shown", "testimonials", etc.],
+    "urgency_indicators": ["time-sensitive language", "scarcity", etc.],
+    "call_to_action": "what action is the viewer encouraged to take"
+  },
+  "overallScore": 85,
+  "recommendations": ["specific suggestions to improve the hook"],
+  "summary": "brief summary of hook effectiveness and main strengths/weaknesses"
+}
+
+Rate effectiveness on a scale of 1-10 where:
+- 1-3: Poor hook, likely to be scrolled past
+- 4-6: Average hook, some engagement
+- 7-8: Good hook, likely to retain viewers
+- 9-10: Excellent hook, highly engaging
+
+Provide detailed, actionable insights that would help creators improve their hooks.$prompt$, 'Original hook analysis prompt', true)
+ON CONFLICT (version) DO NOTHING;
+
+-- Which prompt version and model produced each analysis
+ALTER TABLE public.hook_analysis
+  ADD COLUMN IF NOT EXISTS prompt_version INTEGER REFERENCES public.hook_prompt_versions(version),
+  ADD COLUMN IF NOT EXISTS model TEXT;
+
+UPDATE public.hook_analysis
+SET prompt_version = 1, model = 'gemini-2.5-flash'
+WHERE prompt_version IS NULL;
+
+ALTER TABLE public.hook_analysis ALTER COLUMN prompt_version SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_hook_analysis_video_version ON public.hook_analysis (video_id, prompt_version);
@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Custom rubric criteria
+-- ============================================================================
+
+-- User-defined criteria scored alongside the fixed analysis prompt, e.g.
+-- "demonstrates the transformation in the first 2s". A criterion without a
+-- search term applies to every video in the workspace; one with a search term
+-- only to that term's videos. Each analysis stores a snapshot of the criteria it
+-- was scored against (analysis_result.customCriteria), so editing or deleting a
+-- criterion never rewrites past results.
+CREATE TABLE IF NOT EXISTS public.rubric_criteria (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  search_term_id UUID REFERENCES public.search_terms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT NOT NULL DEFAULT '',
+  scale_min INTEGER NOT NULL DEFAULT 1,
+  scale_max INTEGER NOT NULL DEFAULT 10,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (scale_max > scale_min)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rubric_criteria_user_id ON public.rubric_criteria (user_id);
+CREATE INDEX IF NOT EXISTS idx_rubric_criteria_search_term_id ON public.rubric_criteria (search_term_id)
+  WHERE search_term_id IS NOT NULL;
+
+ALTER TABLE public.rubric_criteria ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own rubric criteria" ON public.rubric_criteria
+  FOR ALL TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage rubric criteria" ON public.rubric_criteria
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_rubric_criteria_updated_at
+  BEFORE UPDATE ON public.rubric_criteria
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
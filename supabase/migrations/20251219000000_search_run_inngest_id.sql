@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Search run ownership
+-- ============================================================================
+
+-- The Inngest run that records a search run, so a failing run closes only its
+-- own row and not another run of the same term that is still going
+ALTER TABLE public.search_runs
+  ADD COLUMN IF NOT EXISTS inngest_run_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_search_runs_inngest_run_id ON public.search_runs (inngest_run_id)
+  WHERE inngest_run_id IS NOT NULL;
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Per-user duplicate links
+-- ============================================================================
+
+-- Whether a video is a repost depends on whose library it is checked against:
+-- the same clip can be a repost for one user and the original for another. The
+-- link therefore lives here, one row per user, instead of on the shared
+-- tiktok_videos row. Videos without a row are originals for that user, so an
+-- anti-join on this table collapses duplicates.
+CREATE TABLE IF NOT EXISTS public.video_duplicates (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.tiktok_videos(id) ON DELETE CASCADE,
+  -- The earliest of the user's videos this one duplicates
+  duplicate_of UUID NOT NULL REFERENCES public.tiktok_videos(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_duplicates_video_id ON public.video_duplicates (video_id);
+CREATE INDEX IF NOT EXISTS idx_video_duplicates_duplicate_of ON public.video_duplicates (duplicate_of);
+
+ALTER TABLE public.video_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate links" ON public.video_duplicates
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage duplicate links" ON public.video_duplicates
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Keep existing links for the users who have both the video and its original
+INSERT INTO public.video_duplicates (user_id, video_id, duplicate_of)
+SELECT DISTINCT st.user_id, v.id, v.duplicate_of
+FROM public.tiktok_videos v
+JOIN public.search_term_videos stv ON stv.video_id = v.id
+JOIN public.search_terms st ON st.id = stv.search_term_id
+WHERE v.duplicate_of IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM public.search_term_videos original_stv
+    JOIN public.search_terms original_st ON original_st.id = original_stv.search_term_id
+    WHERE original_stv.video_id = v.duplicate_of
+      AND original_st.user_id = st.user_id
+  )
+ON CONFLICT DO NOTHING;
+
+DROP INDEX IF EXISTS public.idx_tiktok_videos_duplicate_of;
+
+ALTER TABLE public.tiktok_videos
+  DROP COLUMN IF EXISTS duplicate_of;
@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Per-user rubric scores
+-- ============================================================================
+
+-- hook_analysis rows are shared by every workspace whose search terms found the
+-- video, but rubric criteria belong to one workspace. Scores therefore live here,
+-- one row per criterion under the criterion's owner, and are attached to the
+-- analysis for that user only when it is read. The name and scale are a
+-- snapshot taken at analysis time, so editing or deleting a criterion never
+-- rewrites past results.
+CREATE TABLE IF NOT EXISTS public.hook_criterion_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hook_analysis_id UUID NOT NULL REFERENCES public.hook_analysis(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  scale_min INTEGER NOT NULL,
+  scale_max INTEGER NOT NULL,
+  score DOUBLE PRECISION NOT NULL,
+  rationale TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (hook_analysis_id, criterion_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hook_criterion_scores_user_id ON public.hook_criterion_scores (user_id);
+
+ALTER TABLE public.hook_criterion_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own rubric scores" ON public.hook_criterion_scores
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage rubric scores" ON public.hook_criterion_scores
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Move the scores stored so far in analysis_result.customCriteria. Scores for
+-- criteria that have since been deleted have no known owner and are dropped.
+INSERT INTO public.hook_criterion_scores (hook_analysis_id, user_id, criterion_id, name, scale_min, scale_max, score, rationale)
+SELECT
+  ha.id,
+  rc.user_id,
+  rc.id,
+  score->>'name',
+  (score->>'scaleMin')::INTEGER,
+  (score->>'scaleMax')::INTEGER,
+  (score->>'score')::DOUBLE PRECISION,
+  COALESCE(score->>'rationale', '')
+FROM public.hook_analysis ha
+CROSS JOIN LATERAL jsonb_array_elements(ha.analysis_result->'customCriteria') AS score
+JOIN public.rubric_criteria rc ON rc.id::TEXT = score->>'criterionId'
+WHERE jsonb_typeof(ha.analysis_result->'customCriteria') = 'array'
+ON CONFLICT DO NOTHING;
+
+-- gemini_response holds the same JSON as analysis_result for these rows
+UPDATE public.hook_analysis
+SET
+  analysis_result = analysis_result - 'customCriteria',
+  gemini_response = ((gemini_response::JSONB) - 'customCriteria')::TEXT
+WHERE analysis_result ? 'customCriteria';